@@ -19,8 +19,29 @@ export default {
   DB_CONNECTION_STRING: getEnvVar("DB_CONNECTION_STRING"),
   CONFORMANCE_API: getEnvVar("CONFORMANCE_API"),
   TESTCASE_TIMEOUT: Number(process.env.TESTCASE_TIMEOUT ?? 5000),
+  TESTCASE_CONCURRENCY: Number(process.env.TESTCASE_CONCURRENCY ?? 4),
+  TESTCASE_RETRY_ATTEMPTS: Number(process.env.TESTCASE_RETRY_ATTEMPTS ?? 3),
+  TESTCASE_RETRY_BACKOFF: Number(process.env.TESTCASE_RETRY_BACKOFF ?? 500),
+  TESTCASE_RETRY_STATUS_CODES: (process.env.TESTCASE_RETRY_STATUS_CODES ?? "502,503,504")
+    .split(",").filter(Boolean).map(Number),
+  TESTCASE_RETRY_ERROR_CODES: (process.env.TESTCASE_RETRY_ERROR_CODES ??
+    "ECONNRESET,ENOTFOUND,EAI_AGAIN,UND_ERR_SOCKET")
+    .split(",").filter(Boolean),
+  // Maximum number of pages followed when listing footprints
+  PAGINATION_MAX_PAGES: Number(process.env.PAGINATION_MAX_PAGES ?? 100),
   LOG_OUTPUT: process.env.LOG_OUTPUT ?? "pino",
   LOG_LEVEL: process.env.LOG_LEVEL ?? "info",
   JWT_SECRET: process.env.JWT_SECRET ?? "",
   JWT_EXP: Number(process.env.JWT_EXP ?? 0),
+  JOB_POLL_INTERVAL: Number(process.env.JOB_POLL_INTERVAL ?? 2000),
+  JOB_STALE_TIMEOUT: Number(process.env.JOB_STALE_TIMEOUT ?? 15 * 60 * 1000),
+  JOB_MAX_ATTEMPTS: Number(process.env.JOB_MAX_ATTEMPTS ?? 3),
+  JOB_HEARTBEAT_INTERVAL: Number(process.env.JOB_HEARTBEAT_INTERVAL ?? 60 * 1000),
+  // Minutes to wait for callbacks, unless set for the test run, and how often to check for overdue ones
+  CALLBACK_TIMEOUT: Number(process.env.CALLBACK_TIMEOUT ?? 30),
+  CALLBACK_SWEEP_INTERVAL: Number(process.env.CALLBACK_SWEEP_INTERVAL ?? 60 * 1000),
+  // PEM encoded keys for signing conformance certificates, newlines may be escaped as \n
+  CERTIFICATE_PRIVATE_KEY: process.env.CERTIFICATE_PRIVATE_KEY ?? "",
+  CERTIFICATE_PUBLIC_KEY: process.env.CERTIFICATE_PUBLIC_KEY ?? "",
+  CERTIFICATE_KEY_ID: process.env.CERTIFICATE_KEY_ID ?? "",
 };
@@ -0,0 +1,35 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * Creates the test_run_jobs table, which holds the queue of test runs waiting to be
+ * executed in the background. Jobs are claimed by the TestRunQueue, and because the
+ * queue lives in the database, queued runs survive a restart of the service.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("test_run_jobs")
+    .ifNotExists()
+    .addColumn("id", "uuid", (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("test_run_id", "uuid", (col) =>
+      col.notNull().references("test_runs.id").onDelete("cascade")
+    )
+    .addColumn("status", "varchar(50)", (col) => col.notNull())
+    .addColumn("params", "jsonb", (col) => col.notNull())
+    .addColumn("attempts", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("error", "text")
+    .addColumn("created_at", "timestamp", (col) => col.notNull().defaultTo(sql`now()`))
+    .addColumn("locked_at", "timestamp")
+    .addColumn("completed_at", "timestamp")
+    .execute();
+
+  await db.schema
+    .createIndex("test_run_jobs_status_created_at_idx")
+    .ifNotExists()
+    .on("test_run_jobs")
+    .columns(["status", "created_at"])
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("test_run_jobs").ifExists().execute();
+}
@@ -0,0 +1,26 @@
+import { Kysely } from 'kysely';
+
+/**
+ * Adds the kind of job to test_run_jobs, so the queue can also rerun test cases of an
+ * existing test run. For reruns, test_keys holds the selected test cases, or null to
+ * rerun all failed test cases.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("test_run_jobs")
+    .addColumn("kind", "varchar(50)", (col) => col.notNull().defaultTo("RUN"))
+    .execute();
+
+  await db.schema
+    .alterTable("test_run_jobs")
+    .addColumn("test_keys", "jsonb")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("test_run_jobs")
+    .dropColumn("test_keys")
+    .dropColumn("kind")
+    .execute();
+}
@@ -0,0 +1,37 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * Creates the append-only test_result_attempts table. Every result saved for a test case
+ * is recorded here, also when it overwrites an earlier result in test_results, e.g. when a
+ * callback arrives twice or a test case is rerun. Existing results are copied as the first
+ * attempt of their test case.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("test_result_attempts")
+    .ifNotExists()
+    .addColumn("id", "uuid", (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("test_run_id", "uuid", (col) =>
+      col.notNull().references("test_runs.id").onDelete("cascade")
+    )
+    .addColumn("test_key", "varchar(255)", (col) => col.notNull())
+    .addColumn("timestamp", "timestamp", (col) => col.notNull())
+    .addColumn("result", "jsonb", (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex("test_result_attempts_test_run_id_test_key_idx")
+    .ifNotExists()
+    .on("test_result_attempts")
+    .columns(["test_run_id", "test_key", "timestamp"])
+    .execute();
+
+  await sql`
+    INSERT INTO test_result_attempts (test_run_id, test_key, timestamp, result)
+    SELECT test_run_id, test_key, timestamp, result FROM test_results
+  `.execute(db);
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("test_result_attempts").ifExists().execute();
+}
@@ -0,0 +1,22 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * Creates the test_run_certificates table, holding the signed conformance certificate of
+ * every passing test run. The certificate is removed when a rerun makes the test run fail.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("test_run_certificates")
+    .ifNotExists()
+    .addColumn("test_run_id", "uuid", (col) =>
+      col.primaryKey().references("test_runs.id").onDelete("cascade")
+    )
+    .addColumn("certificate", "text", (col) => col.notNull())
+    .addColumn("result_digest", "varchar(80)", (col) => col.notNull())
+    .addColumn("issued_at", "timestamp", (col) => col.notNull().defaultTo(sql`now()`))
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("test_run_certificates").ifExists().execute();
+}
@@ -0,0 +1,30 @@
+import { Kysely } from 'kysely';
+
+/**
+ * Adds the callback deadline of a test run: the callback test cases which are still PENDING
+ * after the deadline are failed by the CallbackSweeper. The timeout in minutes is kept for
+ * the error message of the failed test cases.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("test_runs")
+    .addColumn("callback_timeout", "integer")
+    .addColumn("callback_deadline", "timestamp")
+    .execute();
+
+  await db.schema
+    .createIndex("test_runs_callback_deadline_idx")
+    .ifNotExists()
+    .on("test_runs")
+    .column("callback_deadline")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex("test_runs_callback_deadline_idx").ifExists().execute();
+  await db.schema
+    .alterTable("test_runs")
+    .dropColumn("callback_deadline")
+    .dropColumn("callback_timeout")
+    .execute();
+}
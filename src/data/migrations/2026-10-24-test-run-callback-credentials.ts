@@ -0,0 +1,20 @@
+import { Kysely } from 'kysely';
+
+/**
+ * Adds the hash of the secret of the callback credentials generated for every test run.
+ * The client ID of the credentials is the ID of the test run, the secret itself is never
+ * stored. Test runs created before have no credentials and can no longer receive callbacks.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("test_runs")
+    .addColumn("callback_secret_hash", "varchar(100)")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("test_runs")
+    .dropColumn("callback_secret_hash")
+    .execute();
+}
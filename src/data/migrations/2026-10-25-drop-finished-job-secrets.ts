@@ -0,0 +1,17 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * Removes the client secret of the tested API from the parameters of finished jobs in
+ * test_run_jobs, it is only kept while a job is queued or running from now on.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await sql`
+    update test_run_jobs
+    set params = params - 'clientSecret'
+    where status in ('COMPLETED', 'FAILED')
+  `.execute(db);
+}
+
+export async function down(): Promise<void> {
+  // The removed secrets can not be restored
+}
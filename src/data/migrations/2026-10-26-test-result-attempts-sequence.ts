@@ -0,0 +1,19 @@
+import { Kysely } from 'kysely';
+
+/**
+ * Adds a sequence number to test_result_attempts, which orders the attempts of a test case
+ * that were saved with the same timestamp.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("test_result_attempts")
+    .addColumn("seq", "serial", (col) => col.notNull())
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("test_result_attempts")
+    .dropColumn("seq")
+    .execute();
+}
@@ -11,6 +11,11 @@ export interface TestRunsTable {
   status: string | null;
   passingPercentage: number | null;
   data: unknown; // jsonb, nullable, flexible field to store additional data like productIds
+  // Minutes to wait for callbacks, and the time after which pending callback test cases fail
+  callbackTimeout: ColumnType<number | null, number | null | undefined, number | null>;
+  callbackDeadline: ColumnType<Date | null, Date | string | null | undefined, Date | string | null>;
+  // Hash of the secret of the callback credentials, the client ID is the test run ID
+  callbackSecretHash: ColumnType<string | null, string | null | undefined, string | null>;
 }
 
 export interface TestResultsTable {
@@ -21,9 +26,47 @@ export interface TestResultsTable {
   result: unknown; // jsonb
 }
 
+// Append-only history of every result saved for a test case
+export interface TestResultAttemptsTable {
+  id: ColumnType<string, string | undefined, never>;
+  // Order in which the attempts were saved, for attempts with the same timestamp
+  seq: ColumnType<number, never, never>;
+  testRunId: string;
+  testKey: string;
+  timestamp: ColumnType<Date, Date | string, never>;
+  result: unknown; // jsonb
+}
+
+export interface TestRunJobsTable {
+  id: ColumnType<string, string | undefined, never>;
+  testRunId: string;
+  status: string;
+  kind: ColumnType<string, string | undefined, never>;
+  // TestRunStartParams the run was queued with, stored as jsonb
+  params: unknown;
+  // Test keys to rerun, stored as jsonb, null to rerun all failed test cases
+  testKeys: ColumnType<string[] | null, string | null | undefined, never>;
+  attempts: ColumnType<number, number | undefined, number>;
+  error: string | null;
+  createdAt: ColumnType<Date, Date | string | undefined, never>;
+  lockedAt: ColumnType<Date | null, Date | string | null, Date | string | null>;
+  completedAt: ColumnType<Date | null, Date | string | null, Date | string | null>;
+}
+
+// Signed conformance certificate of a passing test run
+export interface TestRunCertificatesTable {
+  testRunId: string;
+  certificate: string;
+  resultDigest: string;
+  issuedAt: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
 export interface DB {
   testRuns: TestRunsTable; 
   testResults: TestResultsTable; 
+  testResultAttempts: TestResultAttemptsTable;
+  testRunJobs: TestRunJobsTable;
+  testRunCertificates: TestRunCertificatesTable;
   migrations: {
     name: string;
     runAt: Date; 
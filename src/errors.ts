@@ -75,3 +75,32 @@ export class ServiceUnavailableError extends ApiError {
   }
 }
 
+
+/**
+ * Error of an OAuth 2.0 token request, responded with the error body of RFC 6749, section 5.2.
+ * @param error - OAuth error code, e.g. invalid_client or unsupported_grant_type.
+ */
+export class OAuthError extends ApiError {
+  readonly error: string;
+
+  constructor(status: number, error: string, message: string) {
+    super(status, message);
+    this.error = error;
+  }
+}
+
+/**
+ * Error response of the tested API, e.g. of the token endpoint or of ListFootprints.
+ * Not an ApiError, the status is the one of the tested API and not of this service.
+ * @param status - HTTP status the tested API responded with.
+ */
+export class HttpResponseError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+    this.name = new.target.name;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
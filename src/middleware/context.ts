@@ -22,17 +22,22 @@ export type Handler = (req: ContextRequest, res: Response) => Promise<any>;
 /**
  * Middleware wrapper that injects application services and user context into the request object,
  * then executes the provided handler function. If the handler returns a result and the response
- * headers have not been sent, the result is sent as a JSON response. Errors are logged and passed
+ * headers have not been sent, the result is sent as a JSON response. The response status defaults
+ * to 200, a handler can set a different one using res.status(). Errors are logged and passed
  * to the next middleware.
  */
 export const context = (handler: Handler) => async (req: Request, res: Response, next: NextFunction) => {
   try {
     (req as ContextRequest).services = req.app.locals.services;
     const result = await handler(req as ContextRequest, res);
+    if (res.headersSent) {
+      // The handler has taken care of the response itself, e.g. a stream.
+      return;
+    }
     if (result) {
-      res.status(200).json(result);
+      res.json(result);
     } else {
-      res.status(200).send();
+      res.send();
     }
   } catch (error) {
     logger.error(error);
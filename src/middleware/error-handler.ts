@@ -1,11 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiError } from '../errors';
+import { ApiError, OAuthError } from '../errors';
 
 export function errorHandler(err: any, _req: Request, res: Response, _next: NextFunction) {
   if (res.headersSent) {
     return _next(err);
   }
 
+  // Token requests expect the error body of RFC 6749, section 5.2
+  if (err instanceof OAuthError) {
+    if (err.status === 401) {
+      res.set('WWW-Authenticate', 'Basic realm="callbacks"');
+    }
+    return res.status(err.status).json({ error: err.error, error_description: err.message });
+  }
+
   // Handle API custom errors defined in common/errors.ts.
   if (err instanceof ApiError) {  
     // Exclude the status property from the error response body to avoid redundancy, 
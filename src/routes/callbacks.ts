@@ -0,0 +1,34 @@
+import express, { Router } from "express";
+import { context } from "../middleware/context";
+
+/**
+ * Routes called by the tested APIs: obtaining a token and sending the callback events of
+ * asynchronous PCF requests. Used by the server and by the embedded listener of the CLI,
+ * both only need the eventHandler service.
+ */
+export const callbackRouter = Router();
+
+// OpenID configuration pointing the tested APIs to the token endpoint
+callbackRouter.get("/.well-known/openid-configuration", context(async (req) => {
+  return req.services.eventHandler.getOpenIdConfiguration();
+}));
+
+// Authentication endpoint for callbacks, token requests are form encoded (RFC 6749)
+callbackRouter.post("/auth/token", express.urlencoded({ extended: false }), context(async (req, res) => {
+  const authRequest = req.services.eventHandler.parseTokenRequest(req.headers.authorization, req.body);
+  const token = await req.services.eventHandler.authenticate(authRequest);
+  res.set("Cache-Control", "no-store");
+  return token;
+}));
+
+// Callback event listener for v2 events, requires a token of /auth/token
+callbackRouter.post("/2/events", context(async (req) => {
+  await req.services.eventHandler.processEvent(req.body, req.url, req.headers.authorization, req.headers["content-type"]);
+  return undefined; // Return 200 OK with no body
+}));
+
+// Callback event listener for v3 events, requires a token of /auth/token
+callbackRouter.post("/3/events", context(async (req) => {
+  await req.services.eventHandler.processEvent(req.body, req.url, req.headers.authorization, req.headers["content-type"]);
+  return undefined; // Return 200 OK with no body
+}));
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+
+/**
+ * Generates an EC P-256 key pair for signing conformance certificates and prints it as
+ * lines for the .env file.
+ *
+ * Usage:
+ *   npm run --silent certificate:keys >> .env
+ */
+
+import { CertificateService } from "../services/certificate-service";
+
+const { privateKey, publicKey } = CertificateService.generateKeyPair();
+
+const escape = (pem: string) => pem.trim().replace(/\n/g, "\\n");
+
+console.log(`CERTIFICATE_PRIVATE_KEY="${escape(privateKey)}"`);
+console.log(`CERTIFICATE_PUBLIC_KEY="${escape(publicKey)}"`);
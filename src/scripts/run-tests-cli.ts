@@ -25,40 +25,140 @@
  *   --resource         OAuth resource
  *   --adminEmail       Admin email address
  *   --adminName        Admin name
+ *   --footprintId      ID of the footprint the test cases request and filter by
+ *   --revealSecrets    Show access tokens and secrets in the output instead of masking them
+ *   --junit            Write the results as JUnit XML report to the given file
+ *   --html             Write the results as HTML report to the given file
+ *   --output           Output format: text (default), json or ndjson
+ *   --store            Save the test run and its results to the given directory
+ *   --config           YAML or JSON file with the arguments, see docs/cli-examples.md
+ *   --profile          Profile of the --config file to use
+ *   --batch            Test every profile of the --config file (or those given by --profile)
+ *   --concurrency      Number of targets tested at the same time in batch mode (default: 2)
+ *   --listen           Receive the callbacks of the tested API on the given port
+ *   --publicUrl        URL of the --listen port as seen by the tested API (default: http://localhost:<port>)
+ *   --waitTimeout      Seconds to wait for callbacks with --listen (default: 60)
+ *
+ * Rerunning failed test cases of a test run stored in the database:
+ *   npx tsx src/scripts/run-tests-cli.ts --rerun <testRunId> --clientSecret mySecret [--testCases 13]
+ *
+ * The test run is loaded using DB_CONNECTION_STRING and rerun with the parameters it was
+ * started with. Connection arguments given on the command line take precedence, the client
+ * secret is not kept after a test run and must be given with --clientSecret.
+ *
+ * Checking the setup of the tested API without running the test cases:
+ *   npx tsx src/scripts/run-tests-cli.ts check --baseUrl https://api.example.com \
+ *     --clientId myClientId --clientSecret mySecret --version V3.0
+ *
+ * Inspecting test runs saved with --store:
+ *   npx tsx src/scripts/run-tests-cli.ts --store ./test-runs --list
+ *   npx tsx src/scripts/run-tests-cli.ts --store ./test-runs --show <testRunId>
+ *   npx tsx src/scripts/run-tests-cli.ts --store ./test-runs --diff <testRunId> <otherTestRunId>
  */
 
+import { writeFileSync } from "fs";
 import { TestRunWorker } from "../services/test-run-worker";
-import { ConsoleTestStorage } from "../services/console-test-storage";
-import { ApiVersion, TestRunStartParams } from "../services/types";
-import logger from "../utils/logger";
+import { ConsoleTestStorage, printTestResults } from "../services/console-test-storage";
+import { FileTestStorage } from "../services/file-test-storage";
+import { ProgressEmitter } from "../services/progress-emitter";
+import { TestRunRepository } from "../services/test-run-repository";
+import { TestRunQueue } from "../services/test-run-queue";
+import {
+  ApiVersion,
+  PreflightStep,
+  PreflightStepStatus,
+  TestCaseResultStatus,
+  TestResult,
+  TestRun,
+  TestRunData,
+  TestRunStartParams,
+  TestRunWithResults,
+  TestStorage,
+} from "../services/types";
+import { EventHandler } from "../services/event-handler";
+import { db, shutdownDB } from "../data";
+import logger, { redirectLogsToStderr } from "../utils/logger";
+import { redactValue, setRevealSecrets } from "../utils/redact";
+import { toJUnitXml } from "../utils/junitReport";
+import { toHtmlReport } from "../utils/htmlReport";
+import { diffTestRuns, TestRunDiff } from "../utils/diffTestRuns";
+import { loadCliProfile, loadCliTargets, parseTestCaseList } from "../utils/cliConfig";
+import { allTargetsPassed, BatchTarget, BatchTargetResult, runBatch, toBatchMatrix } from "../utils/batchRun";
+import { startCallbackListener, waitForCallbacks } from "../utils/callbackListener";
 
-/**
- * Parses a comma-separated list of test case numbers and ranges (e.g. "1-2,9" -> [1, 2, 9]).
- */
-function parseTestCaseList(raw: string): number[] {
-  const result: number[] = [];
-  for (const part of raw.split(",").map((s) => s.trim()).filter(Boolean)) {
-    const dash = part.indexOf("-");
-    if (dash >= 0) {
-      const lo = parseInt(part.slice(0, dash).trim(), 10);
-      const hi = parseInt(part.slice(dash + 1).trim(), 10);
-      if (!Number.isNaN(lo) && !Number.isNaN(hi) && lo <= hi) {
-        for (let n = lo; n <= hi; n++) result.push(n);
-      }
-    } else {
-      const n = parseInt(part, 10);
-      if (!Number.isNaN(n)) result.push(n);
-    }
-  }
-  return [...new Set(result)].sort((a, b) => a - b);
+type OutputFormat = "text" | "json" | "ndjson";
+
+const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "ndjson"];
+
+// Commands for inspecting the test runs saved with --store
+type StoreCommand =
+  | { name: "list" }
+  | { name: "show"; testRunId: string }
+  | { name: "diff"; testRunId: string; otherTestRunId: string };
+
+interface CliArgs {
+  params: TestRunStartParams;
+  // Set when rerunning test cases of an existing test run
+  rerunTestRunId?: string;
+  // File to write the JUnit XML report to
+  junitFile?: string;
+  // File to write the HTML report to
+  htmlFile?: string;
+  output: OutputFormat;
+  // Directory to save test runs to, and to read them from for the store commands
+  storeDir?: string;
+  command?: StoreCommand;
+  // Set in batch mode, the targets to test instead of params
+  targets?: BatchTarget[];
+  // Number of targets tested at the same time in batch mode
+  concurrency: number;
+  // Set to receive the callbacks of the tested API with an embedded listener
+  listen?: ListenOptions;
+  // Set to only check the setup of the tested API, see the check command
+  check?: boolean;
 }
 
-function parseArgs(): TestRunStartParams {
-  const args = process.argv.slice(2);
-  const params: Partial<TestRunStartParams> = {
-    adminEmail: "cli@example.com",
-    adminName: "CLI User",
-  };
+interface ListenOptions {
+  port: number;
+  // Base URL the tested API sends its callbacks to, if the port is not reachable as localhost
+  publicUrl?: string;
+  // Milliseconds to wait for the callbacks after the test cases were executed
+  waitTimeout: number;
+}
+
+const REQUIRED_ARGUMENTS: (keyof TestRunStartParams)[] = ["baseUrl", "clientId", "clientSecret", "version", "organizationName"];
+
+// The check command does not create a test run, which needs the organization name
+const CHECK_REQUIRED_ARGUMENTS: (keyof TestRunStartParams)[] = ["baseUrl", "clientId", "clientSecret", "version"];
+
+const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60;
+
+const withDefaults = (params: Partial<TestRunStartParams>) => ({
+  adminEmail: "cli@example.com",
+  adminName: "CLI User",
+  ...params,
+} as TestRunStartParams);
+
+function parseArgs(): CliArgs {
+  const check = process.argv[2] === "check";
+  const args = process.argv.slice(check ? 3 : 2);
+  const params: Partial<TestRunStartParams> = {};
+  let rerunTestRunId: string | undefined;
+  let revealSecrets = false;
+  let junitFile: string | undefined;
+  let htmlFile: string | undefined;
+  let output: OutputFormat = "text";
+  let storeDir: string | undefined;
+  let command: StoreCommand | undefined;
+  let configFile: string | undefined;
+  let profileName: string | undefined;
+  let batch = false;
+  let concurrency = DEFAULT_BATCH_CONCURRENCY;
+  let listenPort: number | undefined;
+  let publicUrl: string | undefined;
+  let waitTimeoutSeconds = DEFAULT_WAIT_TIMEOUT_SECONDS;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -109,12 +209,93 @@ function parseArgs(): TestRunStartParams {
         params.adminName = value;
         i++;
         break;
+      case "--footprintId":
+        params.footprintId = value;
+        i++;
+        break;
       case "--testCases": {
         const raw = value ?? "";
         params.testCaseNumbers = parseTestCaseList(raw);
         i++;
         break;
       }
+      case "--rerun":
+        rerunTestRunId = value;
+        i++;
+        break;
+      case "--revealSecrets":
+        revealSecrets = true;
+        break;
+      case "--junit":
+        junitFile = value;
+        i++;
+        break;
+      case "--html":
+        htmlFile = value;
+        i++;
+        break;
+      case "--config":
+        configFile = value;
+        i++;
+        break;
+      case "--profile":
+        profileName = value;
+        i++;
+        break;
+      case "--batch":
+        batch = true;
+        break;
+      case "--concurrency":
+        concurrency = parseInt(value, 10);
+        if (!(concurrency > 0)) {
+          logger.error(`Invalid concurrency: ${value}, expected a positive number`);
+          process.exit(1);
+        }
+        i++;
+        break;
+      case "--listen":
+        listenPort = parseInt(value, 10);
+        if (!(listenPort >= 0 && listenPort <= 65535)) {
+          logger.error(`Invalid port: ${value}, expected a number between 0 and 65535`);
+          process.exit(1);
+        }
+        i++;
+        break;
+      case "--publicUrl":
+        publicUrl = value;
+        i++;
+        break;
+      case "--waitTimeout":
+        waitTimeoutSeconds = Number(value);
+        if (!(waitTimeoutSeconds >= 0)) {
+          logger.error(`Invalid wait timeout: ${value}, expected a number of seconds`);
+          process.exit(1);
+        }
+        i++;
+        break;
+      case "--output":
+        if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+          logger.error(`Invalid output format: ${value}, expected one of ${OUTPUT_FORMATS.join(", ")}`);
+          process.exit(1);
+        }
+        output = value as OutputFormat;
+        i++;
+        break;
+      case "--store":
+        storeDir = value;
+        i++;
+        break;
+      case "--list":
+        command = { name: "list" };
+        break;
+      case "--show":
+        command = { name: "show", testRunId: value };
+        i++;
+        break;
+      case "--diff":
+        command = { name: "diff", testRunId: value, otherTestRunId: args[i + 2] };
+        i += 2;
+        break;
       case "--help":
       case "-h":
         printHelp();
@@ -128,9 +309,99 @@ function parseArgs(): TestRunStartParams {
     }
   }
 
+  // Arguments given on the command line take precedence over the profile
+  if (configFile && !batch) {
+    try {
+      Object.assign(params, { ...loadCliProfile(configFile, profileName), ...params });
+    } catch (error: any) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+  } else if (profileName) {
+    logger.error("--profile requires --config <file> with the profiles");
+    process.exit(1);
+  }
+
+  if (revealSecrets) {
+    // Results of a rerun are stored in the database, where credentials must always be masked
+    if (rerunTestRunId || storeDir) {
+      logger.error("--revealSecrets cannot be combined with --rerun or --store");
+      process.exit(1);
+    }
+    setRevealSecrets(true);
+  }
+
+  if (publicUrl && listenPort === undefined) {
+    logger.error("--publicUrl requires --listen <port>");
+    process.exit(1);
+  }
+  const listen = listenPort === undefined
+    ? undefined
+    : { port: listenPort, publicUrl: publicUrl?.replace(/\/+$/, ""), waitTimeout: waitTimeoutSeconds * 1000 };
+
+  if (check) {
+    const unsupported = Object.entries({
+      "--batch": batch,
+      "--rerun": rerunTestRunId,
+      "--store": storeDir,
+      "--listen": listen,
+      "--junit": junitFile,
+      "--html": htmlFile,
+      [`--${command?.name}`]: command,
+    }).filter(([, value]) => value).map(([name]) => name);
+    if (unsupported.length > 0) {
+      logger.error(`check cannot be combined with ${unsupported.join(", ")}`);
+      process.exit(1);
+    }
+    const missing = CHECK_REQUIRED_ARGUMENTS.filter((key) => !params[key]);
+    if (missing.length > 0) {
+      logger.error(`Missing required arguments: ${missing.join(", ")}`);
+      printHelp();
+      process.exit(1);
+    }
+    return { params: withDefaults(params), output, concurrency, check };
+  }
+
+  if (batch) {
+    const targets = loadBatchTargets(params, configFile, profileName, {
+      "--rerun": rerunTestRunId,
+      [`--${command?.name}`]: command,
+      "--junit": junitFile,
+      "--html": htmlFile,
+    });
+    return { params: params as TestRunStartParams, output, storeDir, concurrency, targets, listen };
+  }
+
+  // Callbacks of a rerun are sent to the conformance service the test run was started with
+  if (listen && (command || rerunTestRunId)) {
+    logger.error(`--listen cannot be combined with ${command ? `--${command.name}` : "--rerun"}`);
+    process.exit(1);
+  }
+
+  if (command) {
+    if (!storeDir) {
+      logger.error(`--${command.name} requires --store <dir> with the saved test runs`);
+      process.exit(1);
+    }
+    if ((command.name === "show" && !command.testRunId) ||
+      (command.name === "diff" && (!command.testRunId || !command.otherTestRunId))) {
+      logger.error(`Missing test run ID for --${command.name}`);
+      process.exit(1);
+    }
+    return { params: params as TestRunStartParams, output, storeDir, command, concurrency };
+  }
+
+  // The parameters of a rerun are loaded from the database
+  if (rerunTestRunId) {
+    if (storeDir) {
+      logger.error("--store cannot be combined with --rerun, reruns are saved in the database");
+      process.exit(1);
+    }
+    return { params: params as TestRunStartParams, rerunTestRunId, junitFile, htmlFile, output, concurrency };
+  }
+
   // Validate required parameters
-  const required = ["baseUrl", "clientId", "clientSecret", "version", "organizationName"];
-  const missing = required.filter((key) => !params[key as keyof TestRunStartParams]);
+  const missing = REQUIRED_ARGUMENTS.filter((key) => !params[key]);
 
   if (missing.length > 0) {
     logger.error(`Missing required arguments: ${missing.join(", ")}`);
@@ -138,7 +409,95 @@ function parseArgs(): TestRunStartParams {
     process.exit(1);
   }
 
-  return params as TestRunStartParams;
+  return {
+    params: withDefaults(params),
+    junitFile,
+    htmlFile,
+    output,
+    storeDir,
+    concurrency,
+    listen,
+  };
+}
+
+/**
+ * Loads the targets of batch mode from the profiles of the configuration file, all of them
+ * or the ones selected with --profile. Arguments given on the command line apply to all
+ * targets and take precedence over the profiles.
+ */
+function loadBatchTargets(
+  params: Partial<TestRunStartParams>,
+  configFile: string | undefined,
+  profileNames: string | undefined,
+  unsupported: Record<string, unknown>
+): BatchTarget[] {
+  if (!configFile) {
+    logger.error("--batch requires --config <file> with a profile for every target");
+    process.exit(1);
+  }
+  const conflicting = Object.entries(unsupported).filter(([, value]) => value).map(([name]) => name);
+  if (conflicting.length > 0) {
+    logger.error(`--batch cannot be combined with ${conflicting.join(", ")}`);
+    process.exit(1);
+  }
+
+  try {
+    const targets = loadCliTargets(configFile, profileNames?.split(",").map((name) => name.trim()).filter(Boolean))
+      .map(({ name, params: profile }) => ({ name, params: withDefaults({ ...profile, ...params }) }));
+    for (const target of targets) {
+      const missing = REQUIRED_ARGUMENTS.filter((key) => !target.params[key]);
+      if (missing.length > 0) {
+        throw new Error(`Missing required arguments for target ${target.name}: ${missing.join(", ")}`);
+      }
+    }
+    return targets;
+  } catch (error: any) {
+    logger.error(error.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Reruns the failed test cases of a test run stored in the database, or the test cases
+ * selected with --testCases, using the parameters the test run was started with.
+ */
+async function rerunTestRun(
+  testRunId: string,
+  overrides: TestRunStartParams,
+  progress: ProgressEmitter
+): Promise<TestRunWithResults> {
+  const repository = new TestRunRepository(db);
+  const worker = new TestRunWorker(repository, progress);
+  const queue = new TestRunQueue(db, repository, worker);
+
+  try {
+    const { testCaseNumbers, ...connectionArgs } = overrides;
+    const params = { ...(await queue.getTestRunParams(testRunId)), ...connectionArgs };
+    if (!params.clientSecret) {
+      throw new Error(`The client secret of the tested API is not kept after a test run, pass --clientSecret to rerun test run ${testRunId}`);
+    }
+
+    // Map test case numbers to the test keys of the existing results (e.g. 14 -> TESTCASE#14.A, TESTCASE#14.B)
+    let testKeys: string[] | undefined;
+    if (testCaseNumbers?.length) {
+      const { results } = await repository.getTestRunWithResults(testRunId);
+      testKeys = results
+        .map((r) => r.testKey)
+        .filter((key) => {
+          const match = key.match(/^TESTCASE#(\d+)/);
+          return match !== null && testCaseNumbers.includes(parseInt(match[1], 10));
+        });
+      // Without test keys all failed test cases would be rerun instead
+      if (testKeys.length === 0) {
+        throw new Error(`Test run ${testRunId} has no results for the test cases ${testCaseNumbers.join(", ")}`);
+      }
+    }
+
+    logger.info(`Rerunning test run ${testRunId}...\n`);
+    return await worker.rerunTestRun(testRunId, params, testKeys);
+  } finally {
+    await shutdownDB();
+  }
 }
 
 function printHelp(): void {
@@ -147,6 +506,13 @@ PACT Conformance Test CLI
 
 Usage:
   npx tsx src/scripts/run-tests-cli.ts [options]
+  npx tsx src/scripts/run-tests-cli.ts check [options]
+
+Commands:
+  check                        Only check the setup of the tested API (OpenID discovery, access
+                               token, footprint listing and pagination) and show every step with
+                               a hint how to fix it, without running the test cases.
+                               --organizationName is not required. Exits with code 1 if a step failed.
 
 Required Options:
   --baseUrl <url>              Base URL of the API to test
@@ -162,7 +528,39 @@ Optional Options:
   --resource <resource>        OAuth resource
   --adminEmail <email>         Admin email address (default: cli@example.com)
   --adminName <name>           Admin name (default: CLI User)
+  --footprintId <id>           Footprint the test cases request and filter by (default: the listed
+                               footprint with the most filterable attributes)
   --testCases <list>           Comma-separated numbers and ranges (e.g. 1-2,9). Omit to run all.
+  --revealSecrets              Show access tokens and secrets in curl commands and logs
+                               (masked by default)
+  --junit <file>               Write the results as JUnit XML report to the file, e.g. for CI
+  --html <file>                Write the results as self-contained HTML report to the file
+  --rerun <testRunId>          Rerun the failed test cases (or --testCases) of a test run stored
+                               in the database (DB_CONNECTION_STRING), with its original parameters
+                               and --clientSecret, which is not kept after a test run
+  --output <format>            Output format: text (default), json (the test run with its results
+                               when finished) or ndjson (a line for every progress event).
+                               Logs are written to stderr for json and ndjson.
+  --store <dir>                Save the test run and its results as JSON file in the directory
+  --list                       List the test runs saved in the --store directory
+  --show <testRunId>           Show a test run saved in the --store directory
+  --diff <testRunId> <otherTestRunId>
+                               Compare the results of two test runs saved in the --store directory
+  --config <file>              Read the arguments from a YAML or JSON file. Use \${ENV_VAR} in
+                               the file for secrets, instead of passing --clientSecret.
+  --profile <name>             Profile of the --config file to use. Command-line arguments
+                               take precedence over the profile.
+  --batch                      Test every profile of the --config file as a separate target, or
+                               the comma-separated profiles given by --profile, and show the
+                               status of every test case by target. Exits with code 1 if any
+                               target did not pass.
+  --concurrency <n>            Number of targets tested at the same time with --batch (default: 2)
+  --listen <port>              Receive the callbacks of the tested API (/auth/token, /2/events
+                               and /3/events) on the port, and wait for them before exiting.
+                               Without it, callback test cases stay PENDING.
+  --publicUrl <url>            URL of the --listen port as reachable by the tested API, e.g. of
+                               a tunnel (default: http://localhost:<port>)
+  --waitTimeout <seconds>      Seconds to wait for the callbacks with --listen (default: 60)
   --help, -h                   Show this help message
 
 Examples:
@@ -192,27 +590,355 @@ Examples:
     --version V3.0 \\
     --organizationName "My Company" \\
     --testCases 1-2,9
+
+  # Check the setup of the tested API before running the tests
+  npx tsx src/scripts/run-tests-cli.ts check \\
+    --baseUrl https://api.example.com \\
+    --clientId myClientId \\
+    --clientSecret mySecret \\
+    --version V3.0
+
+  # Run the tests of the staging profile, with the client secret read from an environment variable
+  PACT_STAGING_SECRET=mySecret npx tsx src/scripts/run-tests-cli.ts --config pact.yaml --profile staging
+
+  # Test all tenants of the configuration file, 4 at a time
+  npx tsx src/scripts/run-tests-cli.ts --config tenants.yaml --batch --concurrency 4
+
+  # Receive callbacks through a tunnel to port 8080, waiting up to 2 minutes for them
+  npx tsx src/scripts/run-tests-cli.ts --config pact.yaml --profile staging \\
+    --listen 8080 --publicUrl https://my-tunnel.example.com --waitTimeout 120
+
+  # Rerun the failed test cases of a stored test run
+  npx tsx src/scripts/run-tests-cli.ts --rerun 0b4c7d1e-5f1a-4c39-9a8e-2f6d3e1b7c90 --clientSecret mySecret
+
+  # Save the test run, then compare it with a previous one
+  npx tsx src/scripts/run-tests-cli.ts [options] --store ./test-runs --output json > result.json
+  npx tsx src/scripts/run-tests-cli.ts --store ./test-runs --list
+  npx tsx src/scripts/run-tests-cli.ts --store ./test-runs --diff <testRunId> <otherTestRunId>
   `);
 }
 
+// Machine-readable output is written to stdout, with credentials masked like in the logs
+function writeJson(value: unknown, format: OutputFormat): void {
+  const json = format === "ndjson"
+    ? JSON.stringify(redactValue(value))
+    : JSON.stringify(redactValue(value), null, 2);
+  process.stdout.write(json + "\n");
+}
+
+// Exits once everything written to stdout is flushed. Calling process.exit() right after
+// process.stdout.write() can truncate the output when stdout is a pipe.
+function exitAfterOutput(code: number): void {
+  process.exitCode = code;
+  process.stdout.write("", () => process.exit(code));
+}
+
+function printTestRun(testRun: TestRun): void {
+  logger.info(
+    `${testRun.testRunId}  ${new Date(testRun.timestamp).toISOString()}  ${String(testRun.status).padEnd(7)} ` +
+    `${String(testRun.passingPercentage ?? 0).padStart(3)}%  ${testRun.techSpecVersion}  ${testRun.organizationName}`
+  );
+}
+
+// Setup steps which did not pass (or all of them), with the hint how to fix them
+function printPreflight(steps: PreflightStep[] = [], all = false): void {
+  const issues = all ? steps : steps.filter((step) => step.status !== PreflightStepStatus.PASS);
+  if (issues.length === 0) {
+    return;
+  }
+  logger.info("\n" + "=".repeat(80));
+  logger.info("SETUP CHECKS");
+  logger.info("=".repeat(80));
+  for (const step of issues) {
+    logger.info(`${step.status.padEnd(7)} ${step.name}: ${step.message}`);
+    if (step.remediation) {
+      logger.info(`        ${step.remediation}`);
+    }
+  }
+}
+
+function printDiff(diff: TestRunDiff): void {
+  logger.info(`${diff.before.testRunId}: ${diff.before.status} (${diff.before.passingPercentage ?? 0}%)`);
+  logger.info(`${diff.after.testRunId}: ${diff.after.status} (${diff.after.passingPercentage ?? 0}%)`);
+  logger.info("-".repeat(80));
+  for (const change of diff.changes) {
+    const mandatory = change.mandatory ? "" : " (optional)";
+    logger.info(`${change.name}${mandatory}: ${change.before ?? "not run"} -> ${change.after ?? "not run"}`);
+  }
+  logger.info("-".repeat(80));
+  logger.info(`${diff.changes.length} changed, ${diff.unchanged} unchanged`);
+}
+
+/**
+ * Checks the setup of the tested API without creating a test run.
+ * @returns Whether no step of the preflight failed.
+ */
+async function runCheck(params: TestRunStartParams, output: OutputFormat): Promise<boolean> {
+  const result = await new TestRunWorker(new ConsoleTestStorage()).preflight(params);
+  if (output === "text") {
+    printPreflight(result.steps, true);
+    logger.info("=".repeat(80));
+    logger.info(result.passed ? "Setup check passed" : "Setup check failed");
+  } else if (output === "ndjson") {
+    result.steps.forEach((step) => writeJson(step, output));
+  } else {
+    writeJson(result, output);
+  }
+  return result.passed;
+}
+
+/**
+ * Lists, shows or compares the test runs saved with --store.
+ */
+async function runStoreCommand(storage: TestStorage, command: StoreCommand, output: OutputFormat): Promise<void> {
+  switch (command.name) {
+    case "list": {
+      const testRuns = await storage.listTestRuns({});
+      if (output === "text") {
+        testRuns.forEach(printTestRun);
+      } else if (output === "ndjson") {
+        testRuns.forEach((testRun) => writeJson(testRun, output));
+      } else {
+        writeJson(testRuns, output);
+      }
+      break;
+    }
+    case "show": {
+      const testRun = await storage.getTestRunWithResults(command.testRunId);
+      if (output === "text") {
+        printTestRun(testRun);
+        printPreflight((testRun.data as TestRunData | null)?.preflight);
+        printTestResults(testRun.results);
+      } else if (output === "ndjson") {
+        testRun.results.forEach((result) => writeJson(result, output));
+      } else {
+        writeJson(testRun, output);
+      }
+      break;
+    }
+    case "diff": {
+      const diff = diffTestRuns(
+        await storage.getTestRunWithResults(command.testRunId),
+        await storage.getTestRunWithResults(command.otherTestRunId)
+      );
+      if (output === "text") {
+        printDiff(diff);
+      } else if (output === "ndjson") {
+        diff.changes.forEach((change) => writeJson(change, output));
+      } else {
+        writeJson(diff, output);
+      }
+      break;
+    }
+  }
+}
+
+const STATUS_SYMBOLS: Record<string, string> = {
+  SUCCESS: "✓",
+  FAILURE: "✗",
+  PENDING: "⧗",
+  SKIPPED: "○",
+};
+
+function summarizeTarget({ target, testRun, error }: BatchTargetResult) {
+  return {
+    target,
+    testRunId: testRun?.testRunId,
+    status: testRun?.status ?? "ERROR",
+    passingPercentage: testRun?.passingPercentage,
+    error,
+  };
+}
+
+function printBatchMatrix(results: BatchTargetResult[]): void {
+  const rows = toBatchMatrix(results);
+  const firstWidth = Math.max("Test case".length, ...rows.map((row) => row.testKey.length + 2)) + 2;
+  const widths = results.map(({ target }) => Math.max(target.length, 6) + 2);
+  const line = (first: string, cells: string[]) =>
+    first.padEnd(firstWidth) + cells.map((cell, i) => cell.padEnd(widths[i])).join("");
+
+  logger.info("\n" + "=".repeat(80));
+  logger.info("BATCH RESULTS (* = mandatory)");
+  logger.info("=".repeat(80));
+  logger.info(line("Test case", results.map(({ target }) => target)));
+  for (const row of rows) {
+    const cells = results.map(({ target }) => {
+      const status = row.statuses[target];
+      return status ? STATUS_SYMBOLS[status] ?? status : "-";
+    });
+    logger.info(line(`${row.testKey}${row.mandatory ? " *" : ""}`, cells));
+  }
+  logger.info("-".repeat(80));
+  logger.info(line("Status", results.map((result) => summarizeTarget(result).status)));
+  logger.info(line("Passing", results.map(({ testRun }) => testRun ? `${testRun.passingPercentage ?? 0}%` : "-")));
+  for (const { target, error } of results.filter((result) => result.error)) {
+    logger.info(`${target}: ${error}`);
+  }
+  logger.info("=".repeat(80));
+}
+
+/**
+ * Tests every target, with at most `concurrency` test runs at the same time.
+ * @returns Whether all targets passed.
+ */
+async function runBatchMode(
+  targets: BatchTarget[],
+  concurrency: number,
+  output: OutputFormat,
+  storeDir?: string,
+  listen?: ListenOptions
+): Promise<boolean> {
+  // A single storage, worker and listener can handle several test runs
+  const storage = storeDir ? new FileTestStorage(storeDir) : new ConsoleTestStorage();
+  const progress = new ProgressEmitter();
+  const listener = listen && await startCallbackListener(listen.port, (url) => new EventHandler(storage, progress, listen.publicUrl ?? url));
+  const worker = new TestRunWorker(storage, progress, listen?.publicUrl ?? listener?.url);
+
+  try {
+    logger.info(`Testing ${targets.length} targets, ${concurrency} at a time...\n`);
+    const results = await runBatch(
+      targets,
+      concurrency,
+      async (target) => {
+        const testRun = await worker.createTestRun(target.params);
+        if (listener) {
+          printCallbackCredentials(testRun, listen?.publicUrl ?? listener.url);
+        }
+        const result = await worker.executeTestRun(testRun, target.params);
+        return listen ? await waitForPendingCallbacks(storage, progress, result, listen.waitTimeout) : result;
+      },
+      (result) => {
+        if (output === "ndjson") {
+          writeJson({ ...summarizeTarget(result), results: result.testRun?.results }, output);
+        }
+        logger.info(`Finished target ${result.target}: ${summarizeTarget(result).status}`);
+      }
+    );
+
+    if (output === "text") {
+      printBatchMatrix(results);
+    } else if (output === "json") {
+      writeJson({ targets: results.map(summarizeTarget), matrix: toBatchMatrix(results) }, output);
+    }
+    return allTargetsPassed(results);
+  } finally {
+    await listener?.close();
+  }
+}
+
+/**
+ * Shows the credentials the tested API obtains a token for its callbacks with, the secret
+ * is generated for every test run.
+ */
+function printCallbackCredentials(testRun: TestRun, callbackUrl: string): void {
+  logger.info(`Callbacks of test run ${testRun.testRunId} are received on ${callbackUrl}`);
+  logger.info(`  Token URL: ${callbackUrl}/auth/token`);
+  logger.info(`  Client ID: ${testRun.callbackCredentials?.clientId}`);
+  logger.info(`  Client secret: ${testRun.callbackCredentials?.clientSecret}`);
+}
+
+/**
+ * Waits for the callbacks of the test cases which are still pending, which are received by
+ * the embedded listener. The status of the test run is updated with every callback.
+ */
+async function waitForPendingCallbacks(
+  storage: TestStorage,
+  progress: ProgressEmitter,
+  testRun: TestRunWithResults,
+  timeout: number
+): Promise<TestRunWithResults> {
+  const isPending = (result: TestResult) => result.status === TestCaseResultStatus.PENDING;
+  const pending = testRun.results.filter(isPending);
+  if (pending.length === 0) {
+    return testRun;
+  }
+
+  logger.info(`Waiting up to ${timeout / 1000}s for the callbacks of ${pending.length} test cases...`);
+  const result = await waitForCallbacks(storage, progress, testRun.testRunId, timeout);
+  const stillPending = result.results.filter(isPending);
+  if (stillPending.length > 0) {
+    logger.warn(`No callback received for: ${stillPending.map((r) => r.name).join(", ")}`);
+  }
+  return result;
+}
+
 async function main() {
+  const { params, rerunTestRunId, junitFile, htmlFile, output, storeDir, command, targets, concurrency, listen, check } = parseArgs();
+
+  // Keep stdout free for the machine-readable output
+  if (output !== "text") {
+    redirectLogsToStderr();
+  }
+
   try {
+    if (command) {
+      await runStoreCommand(new FileTestStorage(storeDir!), command, output);
+      return exitAfterOutput(0);
+    }
+
+    if (check) {
+      const passed = await runCheck(params, output);
+      return exitAfterOutput(passed ? 0 : 1);
+    }
+
     logger.info("PACT Conformance Test CLI");
     logger.info("=".repeat(80));
 
-    const params = parseArgs();
+    // Exit with code 1 if any target failed a mandatory test case
+    if (targets) {
+      const passed = await runBatchMode(targets, concurrency, output, storeDir, listen);
+      return exitAfterOutput(passed ? 0 : 1);
+    }
+
+    // Every progress event is written as a line of NDJSON while the test run executes
+    const progress = new ProgressEmitter();
+    const streamProgress = (testRunId: string) => {
+      if (output === "ndjson") {
+        progress.subscribe(testRunId, (event) => writeJson(event, output));
+      }
+    };
+
+    let result: TestRunWithResults;
+    if (rerunTestRunId) {
+      streamProgress(rerunTestRunId);
+      result = await rerunTestRun(rerunTestRunId, params, progress);
+    } else {
+      // Save to the given directory, or only show the results on the console (no database)
+      const storage = storeDir ? new FileTestStorage(storeDir) : new ConsoleTestStorage();
 
-    // Create console-based storage (no database)
-    const storage = new ConsoleTestStorage();
+      // Callbacks are sent to the embedded listener, which stores them in the same storage
+      const listener = listen && await startCallbackListener(listen.port, (url) => new EventHandler(storage, progress, listen.publicUrl ?? url));
 
-    // Create test run worker
-    const worker = new TestRunWorker(storage);
+      try {
+        // Create test run worker
+        const worker = new TestRunWorker(storage, progress, listen?.publicUrl ?? listener?.url);
 
-    // Start the test run
-    logger.info("Starting test run...\n");
-    const result = await worker.startTestRun(params);
+        // Start the test run
+        logger.info("Starting test run...\n");
+        const testRun = await worker.createTestRun(params);
+        if (listener) {
+          printCallbackCredentials(testRun, listen?.publicUrl ?? listener.url);
+        }
+        streamProgress(testRun.testRunId);
+        result = await worker.executeTestRun(testRun, params);
+
+        if (listen) {
+          result = await waitForPendingCallbacks(storage, progress, result, listen.waitTimeout);
+        }
+      } finally {
+        await listener?.close();
+      }
+
+      if (storeDir) {
+        if (output === "text") {
+          printTestResults(result.results);
+        }
+        logger.info(`Test run ${result.testRunId} saved to ${storeDir}`);
+      }
+    }
 
     // Display final results
+    printPreflight((result.data as TestRunData | null)?.preflight);
     logger.info("\n" + "=".repeat(80));
     logger.info("TEST RUN COMPLETE");
     if (params.testCaseNumbers?.length) {
@@ -222,17 +948,32 @@ async function main() {
     logger.info(`Status: ${result.status}`);
     logger.info(`Passing Percentage: ${result.passingPercentage}%`);
     logger.info(`Total Tests: ${result.results.length}`);
+    const footprint = (result.data as TestRunData | null)?.footprint;
+    if (footprint) {
+      logger.info(`Footprint: ${footprint.id} (${footprint.reason})`);
+    }
     logger.info("=".repeat(80));
 
-    // Exit with appropriate code
-    if (result.status === "PASS") {
-      process.exit(0);
-    } else {
-      process.exit(1);
+    if (output === "json") {
+      writeJson(result, output);
     }
+    if (junitFile) {
+      writeFileSync(junitFile, toJUnitXml(result));
+      logger.info(`JUnit report written to ${junitFile}`);
+    }
+    if (htmlFile) {
+      writeFileSync(htmlFile, toHtmlReport(result));
+      logger.info(`HTML report written to ${htmlFile}`);
+    }
+
+    // Exit with appropriate code
+    exitAfterOutput(result.status === "PASS" ? 0 : 1);
   } catch (error: any) {
     logger.error("Error running tests:", error);
-    process.exit(1);
+    if (output !== "text") {
+      writeJson({ error: error.message }, output);
+    }
+    exitAfterOutput(1);
   }
 }
 
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Verifies a conformance certificate offline, without access to the database or the API.
+ *
+ * Usage:
+ *   npm run certificate:verify -- --certificate certificate.jws --results testrun.json
+ *
+ * Arguments:
+ *   --certificate  The certificate, or a file containing it, or the JSON returned by
+ *                  GET /testruns/:id/certificate
+ *   --results      Optional file with the test run returned by GET /testruns/:id, or its
+ *                  results, to check against the result digest of the certificate
+ *   --publicKey    PEM file with the public key of the service (GET /certificates/public-key),
+ *                  defaults to CERTIFICATE_PUBLIC_KEY (or CERTIFICATE_PRIVATE_KEY) of the
+ *                  environment or .env file. No other configuration of the service is needed.
+ *
+ * Exits with code 0 if the certificate is valid, 1 otherwise.
+ */
+
+import dotenv from "dotenv";
+import { existsSync, readFileSync } from "fs";
+import { CertificateService } from "../services/certificate-service";
+import { TestResult } from "../services/types";
+
+function readArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Accepts the certificate itself, a file with the certificate, or the JSON of the certificate endpoint
+function readCertificate(value: string): string {
+  const content = existsSync(value) ? readFileSync(value, "utf8").trim() : value.trim();
+  return content.startsWith("{") ? JSON.parse(content).certificate : content;
+}
+
+function readResults(file: string): TestResult[] {
+  const content = JSON.parse(readFileSync(file, "utf8"));
+  return Array.isArray(content) ? content : content.results;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const certificate = readArg(args, "--certificate");
+  const resultsFile = readArg(args, "--results");
+  const publicKeyFile = readArg(args, "--publicKey");
+
+  if (!certificate || args.includes("--help")) {
+    console.log("Usage: npm run certificate:verify -- --certificate <jws|file> [--results <file>] [--publicKey <file>]");
+    process.exit(certificate ? 0 : 1);
+  }
+
+  // Only the keys are read from the environment, not the configuration of the service. A
+  // temporary key pair generated by the service can not verify any certificate.
+  dotenv.config();
+  const service = publicKeyFile
+    ? new CertificateService(undefined, readFileSync(publicKeyFile, "utf8"))
+    : CertificateService.fromKeys(process.env.CERTIFICATE_PRIVATE_KEY, process.env.CERTIFICATE_PUBLIC_KEY);
+  if (!service) {
+    console.error("No public key given, use --publicKey or set CERTIFICATE_PUBLIC_KEY");
+    process.exit(1);
+  }
+
+  const verification = service.verifyCertificate(
+    readCertificate(certificate),
+    resultsFile ? readResults(resultsFile) : undefined
+  );
+  console.log(JSON.stringify(verification, null, 2));
+
+  if (!verification.valid) {
+    console.error(`Certificate is NOT valid: ${verification.reason}`);
+    process.exit(1);
+  }
+  console.log(resultsFile
+    ? "Certificate is valid and matches the results."
+    : "Certificate is valid. Use --results to also check the results of the test run.");
+  process.exit(0);
+}
+
+main();
@@ -5,7 +5,17 @@ import { context } from "./middleware/context";
 import { errorHandler } from "./middleware/error-handler";
 import { db } from "./data";
 import { ServiceContainer } from "./services";
-import { PagingParameters, TestRunStartParams } from "./services/types";
+import {
+  PagingParameters,
+  TestRunProgressEvent,
+  TestRunProgressEventType,
+  TestRunStartParams,
+} from "./services/types";
+import { EventStream, openEventStream } from "./utils/sse";
+import { BadRequestError, ServiceUnavailableError } from "./errors";
+import { toJUnitXml } from "./utils/junitReport";
+import { toHtmlReport } from "./utils/htmlReport";
+import { callbackRouter } from "./routes/callbacks";
 
 
 // Create Express app
@@ -52,33 +62,147 @@ app.get("/testruns/:id", context(async (req) => {
   return await req.services.repository.getTestRunWithResults(req.params.id as string);
 }));
 
-// Start a new test run
-app.post("/testruns/", context(async (req) => {
-  return req.services.worker.startTestRun(req.body as TestRunStartParams);
+// Get the results of a test run as JUnit XML report, e.g. for CI test dashboards
+app.get("/testruns/:id/report.xml", context(async (req, res) => {
+  const testRun = await req.services.repository.getTestRunWithResults(req.params.id as string);
+  res.type("application/xml").send(toJUnitXml(testRun));
 }));
 
-// Authentication endpoint for callbacks
-app.post("/auth/token", context(async (req) => {
-  const authRequest = req.services.eventHandler.parseBasicAuth(req.headers.authorization);
-  return await req.services.eventHandler.authenticate(authRequest);
+// Get a test run as self-contained HTML report, to share as proof of conformance
+app.get("/testruns/:id/report.html", context(async (req, res) => {
+  const testRun = await req.services.repository.getTestRunWithResults(req.params.id as string);
+  res.type("html").send(toHtmlReport(testRun));
 }));
 
-// Callback event listener for v3 events
-app.post("/2/events", context(async (req) => {
-  await req.services.eventHandler.processEvent(req.body, req.url);
-  return undefined; // Return 200 OK with no body
+// Get the signed conformance certificate of a passing test run
+app.get("/testruns/:id/certificate", context(async (req) => {
+  return await req.services.repository.getCertificate(req.params.id as string);
 }));
 
-// Callback event listener for v3 events
-app.post("/3/events", context(async (req) => {
-   await req.services.eventHandler.processEvent(req.body, req.url);
-   return undefined; // Return 200 OK with no body  
+// Get the public key for verifying certificates offline
+app.get("/certificates/public-key", context(async (req, res) => {
+  if (!req.services.certificates) {
+    throw new ServiceUnavailableError("Certificates are not configured");
+  }
+  res.type("application/x-pem-file").send(req.services.certificates.getPublicKey());
 }));
 
+// Verify the signature of a certificate and, if "results" are given, that they match the
+// result digest of the certificate, e.g. the results of GET /testruns/:id
+app.post("/certificates/verify", context(async (req) => {
+  const { certificate, results } = req.body ?? {};
+  if (typeof certificate !== "string" || !certificate) {
+    throw new BadRequestError("certificate must be the certificate of a test run");
+  }
+  if (results !== undefined && !Array.isArray(results)) {
+    throw new BadRequestError("results must be an array of test case results");
+  }
+  if (!req.services.certificates) {
+    throw new ServiceUnavailableError("Certificates are not configured");
+  }
+  return req.services.certificates.verifyCertificate(certificate, results);
+}));
+
+// Get every result saved for a test case of a test run, including overwritten ones.
+// Test keys contain a "#", which must be URL encoded, e.g. /results/TESTCASE%2313/history
+app.get("/testruns/:id/results/:testKey/history", context(async (req) => {
+  const testRunId = req.params.id as string;
+  const testKey = req.params.testKey as string;
+  const attempts = await req.services.repository.getTestResultHistory(testRunId, testKey);
+  return {
+    testRunId,
+    testKey,
+    attempts,
+    count: attempts.length,
+  };
+}));
+
+// Stream the progress of a test run as Server-Sent Events. The current state of the test run
+// is sent first, followed by an event for every test case started or finished. The stream is
+// closed after the test run finished. Progress events are only delivered within the process
+// which executes the test run or receives its callbacks, see ProgressEmitter.
+app.get("/testruns/:id/stream", context(async (req, res) => {
+  const testRunId = req.params.id as string;
+  // Subscribe before loading the test run, so no event between the two is lost
+  const buffered: TestRunProgressEvent[] = [];
+  let stream: EventStream | undefined;
+  const forward = (event: TestRunProgressEvent) => {
+    stream?.send(event.type, event);
+    if (event.type === TestRunProgressEventType.TESTRUN_FINISHED) {
+      stream?.close();
+    }
+  };
+  const unsubscribe = req.services.progress.subscribe(testRunId, (event) =>
+    stream ? forward(event) : buffered.push(event)
+  );
+  let testRun;
+  try {
+    // Will throw NotFoundError if the test run does not exist
+    testRun = await req.services.repository.getTestRunWithResults(testRunId);
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+  stream = openEventStream(res, unsubscribe);
+  stream.send("testrun", testRun);
+  buffered.forEach(forward);
+  return undefined;
+}));
+
+// Start a new test run. The run is queued and executed in the background, 
+// poll GET /testruns/:id for its status and results. The secret of the callback
+// credentials is only returned here.
+app.post("/testruns/", context(async (req, res) => {
+  const testRun = await req.services.queue.enqueue(req.body as TestRunStartParams);
+  res.status(202);
+  return {
+    testRunId: testRun.testRunId,
+    status: testRun.status,
+    callbackCredentials: {
+      clientId: testRun.callbackCredentials?.clientId,
+      clientSecret: testRun.callbackCredentials?.clientSecret,
+    },
+  };
+}));
+
+// Check the setup of the tested API (authentication, footprints, pagination) with the
+// connection parameters of a test run, without starting a test run or saving anything
+app.post("/preflight", context(async (req) => {
+  return await req.services.worker.preflight((req.body ?? {}) as TestRunStartParams);
+}));
+
+// Rerun the failed test cases of a test run, or the test cases given in "testKeys".
+// The rerun is queued like a new test run, the previous results are kept in the run data.
+// The client secret of the tested API is not kept after a test run and must be given again.
+app.post("/testruns/:id/rerun", context(async (req, res) => {
+  const { testKeys, clientSecret } = req.body ?? {};
+  if (testKeys !== undefined && (!Array.isArray(testKeys) || testKeys.some((key) => typeof key !== "string"))) {
+    throw new BadRequestError("testKeys must be an array of test keys, e.g. [\"TESTCASE#13\"]");
+  }
+  if (clientSecret !== undefined && typeof clientSecret !== "string") {
+    throw new BadRequestError("clientSecret must be a string");
+  }
+  const testRun = await req.services.queue.enqueueRerun(req.params.id as string, testKeys, clientSecret);
+  res.status(202);
+  return {
+    testRunId: testRun.testRunId,
+    status: testRun.status,
+  };
+}));
+
+// Token and callback event endpoints for the tested APIs
+app.use(callbackRouter);
+
 // Error handling middleware (should be last)
 app.use(errorHandler);
 
 // Start server
 app.listen(port, () => {
   logger.info(`API Server is running on port ${port}`);
+  // Start executing queued test runs in the background
+  services.queue.start().catch((error) => {
+    logger.error("Failed to start test run queue:", error);
+  });
+  // Fail callback test cases which are still pending after their deadline
+  services.sweeper.start();
 });
@@ -0,0 +1,106 @@
+import { Kysely } from "kysely";
+import { CallbackSweeper } from "./callback-sweeper";
+import { ProgressEmitter } from "./progress-emitter";
+import { TestRunRepository } from "./test-run-repository";
+import { DB } from "../data/types";
+import {
+  TestCaseResultStatus,
+  TestResult,
+  TestRunProgressEventType,
+  TestRunStatus,
+} from "./types";
+
+// Mock dependencies
+jest.mock("../utils/logger", () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe("CallbackSweeper", () => {
+  let sweeper: CallbackSweeper;
+  let mockDb: any;
+  let storage: jest.Mocked<TestRunRepository>;
+
+  const testRun = {
+    testRunId: "test-run-123",
+    organizationName: "Test Org",
+    adminEmail: "admin@test.com",
+    adminName: "Admin User",
+    timestamp: "2024-01-01T00:00:00Z",
+    techSpecVersion: "V3.0",
+    status: TestRunStatus.PENDING,
+    data: null,
+    callbackTimeout: 15,
+    callbackDeadline: "2024-01-01T00:15:00.000Z",
+  };
+
+  const result = (testKey: string, status: TestCaseResultStatus): TestResult => ({
+    testKey,
+    name: `Test Case ${testKey}`,
+    status,
+    mandatory: true,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb = {
+      selectFrom: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue([{ id: "test-run-123" }]),
+    };
+    storage = {
+      getTestRun: jest.fn().mockResolvedValue({ ...testRun, status: TestRunStatus.FAIL, passingPercentage: 50 }),
+      failPendingResults: jest.fn(async (_testRunId: string, errorMessage: string) => [
+        { ...result("TESTCASE#13", TestCaseResultStatus.FAILURE), errorMessage },
+      ]),
+      updateTestRunStatus: jest.fn(),
+    } as any;
+    sweeper = new CallbackSweeper(mockDb as Kysely<DB>, storage);
+  });
+
+  describe("sweep", () => {
+    it("fails the pending test cases of overdue test runs and updates their status", async () => {
+      const failed = await sweeper.sweep();
+
+      expect(failed).toBe(1);
+      expect(mockDb.where).toHaveBeenCalledWith("callbackDeadline", "<", expect.any(Date));
+      expect(storage.failPendingResults).toHaveBeenCalledWith("test-run-123", "No callback received within 15 minutes");
+      expect(storage.updateTestRunStatus).toHaveBeenCalledWith("test-run-123");
+    });
+
+    it("does not update test runs whose callbacks were received in the meantime", async () => {
+      // The callback was saved after the overdue test runs were selected
+      storage.failPendingResults.mockResolvedValue([]);
+
+      expect(await sweeper.sweep()).toBe(0);
+      expect(storage.updateTestRunStatus).not.toHaveBeenCalled();
+    });
+
+    it("continues with the next test run when failing the callbacks of a test run fails", async () => {
+      mockDb.execute.mockResolvedValue([{ id: "test-run-1" }, { id: "test-run-123" }]);
+      storage.failPendingResults.mockRejectedValueOnce(new Error("Database error"));
+
+      expect(await sweeper.sweep()).toBe(1);
+      expect(storage.failPendingResults).toHaveBeenCalledTimes(2);
+      expect(storage.updateTestRunStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it("notifies subscribers of the failed test cases and the new status", async () => {
+      const progress = new ProgressEmitter();
+      sweeper = new CallbackSweeper(mockDb as Kysely<DB>, storage, progress);
+      const events: any[] = [];
+      progress.subscribe("test-run-123", (event) => events.push(event));
+
+      await sweeper.sweep();
+
+      expect(events.map((e) => e.type)).toEqual([
+        TestRunProgressEventType.TESTCASE_FINISHED,
+        TestRunProgressEventType.TESTRUN_UPDATED,
+      ]);
+      expect(events[1]).toEqual(expect.objectContaining({ status: TestRunStatus.FAIL, passingPercentage: 50 }));
+    });
+  });
+});
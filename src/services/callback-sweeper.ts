@@ -0,0 +1,135 @@
+import { Kysely, sql } from "kysely";
+import config from "../config";
+import logger from "../utils/logger";
+import { DB } from "../data/types";
+import { ProgressEmitter } from "./progress-emitter";
+import { TestRunRepository } from "./test-run-repository";
+import { TestCaseResultStatus, TestResult, TestRunProgressEventType } from "./types";
+
+/*
+ * Fails the callback test cases (Test Cases 13 and 14.B) which are still PENDING after the
+ * callback deadline of their test run, e.g. because the tested system never sent the
+ * RequestFulfilled or RequestRejected event. Without it, the test run would stay PENDING.
+ * The sweeper polls the database like the TestRunQueue, so it also catches the deadlines of
+ * test runs executed before a restart.
+ */
+export class CallbackSweeper {
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private db: Kysely<DB>,
+    private storage: TestRunRepository,
+    private progress?: ProgressEmitter
+  ) {}
+
+  /**
+   * Starts checking for overdue callbacks every CALLBACK_SWEEP_INTERVAL.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+    logger.info(`Callback sweeper started, checking every ${config.CALLBACK_SWEEP_INTERVAL}ms`);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fails the pending test cases of all test runs whose callback deadline has passed, and
+   * updates the status of the test runs.
+   * @returns The number of test cases which were failed.
+   */
+  async sweep(): Promise<number> {
+    const overdue = await this.db
+      .selectFrom("testRuns")
+      .select(["id"])
+      .where("callbackDeadline", "<", new Date())
+      .where(({ exists, selectFrom }) =>
+        exists(
+          selectFrom("testResults")
+            .select("testKey")
+            .whereRef("testResults.testRunId", "=", "testRuns.id")
+            .where(sql<string>`result->>'status'`, "=", TestCaseResultStatus.PENDING)
+        )
+      )
+      .execute();
+
+    let failed = 0;
+    for (const { id } of overdue) {
+      try {
+        failed += await this.failPendingResults(id);
+      } catch (error) {
+        logger.error(`Failed to fail the overdue callbacks of test run ${id}:`, error);
+      }
+    }
+    return failed;
+  }
+
+  private async failPendingResults(testRunId: string): Promise<number> {
+    const testRun = await this.storage.getTestRun(testRunId);
+    const message = `No callback received within ${testRun.callbackTimeout ?? config.CALLBACK_TIMEOUT} minutes`;
+
+    // Only the results which are still pending when they are updated are failed, a callback
+    // received in the meantime is kept
+    const results = await this.storage.failPendingResults(testRunId, message);
+    if (results.length === 0) {
+      return 0;
+    }
+
+    logger.warn(`${message} for test run ${testRunId}: ${results.map((r) => r.name).join(", ")}`);
+    await this.storage.updateTestRunStatus(testRunId);
+    await this.emitFailedResults(testRunId, results);
+    return results.length;
+  }
+
+  /**
+   * Notify subscribers of a test run that its callback test cases failed.
+   */
+  private async emitFailedResults(testRunId: string, results: TestResult[]): Promise<void> {
+    if (!this.progress?.hasSubscribers(testRunId)) {
+      return;
+    }
+    for (const result of results) {
+      this.progress.emit({
+        type: TestRunProgressEventType.TESTCASE_FINISHED,
+        testRunId,
+        timestamp: new Date().toISOString(),
+        testKey: result.testKey,
+        name: result.name,
+        result,
+      });
+    }
+    const testRun = await this.storage.getTestRun(testRunId);
+    this.progress.emit({
+      type: TestRunProgressEventType.TESTRUN_UPDATED,
+      testRunId,
+      timestamp: new Date().toISOString(),
+      status: testRun.status,
+      passingPercentage: testRun.passingPercentage,
+    });
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(async () => {
+      try {
+        await this.sweep();
+      } catch (error) {
+        logger.error("Error checking for overdue callbacks:", error);
+      }
+      this.schedule(config.CALLBACK_SWEEP_INTERVAL);
+    }, delay);
+  }
+}
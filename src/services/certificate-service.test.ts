@@ -0,0 +1,141 @@
+import { generateKeyPairSync } from "crypto";
+import { CertificateService, computeResultDigest } from "./certificate-service";
+import { TestCaseResultStatus, TestResult, TestRunStatus, TestRunWithResults } from "./types";
+
+jest.mock("../utils/logger", () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe("CertificateService", () => {
+  const keys = CertificateService.generateKeyPair();
+  const service = new CertificateService(keys.privateKey, keys.publicKey);
+
+  const results = [
+    { testKey: "TESTCASE#2", name: "Test Case 2", status: TestCaseResultStatus.SUCCESS, mandatory: true },
+    { testKey: "TESTCASE#1", name: "Test Case 1", status: TestCaseResultStatus.SUCCESS, mandatory: true },
+  ] as TestResult[];
+
+  const testRun: TestRunWithResults = {
+    testRunId: "test-run-123",
+    organizationName: "Acme Corp",
+    adminEmail: "admin@acme.com",
+    adminName: "John Doe",
+    timestamp: "2024-01-01T00:00:00Z",
+    status: TestRunStatus.PASS,
+    techSpecVersion: "V3.0",
+    passingPercentage: 100,
+    data: null,
+    results,
+  };
+
+  describe("fromKeys", () => {
+    it("accepts keys with escaped newlines and derives the public key from the private key", () => {
+      const escape = (pem: string) => pem.trim().replace(/\n/g, "\\n");
+
+      const fromPrivateKey = CertificateService.fromKeys(escape(keys.privateKey));
+
+      expect(fromPrivateKey?.canIssue()).toBe(true);
+      expect(fromPrivateKey?.getPublicKey()).toBe(service.getPublicKey());
+      expect(CertificateService.fromKeys(undefined, escape(keys.publicKey))?.canIssue()).toBe(false);
+      expect(CertificateService.fromKeys()).toBeUndefined();
+    });
+  });
+
+  describe("algorithm", () => {
+    const generate = (namedCurve: string) =>
+      generateKeyPairSync("ec", {
+        namedCurve,
+        privateKeyEncoding: { type: "pkcs8", format: "pem" },
+        publicKeyEncoding: { type: "spki", format: "pem" },
+      });
+
+    it.each([
+      ["P-384", "ES384"],
+      ["P-521", "ES512"],
+    ])("signs certificates with a %s key using %s", (namedCurve, alg) => {
+      const { privateKey, publicKey } = generate(namedCurve);
+      const service = new CertificateService(privateKey, publicKey);
+
+      const { certificate } = service.issueCertificate(testRun);
+
+      const header = JSON.parse(Buffer.from(certificate.split(".")[0], "base64url").toString());
+      expect(header.alg).toBe(alg);
+      expect(service.verifyCertificate(certificate, results).valid).toBe(true);
+    });
+
+    it("rejects keys on unsupported curves", () => {
+      const { privateKey, publicKey } = generate("secp256k1");
+
+      expect(() => new CertificateService(privateKey, publicKey)).toThrow("Unsupported curve secp256k1");
+    });
+  });
+
+  describe("computeResultDigest", () => {
+    it("does not depend on the order or the details of the results", () => {
+      const reordered = [{ ...results[1], errorMessage: "ignored" }, results[0]];
+      expect(computeResultDigest(reordered)).toBe(computeResultDigest(results));
+      expect(computeResultDigest(results)).toMatch(/^sha256:[0-9a-f]{64}$/);
+    });
+
+    it("changes when the status of a test case changes", () => {
+      const changed = [{ ...results[0], status: TestCaseResultStatus.FAILURE }, results[1]];
+      expect(computeResultDigest(changed)).not.toBe(computeResultDigest(results));
+    });
+  });
+
+  describe("issueCertificate", () => {
+    it("signs the test run details and the result digest", () => {
+      const { certificate, claims } = service.issueCertificate(testRun);
+
+      expect(claims).toEqual({
+        testRunId: "test-run-123",
+        organizationName: "Acme Corp",
+        techSpecVersion: "V3.0",
+        toolVersion: expect.any(String),
+        timestamp: "2024-01-01T00:00:00.000Z",
+        status: TestRunStatus.PASS,
+        passingPercentage: 100,
+        resultDigest: computeResultDigest(results),
+      });
+      const header = JSON.parse(Buffer.from(certificate.split(".")[0], "base64url").toString());
+      expect(header).toEqual(expect.objectContaining({ alg: "ES256", kid: service.keyId }));
+    });
+
+    it("refuses test runs which did not pass", () => {
+      expect(() => service.issueCertificate({ ...testRun, status: TestRunStatus.FAIL })).toThrow(
+        "only issued for passing test runs"
+      );
+    });
+  });
+
+  describe("verifyCertificate", () => {
+    it("accepts a certificate with matching results using only the public key", () => {
+      const { certificate, claims } = service.issueCertificate(testRun);
+      const verifier = new CertificateService(undefined, keys.publicKey);
+
+      expect(verifier.verifyCertificate(certificate, results)).toEqual({ valid: true, claims, digestMatches: true });
+    });
+
+    it("rejects results which do not match the digest", () => {
+      const { certificate } = service.issueCertificate(testRun);
+      const tampered = [{ ...results[0], status: TestCaseResultStatus.FAILURE }, results[1]];
+
+      expect(service.verifyCertificate(certificate, tampered)).toEqual(
+        expect.objectContaining({ valid: false, digestMatches: false })
+      );
+    });
+
+    it("rejects certificates signed with another key", () => {
+      const otherKeys = CertificateService.generateKeyPair();
+      const { certificate } = new CertificateService(otherKeys.privateKey, otherKeys.publicKey).issueCertificate(testRun);
+
+      expect(service.verifyCertificate(certificate)).toEqual({
+        valid: false,
+        reason: expect.stringContaining("Invalid signature"),
+      });
+    });
+  });
+});
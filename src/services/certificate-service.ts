@@ -0,0 +1,199 @@
+import { createHash, createPublicKey, generateKeyPairSync, KeyObject } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import * as jwt from "jsonwebtoken";
+import { TestResult, TestRunStatus, TestRunWithResults } from "./types";
+
+const ISSUER = "pact-conformance-service";
+
+// Signed content of a conformance certificate
+export interface CertificateClaims {
+  testRunId: string;
+  organizationName: string;
+  techSpecVersion: string;
+  toolVersion: string;
+  timestamp: string;
+  status: TestRunStatus;
+  passingPercentage: number;
+  // Digest of the test case results, see computeResultDigest
+  resultDigest: string;
+}
+
+export interface CertificateVerification {
+  valid: boolean;
+  // Why the certificate is not valid
+  reason?: string;
+  claims?: CertificateClaims;
+  // Set when results were given to compare with the result digest
+  digestMatches?: boolean;
+}
+
+/**
+ * Computes the digest of the results of a test run, which is signed as part of the certificate.
+ * Only the outcome of every test case is included, so the digest can be recomputed from
+ * the results returned by GET /testruns/:id, regardless of their order.
+ */
+export const computeResultDigest = (results: Pick<TestResult, "testKey" | "name" | "status" | "mandatory">[]): string => {
+  const outcomes = results
+    .map(({ testKey, name, status, mandatory }) => ({ testKey, name, status, mandatory }))
+    .sort((a, b) => a.testKey.localeCompare(b.testKey));
+  return `sha256:${createHash("sha256").update(JSON.stringify(outcomes)).digest("hex")}`;
+};
+
+const readToolVersion = (): string => {
+  try {
+    // Same relative location from src/services and dist/services
+    const packageJson = readFileSync(path.resolve(__dirname, "../../package.json"), "utf8");
+    return JSON.parse(packageJson).version ?? "unknown";
+  } catch {
+    return "unknown";
+  }
+};
+
+// Keys may be configured on a single line with escaped newlines
+const parsePem = (pem: string) => pem.replace(/\\n/g, "\n").trim();
+
+// Signing algorithm of every supported named curve of EC keys
+const EC_ALGORITHMS: Record<string, jwt.Algorithm> = {
+  prime256v1: "ES256",
+  secp384r1: "ES384",
+  secp521r1: "ES512",
+};
+
+/**
+ * Determines the signing algorithm from the public key: RS256 for RSA keys, and ES256, ES384
+ * or ES512 for EC keys on the P-256, P-384 or P-521 curve.
+ * @throws Error if the type of the key or its curve is not supported.
+ */
+const getAlgorithm = (key: KeyObject): jwt.Algorithm => {
+  if (key.asymmetricKeyType === "rsa") {
+    return "RS256";
+  }
+  if (key.asymmetricKeyType === "ec") {
+    const curve = key.asymmetricKeyDetails?.namedCurve;
+    if (curve && EC_ALGORITHMS[curve]) {
+      return EC_ALGORITHMS[curve];
+    }
+    throw new Error(`Unsupported curve ${curve} of the certificate key, use P-256, P-384 or P-521`);
+  }
+  throw new Error(`Unsupported certificate key type ${key.asymmetricKeyType}, use an EC or RSA key`);
+};
+
+/*
+ * Issues and verifies signed conformance certificates for passing test runs. A certificate
+ * is a JWS signed with the private key of the service, which anyone can verify offline with
+ * the public key, without having to trust the database of the service.
+ */
+export class CertificateService {
+
+  private readonly publicKey: KeyObject;
+  private readonly algorithm: jwt.Algorithm;
+  readonly keyId: string;
+  readonly toolVersion = readToolVersion();
+
+  constructor(
+    private readonly privateKey: string | undefined,
+    publicKey: string,
+    keyId?: string
+  ) {
+    this.publicKey = createPublicKey(publicKey);
+    this.algorithm = getAlgorithm(this.publicKey);
+    this.keyId = keyId || createHash("sha256")
+      .update(this.publicKey.export({ type: "spki", format: "der" }))
+      .digest("hex")
+      .slice(0, 16);
+  }
+
+  /**
+   * Creates the certificate service from PEM encoded keys as configured, with newlines which
+   * may be escaped as \n. Without public key, it is derived from the private key.
+   * @returns undefined if neither key is given.
+   */
+  static fromKeys(privateKey?: string, publicKey?: string, keyId?: string): CertificateService | undefined {
+    const privatePem = privateKey ? parsePem(privateKey) : undefined;
+    const publicPem = publicKey
+      ? parsePem(publicKey)
+      : privatePem && createPublicKey(privatePem).export({ type: "spki", format: "pem" }).toString();
+    return publicPem ? new CertificateService(privatePem, publicPem, keyId) : undefined;
+  }
+
+  /**
+   * Generates a PEM encoded EC P-256 key pair for signing certificates.
+   */
+  static generateKeyPair(): { privateKey: string; publicKey: string } {
+    return generateKeyPairSync("ec", {
+      namedCurve: "P-256",
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+  }
+
+  getPublicKey(): string {
+    return this.publicKey.export({ type: "spki", format: "pem" }).toString();
+  }
+
+  canIssue(): boolean {
+    return Boolean(this.privateKey);
+  }
+
+  /**
+   * Issues a certificate for a passing test run.
+   * @throws Error if the test run did not pass or no private key is configured.
+   */
+  issueCertificate(testRun: TestRunWithResults): { certificate: string; claims: CertificateClaims } {
+    if (testRun.status !== TestRunStatus.PASS) {
+      throw new Error(`Certificates are only issued for passing test runs, test run ${testRun.testRunId} is ${testRun.status}`);
+    }
+    if (!this.privateKey) {
+      throw new Error("No private key configured for signing certificates");
+    }
+
+    const claims: CertificateClaims = {
+      testRunId: testRun.testRunId,
+      organizationName: testRun.organizationName,
+      techSpecVersion: testRun.techSpecVersion,
+      toolVersion: this.toolVersion,
+      timestamp: new Date(testRun.timestamp).toISOString(),
+      status: testRun.status,
+      passingPercentage: testRun.passingPercentage ?? 100,
+      resultDigest: computeResultDigest(testRun.results),
+    };
+    const certificate = jwt.sign(claims, this.privateKey, {
+      algorithm: this.algorithm,
+      keyid: this.keyId,
+      issuer: ISSUER,
+      subject: testRun.testRunId,
+    });
+    return { certificate, claims };
+  }
+
+  /**
+   * Verifies the signature of a certificate and, if results are given, that they match the
+   * signed result digest.
+   */
+  verifyCertificate(certificate: string, results?: TestResult[]): CertificateVerification {
+    let claims: CertificateClaims;
+    try {
+      const payload = jwt.verify(certificate, this.publicKey, {
+        algorithms: [this.algorithm],
+        issuer: ISSUER,
+      }) as jwt.JwtPayload & CertificateClaims;
+      const { iss, sub, iat, ...rest } = payload;
+      claims = rest as CertificateClaims;
+    } catch (error: any) {
+      return { valid: false, reason: `Invalid signature: ${error.message}` };
+    }
+
+    if (claims.status !== TestRunStatus.PASS || !claims.resultDigest) {
+      return { valid: false, reason: "Certificate is not issued for a passing test run", claims };
+    }
+    if (!results) {
+      return { valid: true, claims };
+    }
+
+    const digestMatches = computeResultDigest(results) === claims.resultDigest;
+    return digestMatches
+      ? { valid: true, claims, digestMatches }
+      : { valid: false, reason: "Results do not match the result digest of the certificate", claims, digestMatches };
+  }
+}
@@ -0,0 +1,77 @@
+import logger from "../utils/logger";
+import { ConsoleTestStorage, printTestResults } from "./console-test-storage";
+import { TestCaseResultStatus, TestResult, TestRun, TestRunStatus } from "./types";
+
+jest.mock("../utils/logger", () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe("ConsoleTestStorage", () => {
+  const result = (testKey: string, status: TestCaseResultStatus, errorMessage?: string): TestResult => ({
+    testKey,
+    name: `Test Case ${testKey}`,
+    status,
+    mandatory: true,
+    errorMessage,
+  });
+
+  const printed = () => (logger.info as jest.Mock).mock.calls.map(([line]) => line);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("printTestResults", () => {
+    it("shows skipped test cases with their own symbol, reason and count", () => {
+      printTestResults([
+        result("TESTCASE#1", TestCaseResultStatus.SUCCESS),
+        result("TESTCASE#2", TestCaseResultStatus.SKIPPED, "Not supported by the tested API"),
+        result("TESTCASE#13", TestCaseResultStatus.PENDING),
+      ]);
+
+      expect(printed()).toEqual(expect.arrayContaining([
+        expect.stringMatching(/○.* Test Case TESTCASE#2$/),
+        "  Skipped: Not supported by the tested API",
+        expect.stringMatching(/⧗.* Test Case TESTCASE#13$/),
+        "  ✓ Passed: 1",
+        "  ⧗ Pending: 1",
+        "  ○ Skipped: 1",
+      ]));
+    });
+
+    it("leaves skipped test cases out of the mandatory passing percentage", () => {
+      printTestResults([
+        result("TESTCASE#1", TestCaseResultStatus.SUCCESS),
+        result("TESTCASE#2", TestCaseResultStatus.SKIPPED, "Not supported by the tested API"),
+      ]);
+
+      expect(printed()).toContain("  ✓ Passed: 1 (100%)");
+    });
+  });
+
+  it("keeps the hash of the callback secret when a loaded test run is saved again", async () => {
+    const storage = new ConsoleTestStorage();
+    const testRun: TestRun = {
+      testRunId: "test-run-123",
+      organizationName: "Acme Corp",
+      adminEmail: "admin@acme.com",
+      adminName: "John Doe",
+      timestamp: "2024-01-01T00:00:00.000Z",
+      status: TestRunStatus.PENDING,
+      techSpecVersion: "V3.0",
+      data: null,
+      callbackCredentials: { clientId: "test-run-123", secretHash: "hash" },
+    };
+    await storage.saveTestRun(testRun);
+
+    const loaded = await storage.getTestRun("test-run-123");
+    expect(loaded.callbackCredentials).toEqual({ clientId: "test-run-123" });
+    await storage.saveTestRun({ ...loaded, status: TestRunStatus.PASS });
+
+    expect(await storage.getCallbackSecretHash("test-run-123")).toBe("hash");
+    expect((await storage.getTestRun("test-run-123")).status).toBe(TestRunStatus.PASS);
+  });
+});
@@ -7,8 +7,105 @@ import {
   TestRun,
   TestCaseResultStatus,
   PagingParameters,
-  TestRunStatus,
 } from "./types";
+import { getTestRunStatus } from "../utils/testRunStatus";
+
+/**
+ * Prints a summary of test case results to the console.
+ */
+export function printTestResults(results: TestResult[]): void {
+  logger.info("\n" + "=".repeat(80));
+  logger.info("TEST RESULTS SUMMARY");
+  logger.info("=".repeat(80));
+  
+  const mandatoryTests = results.filter((r) => r.mandatory);
+  const nonMandatoryTests = results.filter((r) => !r.mandatory);
+  
+  // Display mandatory tests
+  logger.info("\nMandatory Tests:");
+  logger.info("-".repeat(80));
+  printTestGroup(mandatoryTests);
+  
+  // Display non-mandatory tests
+  if (nonMandatoryTests.length > 0) {
+    logger.info("\nNon-Mandatory Tests:");
+    logger.info("-".repeat(80));
+    printTestGroup(nonMandatoryTests);
+  }
+  
+  // Display summary statistics
+  const passed = results.filter((r) => r.status === TestCaseResultStatus.SUCCESS).length;
+  const failed = results.filter((r) => r.status === TestCaseResultStatus.FAILURE).length;
+  const pending = results.filter((r) => r.status === TestCaseResultStatus.PENDING).length;
+  const skipped = results.filter((r) => r.status === TestCaseResultStatus.SKIPPED).length;
+  
+  const mandatoryPassed = mandatoryTests.filter((r) => r.status === TestCaseResultStatus.SUCCESS).length;
+  const mandatoryFailed = mandatoryTests.filter((r) => r.status === TestCaseResultStatus.FAILURE).length;
+  const mandatorySkipped = mandatoryTests.filter((r) => r.status === TestCaseResultStatus.SKIPPED).length;
+  // Skipped test cases do not apply to the tested API, like in the passing percentage of the test run
+  const mandatoryApplicable = mandatoryTests.length - mandatorySkipped;
+  
+  logger.info("\n" + "=".repeat(80));
+  logger.info("STATISTICS");
+  logger.info("=".repeat(80));
+  logger.info(`Total Tests: ${results.length}`);
+  logger.info(`  ✓ Passed: ${passed}`);
+  logger.info(`  ✗ Failed: ${failed}`);
+  logger.info(`  ⧗ Pending: ${pending}`);
+  logger.info(`  ○ Skipped: ${skipped}`);
+  logger.info(`\nMandatory Tests: ${mandatoryTests.length}`);
+  logger.info(`  ✓ Passed: ${mandatoryPassed} (${mandatoryApplicable > 0 ? Math.round((mandatoryPassed / mandatoryApplicable) * 100) : 0}%)`);
+  logger.info(`  ✗ Failed: ${mandatoryFailed}`);
+  logger.info(`  ○ Skipped: ${mandatorySkipped}`);
+  logger.info("=".repeat(80) + "\n");
+}
+
+function printTestGroup(tests: TestResult[]): void {
+  for (const result of tests) {
+    const icon = result.status === TestCaseResultStatus.SUCCESS 
+      ? "✓" 
+      : result.status === TestCaseResultStatus.FAILURE 
+      ? "✗" 
+      : result.status === TestCaseResultStatus.SKIPPED
+      ? "○"
+      : "⧗";
+    
+    const statusColor = result.status === TestCaseResultStatus.SUCCESS 
+      ? "\x1b[32m" // green
+      : result.status === TestCaseResultStatus.FAILURE 
+      ? "\x1b[31m" // red
+      : result.status === TestCaseResultStatus.SKIPPED
+      ? "\x1b[90m" // gray
+      : "\x1b[33m"; // yellow
+    
+    const resetColor = "\x1b[0m";
+    
+    logger.info(`${statusColor}${icon}${resetColor} ${result.name}`);
+    
+    // The error message of a skipped test case is the reason it was skipped
+    if (result.errorMessage) {
+      logger.info(`  ${result.status === TestCaseResultStatus.SKIPPED ? "Skipped" : "Error"}: ${result.errorMessage}`);
+    }
+
+    if (result.attempts && result.attempts.length > 1) {
+      const reasons = result.attempts
+        .filter((a) => a.retryReason)
+        .map((a) => a.retryReason)
+        .join(", ");
+      logger.info(`  Attempts: ${result.attempts.length} (retried after: ${reasons})`);
+    }
+    
+    if (result.status === TestCaseResultStatus.FAILURE && result.curlRequest) {
+      logger.info(`  Request: ${result.curlRequest}`);
+    }
+  }
+}
+
+// The callback credentials are only needed to authenticate callbacks, never show them
+const withoutCallbackSecret = ({ callbackCredentials, ...testRun }: TestRun): TestRun => ({
+  ...testRun,
+  ...(callbackCredentials && { callbackCredentials: { clientId: callbackCredentials.clientId } }),
+});
 
 /**
  * Console-based implementation of TestStorage that displays results
@@ -20,7 +117,12 @@ export class ConsoleTestStorage implements TestStorage {
   private testResults: Map<string, TestResult[]> = new Map();
 
   async saveTestRun(testRun: TestRun): Promise<void> {
-    this.testRunData.set(testRun.testRunId, testRun);
+    const existing = this.testRunData.get(testRun.testRunId);
+    // Keep the hash of the callback credentials, which is needed to authenticate callbacks
+    const callbackCredentials = testRun.callbackCredentials?.secretHash
+      ? testRun.callbackCredentials
+      : existing?.callbackCredentials ?? testRun.callbackCredentials;
+    this.testRunData.set(testRun.testRunId, { ...testRun, callbackCredentials });
     
     logger.info("=".repeat(80));
     logger.info(`Test Run: ${testRun.testRunId}`);
@@ -30,6 +132,14 @@ export class ConsoleTestStorage implements TestStorage {
   }
 
   async getTestRun(testRunId: string): Promise<TestRun> {
+    return withoutCallbackSecret(this.getStoredTestRun(testRunId));
+  }
+
+  async getCallbackSecretHash(testRunId: string): Promise<string | undefined> {
+    return this.testRunData.get(testRunId)?.callbackCredentials?.secretHash;
+  }
+
+  private getStoredTestRun(testRunId: string): TestRun {
     const testRun = this.testRunData.get(testRunId);
     
     if (!testRun) {
@@ -39,25 +149,10 @@ export class ConsoleTestStorage implements TestStorage {
   }
 
   async updateTestRunStatus(testRunId: string): Promise<void> {
-    const testRun = await this.getTestRunWithResults(testRunId);
-    const mandatoryTests = testRun.results.filter(
-      (test) => test.mandatory
-    );
-    const failedMandatoryTests = mandatoryTests.filter(
-      (test) => test.status === TestCaseResultStatus.FAILURE
-    );
-    const pendingMandatoryTests = mandatoryTests.filter(
-      (test) => test.status === TestCaseResultStatus.PENDING
-    );
-    if (mandatoryTests.length > 0 && failedMandatoryTests.length === 0 && pendingMandatoryTests.length === 0) {
-      testRun.status = TestRunStatus.PASS;
-      testRun.passingPercentage = 100;
-    } else if (failedMandatoryTests.length > 0) {
-      testRun.status = TestRunStatus.FAIL;
-      testRun.passingPercentage = Math.round(((mandatoryTests.length - failedMandatoryTests.length - pendingMandatoryTests.length) / mandatoryTests.length) * 100);
-    } else if (pendingMandatoryTests.length > 0) {
-      testRun.status = TestRunStatus.PENDING;
-      testRun.passingPercentage = Math.round(((mandatoryTests.length - pendingMandatoryTests.length) / mandatoryTests.length) * 100);
+    const testRun = this.getStoredTestRun(testRunId);
+    const updates = getTestRunStatus(this.testResults.get(testRunId) || []);
+    if (updates) {
+      Object.assign(testRun, updates);
     }
   }
 
@@ -88,88 +183,15 @@ export class ConsoleTestStorage implements TestStorage {
     this.testResults.set(testRunId, results);
     
     // Display results summary
-    this.displayTestResults(testResults);
-  }
-
-  private displayTestResults(results: TestResult[]): void {
-    logger.info("\n" + "=".repeat(80));
-    logger.info("TEST RESULTS SUMMARY");
-    logger.info("=".repeat(80));
-    
-    const mandatoryTests = results.filter((r) => r.mandatory);
-    const nonMandatoryTests = results.filter((r) => !r.mandatory);
-    
-    // Display mandatory tests
-    logger.info("\nMandatory Tests:");
-    logger.info("-".repeat(80));
-    this.displayTestGroup(mandatoryTests);
-    
-    // Display non-mandatory tests
-    if (nonMandatoryTests.length > 0) {
-      logger.info("\nNon-Mandatory Tests:");
-      logger.info("-".repeat(80));
-      this.displayTestGroup(nonMandatoryTests);
-    }
-    
-    // Display summary statistics
-    const passed = results.filter((r) => r.status === TestCaseResultStatus.SUCCESS).length;
-    const failed = results.filter((r) => r.status === TestCaseResultStatus.FAILURE).length;
-    const pending = results.filter((r) => r.status === TestCaseResultStatus.PENDING).length;
-    
-    const mandatoryPassed = mandatoryTests.filter((r) => r.status === TestCaseResultStatus.SUCCESS).length;
-    const mandatoryFailed = mandatoryTests.filter((r) => r.status === TestCaseResultStatus.FAILURE).length;
-    
-    logger.info("\n" + "=".repeat(80));
-    logger.info("STATISTICS");
-    logger.info("=".repeat(80));
-    logger.info(`Total Tests: ${results.length}`);
-    logger.info(`  ✓ Passed: ${passed}`);
-    logger.info(`  ✗ Failed: ${failed}`);
-    logger.info(`  ⧗ Pending: ${pending}`);
-    logger.info(`\nMandatory Tests: ${mandatoryTests.length}`);
-    logger.info(`  ✓ Passed: ${mandatoryPassed} (${mandatoryTests.length > 0 ? Math.round((mandatoryPassed / mandatoryTests.length) * 100) : 0}%)`);
-    logger.info(`  ✗ Failed: ${mandatoryFailed}`);
-    logger.info("=".repeat(80) + "\n");
-  }
-
-  private displayTestGroup(tests: TestResult[]): void {
-    for (const result of tests) {
-      const icon = result.status === TestCaseResultStatus.SUCCESS 
-        ? "✓" 
-        : result.status === TestCaseResultStatus.FAILURE 
-        ? "✗" 
-        : "⧗";
-      
-      const statusColor = result.status === TestCaseResultStatus.SUCCESS 
-        ? "\x1b[32m" // green
-        : result.status === TestCaseResultStatus.FAILURE 
-        ? "\x1b[31m" // red
-        : "\x1b[33m"; // yellow
-      
-      const resetColor = "\x1b[0m";
-      
-      logger.info(`${statusColor}${icon}${resetColor} ${result.name}`);
-      
-      if (result.errorMessage) {
-        logger.info(`  Error: ${result.errorMessage}`);
-      }
-      
-      if (result.status === TestCaseResultStatus.FAILURE && result.curlRequest) {
-        logger.info(`  Request: ${result.curlRequest}`);
-      }
-    }
+    printTestResults(testResults);
   }
 
   async getTestRunWithResults(testRunId: string): Promise<TestRunWithResults> {
-    const testRun = this.testRunData.get(testRunId);
+    const testRun = this.getStoredTestRun(testRunId);
     const results = this.testResults.get(testRunId) || [];
     
-    if (!testRun) {
-      throw new NotFoundError(`Test run with ID ${testRunId} not found`);
-    }
-    
     return {
-      ...testRun,
+      ...withoutCallbackSecret(testRun),
       results,
     };
   }
@@ -179,6 +201,6 @@ export class ConsoleTestStorage implements TestStorage {
     adminEmail?: string
   ): Promise<TestRun[]> {
     // For console storage, just return all test runs
-    return Array.from(this.testRunData.values());
+    return Array.from(this.testRunData.values()).map(withoutCallbackSecret);
   }
 }
@@ -1,14 +1,30 @@
 import { jest } from "@jest/globals";
 import { EventHandler } from "./event-handler";
-import { EventTypesV2, EventTypesV3, TestCaseResultStatus } from "./types";
+import { EventTypesV2, EventTypesV3, TestCaseResultStatus, TestRunProgressEventType } from "./types";
+import { ProgressEmitter } from "./progress-emitter";
 import * as jwt from "jsonwebtoken";
-import { BadRequestError, UnauthorizedError, NotFoundError } from "../errors";
+import { BadRequestError, UnauthorizedError, NotFoundError, OAuthError } from "../errors";
+import { generateCallbackCredentials } from "../utils/callbackCredentials";
 
 // Mock jwt module at the top level
 jest.mock("jsonwebtoken", () => ({
   sign: jest.fn(),
+  verify: jest.fn(),
 }));
 
+// Authorization header of a callback with a token of /auth/token, see verifyCallbackToken
+const AUTHORIZATION = "Bearer valid-token";
+const CONTENT_TYPE = "application/cloudevents+json";
+
+// CloudEvents envelope of a callback event
+const cloudEvent = (type: string) => ({
+  type,
+  specversion: "1.0",
+  id: "event-xyz",
+  source: "//api.example.com/events",
+  time: "2024-01-01T00:00:00Z",
+});
+
 // Helper to create mock test run data
 const createMockTestRun = (version: string, productIds: string[]) => ({
   testRunId: "run123",
@@ -31,67 +47,156 @@ describe("EventHandler", () => {
       saveTestCaseResults: jest.fn(),
       getTestResults: jest.fn(),
       getTestRun: jest.fn(),
+      getCallbackSecretHash: jest.fn(),
       getTestRunWithResults: jest.fn(),
       updateTestRunStatus: jest.fn(),
     };
     handler = new EventHandler(storageMock);
     jest.restoreAllMocks();
+    (jwt.verify as jest.Mock).mockReturnValue({ clientId: "run123", testRunId: "run123" });
   });
 
   describe("authenticate", () => {
-    test("throws BadRequestError when credentials missing", async () => {
+    test("throws invalid_client when credentials missing", async () => {
       await expect(
         (handler as any).authenticate({ clientId: "", clientSecret: "" })
-      ).rejects.toThrow(BadRequestError);
+      ).rejects.toMatchObject({ status: 401, error: "invalid_client" });
 
       await expect(
         (handler as any).authenticate({ clientId: undefined as any, clientSecret: "x" })
-      ).rejects.toThrow(BadRequestError);
+      ).rejects.toMatchObject({ status: 401, error: "invalid_client" });
     });
 
-    test("throws UnauthorizedError when credentials invalid", async () => {
+    const credentials = generateCallbackCredentials("5b1f5d3e-8a4c-4f5e-9d2b-1c3a4e5f6a7b");
+
+    beforeEach(() => {
+      storageMock.getCallbackSecretHash.mockImplementation(async (testRunId: string) =>
+        testRunId === credentials.clientId ? credentials.secretHash : undefined
+      );
+    });
+
+    test("throws invalid_client when credentials invalid", async () => {
       await expect(
         (handler as any).authenticate({ clientId: "bad", clientSecret: "bad" })
-      ).rejects.toThrow(UnauthorizedError);
+      ).rejects.toMatchObject({ status: 401, error: "invalid_client" });
+      await expect(
+        (handler as any).authenticate({ clientId: credentials.clientId, clientSecret: "wrong" })
+      ).rejects.toMatchObject({ status: 401, error: "invalid_client" });
     });
 
-    test("returns token when credentials valid", async () => {
+    test("throws invalid_client for the credentials of unknown test runs", async () => {
+      await expect(
+        (handler as any).authenticate({ clientId: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d", clientSecret: credentials.clientSecret })
+      ).rejects.toThrow(OAuthError);
+    });
+
+    test("does not look up client IDs which are no test run IDs", async () => {
+      await expect(
+        (handler as any).authenticate({ clientId: "test_client_id", clientSecret: credentials.clientSecret })
+      ).rejects.toThrow(OAuthError);
+      expect(storageMock.getCallbackSecretHash).not.toHaveBeenCalled();
+    });
+
+    test("returns a token for the test run when credentials valid", async () => {
       const signSpy = jest.spyOn(jwt, "sign").mockReturnValue("signed-token" as any);
       const res = await (handler as any).authenticate({
-        clientId: "test_client_id",
-        clientSecret: "test_client_secret",
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+      });
+      expect(signSpy).toHaveBeenCalledWith(
+        { clientId: credentials.clientId, testRunId: credentials.clientId, authMethod: "client_secret_basic" },
+        expect.anything(),
+        expect.anything()
+      );
+      expect(res).toEqual({ access_token: "signed-token", token_type: "Bearer", expires_in: 3600 });
+    });
+
+    test("records the client authentication method in the token", async () => {
+      const signSpy = jest.spyOn(jwt, "sign").mockReturnValue("signed-token" as any);
+      await (handler as any).authenticate({
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+        authMethod: "client_secret_post",
       });
-      expect(signSpy).toHaveBeenCalled();
-      expect(res).toHaveProperty("access_token", "signed-token");
+      expect(signSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ authMethod: "client_secret_post" }),
+        expect.anything(),
+        expect.anything()
+      );
     });
   });
 
-  describe("parseBasicAuth", () => {
-    test("throws when header missing or invalid", () => {
-      expect(() => handler.parseBasicAuth()).toThrow(BadRequestError);
-      expect(() => handler.parseBasicAuth("Bearer token")).toThrow(BadRequestError);
+  describe("parseTokenRequest", () => {
+    const basic = (credentials: string) => "Basic " + Buffer.from(credentials).toString("base64");
+    const body = { grant_type: "client_credentials" };
+
+    test("throws invalid_request when grant_type missing", () => {
+      expect(() => handler.parseTokenRequest(basic("id:secret"))).toThrow(
+        expect.objectContaining({ status: 400, error: "invalid_request" })
+      );
     });
 
-    test("throws when credentials format invalid", () => {
-      const bad = "Basic " + Buffer.from("onlyclient").toString("base64");
-      expect(() => handler.parseBasicAuth(bad)).toThrow(BadRequestError);
+    test("throws unsupported_grant_type for other grant types", () => {
+      expect(() => handler.parseTokenRequest(basic("id:secret"), { grant_type: "password" })).toThrow(
+        expect.objectContaining({ status: 400, error: "unsupported_grant_type" })
+      );
     });
 
-    test("parses valid header", () => {
-      const header = "Basic " + Buffer.from("clientId:clientSecret").toString("base64");
-      const creds = handler.parseBasicAuth(header);
-      expect(creds).toEqual({ clientId: "clientId", clientSecret: "clientSecret" });
+    test("throws invalid_client when credentials missing or invalid", () => {
+      expect(() => handler.parseTokenRequest(undefined, body)).toThrow(
+        expect.objectContaining({ status: 401, error: "invalid_client" })
+      );
+      expect(() => handler.parseTokenRequest("Bearer token", body)).toThrow(
+        expect.objectContaining({ status: 401, error: "invalid_client" })
+      );
+      expect(() => handler.parseTokenRequest(basic("onlyclient"), body)).toThrow(
+        expect.objectContaining({ status: 401, error: "invalid_client" })
+      );
+    });
+
+    test("throws invalid_request when credentials are sent twice", () => {
+      expect(() =>
+        handler.parseTokenRequest(basic("id:secret"), { ...body, client_id: "id", client_secret: "secret" })
+      ).toThrow(expect.objectContaining({ status: 400, error: "invalid_request" }));
+    });
+
+    test("parses client_secret_basic", () => {
+      expect(handler.parseTokenRequest(basic("clientId:client%3Asecret"), body)).toEqual({
+        clientId: "clientId",
+        clientSecret: "client:secret",
+        authMethod: "client_secret_basic",
+      });
+    });
+
+    test("parses client_secret_post", () => {
+      expect(handler.parseTokenRequest(undefined, { ...body, client_id: "clientId", client_secret: "clientSecret" })).toEqual({
+        clientId: "clientId",
+        clientSecret: "clientSecret",
+        authMethod: "client_secret_post",
+      });
+    });
+  });
+
+  describe("getOpenIdConfiguration", () => {
+    test("points to the token endpoint of the issuer", () => {
+      const configuration = new EventHandler(storageMock, undefined, "https://callbacks.example.com").getOpenIdConfiguration();
+      expect(configuration).toEqual(expect.objectContaining({
+        issuer: "https://callbacks.example.com",
+        token_endpoint: "https://callbacks.example.com/auth/token",
+        grant_types_supported: ["client_credentials"],
+        token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+      }));
     });
   });
 
   describe("processEvent", () => {
     test("throws BadRequestError when event payload missing or missing requestEventId", async () => {
-      await expect((handler as any).processEvent(undefined, "/2/events")).rejects.toThrow(
+      await expect((handler as any).processEvent(undefined, "/2/events", AUTHORIZATION, CONTENT_TYPE)).rejects.toThrow(
         BadRequestError
       );
 
       const payloadNoId = { type: EventTypesV2.FULFILLED, data: {} };
-      await expect((handler as any).processEvent(payloadNoId, "/2/events")).rejects.toThrow(
+      await expect((handler as any).processEvent(payloadNoId, "/2/events", AUTHORIZATION, CONTENT_TYPE)).rejects.toThrow(
         BadRequestError
       );
     });
@@ -99,7 +204,7 @@ describe("EventHandler", () => {
     test("throws NotFoundError when test run not found", async () => {
       storageMock.getTestRun.mockRejectedValue(new NotFoundError("Test run not found"));
       const payload = { type: EventTypesV2.FULFILLED, data: { requestEventId: "run123/abc" } };
-      await expect((handler as any).processEvent(payload, "/2/events")).rejects.toThrow(
+      await expect((handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE)).rejects.toThrow(
         NotFoundError
       );
       expect(storageMock.getTestRun).toHaveBeenCalledWith("run123");
@@ -107,8 +212,9 @@ describe("EventHandler", () => {
 
     test("extracts test run ID from requestEventId by splitting on last slash", async () => {
       storageMock.getTestRun.mockRejectedValue(new NotFoundError("Test run not found"));
+      (jwt.verify as jest.Mock).mockReturnValue({ clientId: "run123-abc", testRunId: "run123-abc" });
       const payload = { type: EventTypesV2.FULFILLED, data: { requestEventId: "run123-abc/def" } };
-      await expect((handler as any).processEvent(payload, "/2/events")).rejects.toThrow(
+      await expect((handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE)).rejects.toThrow(
         NotFoundError
       );
       expect(storageMock.getTestRun).toHaveBeenCalledWith("run123-abc");
@@ -121,21 +227,24 @@ describe("EventHandler", () => {
         .spyOn(EventHandler.prototype as any, "processFulfilledEvent")
         .mockResolvedValue(undefined);
 
-      const payload = { type: EventTypesV2.FULFILLED, data: { requestEventId: "run123/abc" } };
-      await (handler as any).processEvent(payload, "/2/events");
+      const payload = { ...cloudEvent(EventTypesV2.FULFILLED), data: { requestEventId: "run123/abc" } };
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
-      expect(spy).toHaveBeenCalledWith(payload, "run123", testRun, "/2/events");
+      expect(spy).toHaveBeenCalledWith(payload, "run123", testRun, "/2/events", {
+        authenticated: true,
+        clientId: "run123",
+      }, []);
     });
 
     test("processes REJECTED event and saves success result when valid", async () => {
       const testRun = createMockTestRun("V2.2", ["p1"]);
       storageMock.getTestRun.mockResolvedValue(testRun);
       const payload = {
-        type: EventTypesV2.REJECTED,
-        data: { requestEventId: "run123/abc", error: { code: "ERR", message: "failed" } },
+        ...cloudEvent(EventTypesV2.REJECTED),
+        data: { requestEventId: "run123/abc", error: { code: "NotFound", message: "failed" } },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalled();
       const [savedTestRunId, savedResults] = storageMock.saveTestCaseResults.mock.calls[0];
@@ -153,8 +262,8 @@ describe("EventHandler", () => {
       const testRun = createMockTestRun("V2.2", ["p1"]);
       storageMock.getTestRun.mockResolvedValue(testRun);
 
-      const payload = { type: EventTypesV2.REJECTED, data: { requestEventId: "run123", error: { code: "ERR", message: "x" } } };
-      await (handler as any).processEvent(payload, "/2/events");
+      const payload = { ...cloudEvent(EventTypesV2.REJECTED), data: { requestEventId: "run123", error: { code: "NotFound", message: "x" } } };
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.getTestRun).toHaveBeenCalledWith("run123");
     });
@@ -163,14 +272,84 @@ describe("EventHandler", () => {
       const testRun = createMockTestRun("V2.2", ["p1"]);
       storageMock.getTestRun.mockResolvedValue(testRun);
 
-      const payload = { type: "UNKNOWN_EVENT", data: { requestEventId: "run123-abc" } };
-      await (handler as any).processEvent(payload, "/2/events");
+      const payload = { type: "UNKNOWN_EVENT", data: { requestEventId: "run123" } };
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).not.toHaveBeenCalled();
       expect(storageMock.updateTestRunStatus).not.toHaveBeenCalled();
     });
   });
 
+  describe("callback authentication", () => {
+    const testRun = createMockTestRun("V2.2", ["p1"]);
+    const payload = {
+      ...cloudEvent(EventTypesV2.REJECTED),
+      data: { requestEventId: "run123/abc", error: { code: "NotFound", message: "failed" } },
+    };
+    const pendingResult = {
+      name: "Test Case 14.B: Handle Rejected PCF Request",
+      status: TestCaseResultStatus.PENDING,
+      mandatory: true,
+      testKey: "TESTCASE#14.B",
+    };
+
+    beforeEach(() => {
+      storageMock.getTestRun.mockResolvedValue(testRun);
+      storageMock.getTestRunWithResults.mockResolvedValue({ ...testRun, results: [pendingResult] });
+    });
+
+    test("records the authentication on the result of an authenticated callback", async () => {
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
+
+      expect(jwt.verify).toHaveBeenCalledWith("valid-token", expect.anything());
+      const [, [result]] = storageMock.saveTestCaseResults.mock.calls[0];
+      expect(result.callbackAuthentication).toEqual({ authenticated: true, clientId: "run123" });
+    });
+
+    test("records how the client obtained the token", async () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ clientId: "run123", testRunId: "run123", authMethod: "client_secret_post" });
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
+
+      const [, [result]] = storageMock.saveTestCaseResults.mock.calls[0];
+      expect(result.callbackAuthentication).toEqual({ authenticated: true, clientId: "run123", authMethod: "client_secret_post" });
+    });
+
+    test("throws UnauthorizedError without bearer token and leaves the pending test case unchanged", async () => {
+      await expect((handler as any).processEvent(payload, "/2/events")).rejects.toThrow(
+        new UnauthorizedError("Callback was not authenticated: Missing bearer token in Authorization header")
+      );
+
+      expect(storageMock.saveTestCaseResults).not.toHaveBeenCalled();
+      expect(storageMock.updateTestRunStatus).not.toHaveBeenCalled();
+    });
+
+    test("authenticates the callback before loading the test run", async () => {
+      storageMock.getTestRun.mockRejectedValue(new NotFoundError("Test run not found"));
+
+      await expect((handler as any).processEvent(payload, "/2/events")).rejects.toThrow(UnauthorizedError);
+      expect(storageMock.getTestRun).not.toHaveBeenCalled();
+    });
+
+    test("rejects expired tokens", async () => {
+      (jwt.verify as jest.Mock).mockImplementation(() => {
+        throw Object.assign(new Error("jwt expired"), { name: "TokenExpiredError" });
+      });
+
+      await expect((handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE)).rejects.toThrow(
+        "Access token has expired"
+      );
+    });
+
+    test("rejects tokens issued for other test runs", async () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ clientId: "run456", testRunId: "run456" });
+
+      await expect((handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE)).rejects.toThrow(
+        "Access token was issued for test run run456, not for test run run123"
+      );
+      expect(storageMock.saveTestCaseResults).not.toHaveBeenCalled();
+    });
+  });
+
   describe("processFulfilledEvent (via processEvent)", () => {
     const baseTestRun = createMockTestRun("V2.2", ["urn:product1", "urn:product2"]);
 
@@ -222,7 +401,7 @@ describe("EventHandler", () => {
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -286,7 +465,7 @@ describe("EventHandler", () => {
         },
       };
 
-      await (handler as any).processEvent(payload, "/3/events");
+      await (handler as any).processEvent(payload, "/3/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -310,7 +489,7 @@ describe("EventHandler", () => {
         },
       };
 
-      await (handler as any).processEvent(payload, "/wrong/path");
+      await (handler as any).processEvent(payload, "/wrong/path", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -326,6 +505,25 @@ describe("EventHandler", () => {
       );
     });
 
+    test("saves failure result when the event is not sent as CloudEvent", async () => {
+      const payload = {
+        type: EventTypesV2.FULFILLED,
+        data: {
+          requestEventId: "run123/abc",
+          pfs: [{ productIds: ["product1"] }],
+        },
+      };
+
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, "application/json");
+
+      const [, [result]] = storageMock.saveTestCaseResults.mock.calls[0];
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage).toContain(
+        "Invalid content type: expected application/cloudevents+json, but received application/json; " +
+        "event must have required property 'specversion'"
+      );
+    });
+
     test("saves failure result when product IDs don't match", async () => {
       const payload = {
         type: EventTypesV2.FULFILLED,
@@ -371,7 +569,7 @@ describe("EventHandler", () => {
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -397,7 +595,7 @@ describe("EventHandler", () => {
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -422,7 +620,7 @@ describe("EventHandler", () => {
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.updateTestRunStatus).toHaveBeenCalledWith("run123");
     });
@@ -437,14 +635,14 @@ describe("EventHandler", () => {
 
     test("saves success result for valid V2 rejected event", async () => {
       const payload = {
-        type: EventTypesV2.REJECTED,
+        ...cloudEvent(EventTypesV2.REJECTED),
         data: {
           requestEventId: "run123/abc",
-          error: { code: "INVALID_REQUEST", message: "Request validation failed" },
+          error: { code: "BadRequest", message: "Request validation failed" },
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -466,14 +664,14 @@ describe("EventHandler", () => {
       storageMock.getTestRun.mockResolvedValue(v3TestRun);
 
       const payload = {
-        type: EventTypesV3.REJECTED,
+        ...cloudEvent(EventTypesV3.REJECTED),
         data: {
           requestEventId: "run123/abc",
-          error: { code: "TIMEOUT", message: "Request timed out" },
+          error: { code: "InternalError", message: "Request timed out" },
         },
       };
 
-      await (handler as any).processEvent(payload, "/3/events");
+      await (handler as any).processEvent(payload, "/3/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -489,22 +687,20 @@ describe("EventHandler", () => {
 
     test("saves failure result when error object is missing", async () => {
       const payload = {
-        type: EventTypesV2.REJECTED,
+        ...cloudEvent(EventTypesV2.REJECTED),
         data: {
           requestEventId: "run123/abc",
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
         [
           expect.objectContaining({
             status: TestCaseResultStatus.FAILURE,
-            errorMessage: expect.stringContaining(
-              "Rejected event must contain an error object with a code and message"
-            ),
+            errorMessage: "data must have required property 'error'",
           }),
         ],
         true
@@ -513,23 +709,21 @@ describe("EventHandler", () => {
 
     test("saves failure result when error object is incomplete", async () => {
       const payload = {
-        type: EventTypesV2.REJECTED,
+        ...cloudEvent(EventTypesV2.REJECTED),
         data: {
           requestEventId: "run123/abc",
-          error: { code: "ERR" },
+          error: { code: "NotFound" },
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
         [
           expect.objectContaining({
             status: TestCaseResultStatus.FAILURE,
-            errorMessage: expect.stringContaining(
-              "Rejected event must contain an error object with a code and message"
-            ),
+            errorMessage: "data.error must have required property 'message'",
           }),
         ],
         true
@@ -538,14 +732,14 @@ describe("EventHandler", () => {
 
     test("saves failure result when request path is incorrect", async () => {
       const payload = {
-        type: EventTypesV2.REJECTED,
+        ...cloudEvent(EventTypesV2.REJECTED),
         data: {
           requestEventId: "run123/abc",
-          error: { code: "ERR", message: "Error occurred" },
+          error: { code: "NotFound", message: "Error occurred" },
         },
       };
 
-      await (handler as any).processEvent(payload, "/wrong/path");
+      await (handler as any).processEvent(payload, "/wrong/path", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -563,41 +757,76 @@ describe("EventHandler", () => {
 
     test("combines error messages when both error object and path are invalid", async () => {
       const payload = {
-        type: EventTypesV2.REJECTED,
+        ...cloudEvent(EventTypesV2.REJECTED),
         data: {
           requestEventId: "run123/abc",
         },
       };
 
-      await (handler as any).processEvent(payload, "/wrong/path");
+      await (handler as any).processEvent(payload, "/wrong/path", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
         [
           expect.objectContaining({
             status: TestCaseResultStatus.FAILURE,
-            errorMessage: expect.stringMatching(
-              /Rejected event must contain an error object.*Invalid request path/
-            ),
+            errorMessage: "data must have required property 'error'; Invalid request path: expected /2/events, but received /wrong/path",
           }),
         ],
         true
       );
     });
 
+    test("reports every violation of the CloudEvents envelope and the schema", async () => {
+      const payload = {
+        type: EventTypesV2.REJECTED,
+        specversion: "0.3",
+        source: "//api.example.com/events",
+        time: "yesterday",
+        data: {
+          requestEventId: "run123/abc",
+          error: { code: "Oops", message: "Error" },
+        },
+      };
+
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, "application/json");
+
+      const [, [result]] = storageMock.saveTestCaseResults.mock.calls[0];
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage.split("; ")).toEqual([
+        "Invalid content type: expected application/cloudevents+json, but received application/json",
+        "event must have required property 'id'",
+        "specversion must be equal to constant: \"1.0\"",
+        "time must match format \"date-time\"",
+        expect.stringMatching(/^data\.error\.code must be equal to one of the allowed values: \[.*"NotFound"/),
+      ]);
+    });
+
+    test("accepts the CloudEvents content type with parameters", async () => {
+      const payload = {
+        ...cloudEvent(EventTypesV2.REJECTED),
+        data: { requestEventId: "run123/abc", error: { code: "NotFound", message: "Error" } },
+      };
+
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, "application/cloudevents+json; charset=utf-8");
+
+      const [, [result]] = storageMock.saveTestCaseResults.mock.calls[0];
+      expect(result.status).toBe(TestCaseResultStatus.SUCCESS);
+    });
+
     test("sets mandatory flag correctly for non-mandatory versions", async () => {
       const nonMandatoryTestRun = createMockTestRun("V2.1", ["product1"]);
       storageMock.getTestRun.mockResolvedValue(nonMandatoryTestRun);
 
       const payload = {
-        type: EventTypesV2.REJECTED,
+        ...cloudEvent(EventTypesV2.REJECTED),
         data: {
           requestEventId: "run123/abc",
-          error: { code: "ERR", message: "Error" },
+          error: { code: "NotFound", message: "Error" },
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.saveTestCaseResults).toHaveBeenCalledWith(
         "run123",
@@ -616,16 +845,62 @@ describe("EventHandler", () => {
       storageMock.getTestRun.mockResolvedValue(testRun);
 
       const payload = {
-        type: EventTypesV2.REJECTED,
+        ...cloudEvent(EventTypesV2.REJECTED),
         data: {
           requestEventId: "run123/abc",
-          error: { code: "ERR", message: "Error" },
+          error: { code: "NotFound", message: "Error" },
         },
       };
 
-      await (handler as any).processEvent(payload, "/2/events");
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
 
       expect(storageMock.updateTestRunStatus).toHaveBeenCalledWith("run123");
     });
   });
-});
\ No newline at end of file
+
+  describe("progress events", () => {
+    test("emits the callback result and updated run status to subscribers", async () => {
+      const progress = new ProgressEmitter();
+      handler = new EventHandler(storageMock, progress);
+      const testRun = { ...createMockTestRun("V2.2", ["p1"]), status: "PASS", passingPercentage: 100 };
+      storageMock.getTestRun.mockResolvedValue(testRun);
+      const events: any[] = [];
+      progress.subscribe("run123", (event) => events.push(event));
+
+      const payload = {
+        ...cloudEvent(EventTypesV2.REJECTED),
+        data: { requestEventId: "run123/abc", error: { code: "NotFound", message: "failed" } },
+      };
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: TestRunProgressEventType.TESTCASE_FINISHED,
+          testRunId: "run123",
+          testKey: "TESTCASE#14.B",
+          result: expect.objectContaining({ status: TestCaseResultStatus.SUCCESS }),
+        }),
+        expect.objectContaining({
+          type: TestRunProgressEventType.TESTRUN_UPDATED,
+          testRunId: "run123",
+          status: "PASS",
+          passingPercentage: 100,
+        }),
+      ]);
+    });
+
+    test("does not reload the test run when nobody is subscribed", async () => {
+      const progress = new ProgressEmitter();
+      handler = new EventHandler(storageMock, progress);
+      storageMock.getTestRun.mockResolvedValue(createMockTestRun("V2.2", ["p1"]));
+
+      const payload = {
+        ...cloudEvent(EventTypesV2.REJECTED),
+        data: { requestEventId: "run123/abc", error: { code: "NotFound", message: "failed" } },
+      };
+      await (handler as any).processEvent(payload, "/2/events", AUTHORIZATION, CONTENT_TYPE);
+
+      expect(storageMock.getTestRun).toHaveBeenCalledTimes(1);
+    });
+  });
+});
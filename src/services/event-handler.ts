@@ -1,13 +1,16 @@
-import Ajv from "ajv";
+import Ajv, { ErrorObject } from "ajv";
 import * as jwt from "jsonwebtoken";
 import addFormats from "ajv-formats";
 import betterErrors from "ajv-errors";
 import config from "../config";
 import { TestStorage } from "./types";
-import { EventTypesV2, EventTypesV3, TestResult, TestCaseResultStatus, TestRun } from "./types";
+import { EventTypesV2, EventTypesV3, TestResult, TestCaseResultStatus, TestRun, TestRunProgressEventType } from "./types";
+import { CallbackAuthentication, ClientAuthMethod } from "./types";
+import { ProgressEmitter } from "./progress-emitter";
 import { getSchema } from "../schemas";
 import logger from "../utils/logger";
-import { BadRequestError, UnauthorizedError, NotFoundError } from "../errors";
+import { BadRequestError, UnauthorizedError, OAuthError } from "../errors";
+import { verifyCallbackSecret } from "../utils/callbackCredentials";
 
 // Initialize Ajv validator
 const ajv = new Ajv({ allErrors: true });
@@ -17,6 +20,29 @@ betterErrors(ajv);
 const TEST_CASE_13_NAME = "Test Case 13: Respond to Asynchronous PCF Request";
 const TEST_CASE_14_NAME = "Test Case 14.B: Handle Rejected PCF Request";
 const MANDATORY_VERSIONS = ["V2.2", "V2.3", "V3.0"];
+const TOKEN_LIFETIME_SECONDS = 3600;
+const CLOUDEVENTS_CONTENT_TYPE = "application/cloudevents+json";
+
+// Attributes of the CloudEvents 1.0 envelope every PACT event must have
+const validateCloudEventEnvelope = ajv.compile({
+  type: "object",
+  required: ["specversion", "id", "source", "time", "type"],
+  properties: {
+    specversion: { const: "1.0" },
+    id: { type: "string", minLength: 1 },
+    source: { type: "string", minLength: 1, format: "uri-reference" },
+    time: { type: "string", format: "date-time" },
+    type: { type: "string", minLength: 1 },
+  },
+});
+
+// Describes each schema violation, e.g. "data.error must have required property 'code'"
+const describeSchemaErrors = (errors: ErrorObject[] | null | undefined): string[] =>
+  (errors ?? []).map((error) => {
+    const path = error.instancePath ? error.instancePath.slice(1).replace(/\//g, ".") : "event";
+    const allowed = error.params.allowedValue ?? error.params.allowedValues;
+    return `${path} ${error.message}${allowed !== undefined ? `: ${JSON.stringify(allowed)}` : ""}`;
+  });
 
 export interface EventData {
   requestEventId: string;
@@ -33,6 +59,14 @@ export interface EventPayload {
 export interface AuthRequest {
   clientId: string;
   clientSecret: string;
+  // How the client sent its credentials, defaults to client_secret_basic
+  authMethod?: ClientAuthMethod;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number;
 }
 
 /**
@@ -41,28 +75,115 @@ export interface AuthRequest {
  */
 export class EventHandler {
   
-  constructor(private storage: TestStorage) {}
+  /**
+   * @param issuerUrl - Base URL the tested APIs reach this service on, used in the OpenID
+   * configuration. Defaults to CONFORMANCE_API.
+   */
+  constructor(
+    private storage: TestStorage,
+    private progress?: ProgressEmitter,
+    private issuerUrl: string = config.CONFORMANCE_API
+  ) {}
+
+  /**
+   * OpenID configuration of the callback auth server, the tested APIs discover the token
+   * endpoint with it, like the test cases do for the tested APIs.
+   */
+  getOpenIdConfiguration() {
+    return {
+      issuer: this.issuerUrl,
+      token_endpoint: `${this.issuerUrl}/auth/token`,
+      grant_types_supported: ["client_credentials"],
+      token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+      response_types_supported: ["token"],
+    };
+  }
 
   /**
-   * Authenticate client credentials and generate JWT token
+   * Authenticate the callback credentials of a test run and generate a JWT token for the
+   * callbacks of that test run. The client ID of the credentials is the test run ID.
+   * @throws OAuthError invalid_client if the credentials are missing or invalid.
    */
-  async authenticate(authRequest: AuthRequest): Promise<{ access_token: string }> {
+  async authenticate(authRequest: AuthRequest): Promise<TokenResponse> {
     if (!authRequest.clientId || !authRequest.clientSecret) {
-      throw new BadRequestError("Missing client credentials");
+      throw new OAuthError(401, "invalid_client", "Missing client credentials");
     }
 
-    if (authRequest.clientId !== "test_client_id" || authRequest.clientSecret !== "test_client_secret") {
-      throw new UnauthorizedError("Invalid client credentials");
+    const secretHash = await this.getCallbackSecretHashOfClient(authRequest.clientId);
+    if (!secretHash || !verifyCallbackSecret(authRequest.clientSecret, secretHash)) {
+      throw new OAuthError(401, "invalid_client", "Invalid client credentials");
     }
-    const token = jwt.sign({ clientId: authRequest.clientId }, config.JWT_SECRET, { expiresIn: "1h" });
+    const testRunId = authRequest.clientId;
+    const authMethod = authRequest.authMethod ?? "client_secret_basic";
+    const token = jwt.sign(
+      { clientId: authRequest.clientId, testRunId, authMethod },
+      config.JWT_SECRET,
+      { expiresIn: TOKEN_LIFETIME_SECONDS }
+    );
+    logger.info(`Issued callback token for test run ${testRunId} (${authMethod})`);
+
+    return { access_token: token, token_type: "Bearer", expires_in: TOKEN_LIFETIME_SECONDS };
+  }
 
-    return { access_token: token };
+  /**
+   * Retrieves the hash of the callback secret of the test run of callback credentials.
+   * @returns undefined if no test run exists for the client ID.
+   */
+  private async getCallbackSecretHashOfClient(clientId: string): Promise<string | undefined> {
+    // Test run IDs are UUIDs, do not query the storage for anything else
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(clientId)) {
+      return undefined;
+    }
+    return await this.storage.getCallbackSecretHash(clientId);
   }
 
   /**
-   * Process callback events from tested client APIs
+   * Verifies the bearer token of a callback: it must be signed with JWT_SECRET, must not be
+   * expired, and must be issued for the callback credentials of the test run.
    */
-  async processEvent(eventPayload: EventPayload, requestPath: string): Promise<void> {
+  verifyCallbackToken(authHeader: string | undefined, testRunId: string): CallbackAuthentication {
+    if (!authHeader?.startsWith("Bearer ")) {
+      return { authenticated: false, reason: "Missing bearer token in Authorization header" };
+    }
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(authHeader.slice("Bearer ".length).trim(), config.JWT_SECRET) as jwt.JwtPayload;
+    } catch (error: any) {
+      return {
+        authenticated: false,
+        reason: error?.name === "TokenExpiredError" ? "Access token has expired" : `Invalid access token (${error?.message})`,
+      };
+    }
+
+    if (claims.testRunId !== testRunId) {
+      return {
+        authenticated: false,
+        clientId: claims.clientId,
+        reason: `Access token was issued for test run ${claims.testRunId}, not for test run ${testRunId}`,
+      };
+    }
+    return {
+      authenticated: true,
+      clientId: claims.clientId,
+      ...(claims.authMethod && { authMethod: claims.authMethod }),
+    };
+  }
+
+  /**
+   * Process callback events from tested client APIs. Events must be authenticated with a
+   * token of /auth/token. An unauthenticated callback is rejected without changing any result,
+   * so nobody can fail a test run by guessing its ID. A callback test case which never
+   * receives an authenticated callback is failed by the CallbackSweeper. Events sent without
+   * the CloudEvents content type or envelope fail their test case.
+   * @throws UnauthorizedError if the event is not authenticated.
+   */
+  async processEvent(
+    eventPayload: EventPayload,
+    requestPath: string,
+    authHeader?: string,
+    contentType?: string
+  ): Promise<void> {
     // Validate event payload
     if (!eventPayload) {
       throw new BadRequestError("Request body is missing");
@@ -79,21 +200,50 @@ export class EventHandler {
       ? eventPayload.data.requestEventId
       : eventPayload.data.requestEventId.slice(0, slashIndex);
 
+    // Authenticate before loading the test run, so unauthenticated callers can not probe for test runs
+    const callbackAuthentication = this.verifyCallbackToken(authHeader, testRunId);
+    if (!callbackAuthentication.authenticated) {
+      logger.warn(`Unauthenticated callback for test run ${testRunId}: ${callbackAuthentication.reason}`);
+      throw new UnauthorizedError(`Callback was not authenticated: ${callbackAuthentication.reason}`);
+    }
+
     // Will throw an error if not found
     const testRun = await this.storage.getTestRun(testRunId);
 
+    const isFulfilled = eventPayload.type === EventTypesV2.FULFILLED || eventPayload.type === EventTypesV3.FULFILLED;
+    const isRejected = eventPayload.type === EventTypesV2.REJECTED || eventPayload.type === EventTypesV3.REJECTED;
+
+    const envelopeViolations = this.validateCloudEvent(eventPayload, contentType);
+
     // Process fulfilled events
-    if (eventPayload.type === EventTypesV2.FULFILLED || eventPayload.type === EventTypesV3.FULFILLED) {
-      await this.processFulfilledEvent(eventPayload, testRunId, testRun, requestPath);
+    if (isFulfilled) {
+      await this.processFulfilledEvent(eventPayload, testRunId, testRun, requestPath, callbackAuthentication, envelopeViolations);
     }
     // Process rejected events  
-    else if (eventPayload.type === EventTypesV2.REJECTED || eventPayload.type === EventTypesV3.REJECTED) {
-      await this.processRejectedEvent(eventPayload, testRunId, testRun, requestPath);
+    else if (isRejected) {
+      await this.processRejectedEvent(eventPayload, testRunId, testRun, requestPath, callbackAuthentication, envelopeViolations);
     }
     
     // Note: Other event types are silently ignored per original logic
   }
 
+  /**
+   * Checks the content type and the CloudEvents 1.0 envelope (specversion, id, source, time
+   * and type) of a callback event.
+   * @returns A description of every violation, empty if the event is valid.
+   */
+  private validateCloudEvent(eventPayload: EventPayload, contentType?: string): string[] {
+    const violations: string[] = [];
+    const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+    if (mediaType !== CLOUDEVENTS_CONTENT_TYPE) {
+      violations.push(`Invalid content type: expected ${CLOUDEVENTS_CONTENT_TYPE}, but received ${contentType ?? "none"}`);
+    }
+    if (!validateCloudEventEnvelope(eventPayload)) {
+      violations.push(...describeSchemaErrors(validateCloudEventEnvelope.errors));
+    }
+    return violations;
+  }
+
   /**
    * Process fulfilled events (Test Case 13)
    */
@@ -101,7 +251,9 @@ export class EventHandler {
     eventPayload: EventPayload, 
     testRunId: string,
     testRun: TestRun, 
-    requestPath: string
+    requestPath: string,
+    callbackAuthentication: CallbackAuthentication,
+    envelopeViolations: string[]
   ): Promise<void> {
     const isMandatory = MANDATORY_VERSIONS.includes(testRun.techSpecVersion);
 
@@ -114,9 +266,18 @@ export class EventHandler {
     const expectedPath = testRun.techSpecVersion.startsWith("V2") ? "/2/events" : "/3/events";
     const isPathValid = requestPath === expectedPath;
 
+    const violations: string[] = [];
+    if (!eventIsValid) {
+      violations.push(`Event validation failed: ${JSON.stringify(validateEvent.errors)}`);
+    }
+    violations.push(...envelopeViolations);
+    if (!isPathValid) {
+      violations.push(`Invalid request path: expected ${expectedPath}, but received ${requestPath}`);
+    }
+
     let testResult: TestResult;
 
-    if (eventIsValid && isPathValid) {
+    if (violations.length === 0) {
       testResult = {
         name: TEST_CASE_13_NAME,
         status: TestCaseResultStatus.SUCCESS,
@@ -127,21 +288,12 @@ export class EventHandler {
           : "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-13-respond-to-pcf-request-fulfilled-event",
       };
     } else {
-      let errorMessage = "";
-      if (!eventIsValid) {
-        errorMessage += `Event validation failed: ${JSON.stringify(validateEvent.errors)}`;
-      }
-      if (!isPathValid) {
-        if (errorMessage) errorMessage += "; ";
-        errorMessage += `Invalid request path: expected ${expectedPath}, but received ${requestPath}`;
-      }
-
       testResult = {
         name: TEST_CASE_13_NAME,
         status: TestCaseResultStatus.FAILURE,
         mandatory: isMandatory,
         testKey: "TESTCASE#13",
-        errorMessage,
+        errorMessage: violations.join("; "),
         documentationUrl: testRun.techSpecVersion.startsWith("V2")
           ? "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-13-respond-to-pcf-request-fulfilled-event"
           : "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-13-respond-to-pcf-request-fulfilled-event",
@@ -168,20 +320,26 @@ export class EventHandler {
       }
     }
 
+    testResult.callbackAuthentication = callbackAuthentication;
+
     // Save this test result, changing it from PEMNDING to eiter SUCCESS or FAILURE, 
     // and then update the overall test run status accordingly.   
     await this.storage.saveTestCaseResults(testRunId, [testResult], true);
     await this.storage.updateTestRunStatus(testRunId);
+    await this.emitCallbackResult(testRunId, testResult);
   }
 
   /**
-   * Process rejected events (Test Case 14.B)
+   * Process rejected events (Test Case 14.B). The event is validated against the
+   * RequestRejectedEvent schema, and every violation is listed in the error message.
    */
   private async processRejectedEvent(
     eventPayload: EventPayload,
     testRunId: string,
     testRun: TestRun,
-    requestPath: string
+    requestPath: string,
+    callbackAuthentication: CallbackAuthentication,
+    envelopeViolations: string[]
   ): Promise<void> {
     logger.info("Processing rejected event:", JSON.stringify(eventPayload, null, 2));
 
@@ -191,15 +349,21 @@ export class EventHandler {
     const expectedPath = testRun.techSpecVersion.startsWith("V2") ? "/2/events" : "/3/events";
     const isPathValid = requestPath === expectedPath;
 
-    // Validate error object
-    const hasValidErrorObject = 
-      eventPayload.data.error && 
-      eventPayload.data.error.code && 
-      eventPayload.data.error.message;
+    // Validate event against schema, the envelope violations are also reported by the
+    // schema of V3 events, only list them once
+    const schemas = await getSchema(testRun.techSpecVersion);
+    const validateEvent = ajv.compile(schemas.events?.rejected);
+    const violations = new Set(envelopeViolations);
+    if (!validateEvent(eventPayload)) {
+      describeSchemaErrors(validateEvent.errors).forEach((violation) => violations.add(violation));
+    }
+    if (!isPathValid) {
+      violations.add(`Invalid request path: expected ${expectedPath}, but received ${requestPath}`);
+    }
 
     let testResult: TestResult;
 
-    if (hasValidErrorObject && isPathValid) {
+    if (violations.size === 0) {
       testResult = {
         name: TEST_CASE_14_NAME,
         status: TestCaseResultStatus.SUCCESS,
@@ -210,50 +374,100 @@ export class EventHandler {
           : "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-14-respond-to-pcf-request-rejected-event",
       };
     } else {
-      let errorMessage = "";
-      if (!hasValidErrorObject) {
-        errorMessage += "Rejected event must contain an error object with a code and message";
-      }
-      if (!isPathValid) {
-        if (errorMessage) errorMessage += "; ";
-        errorMessage += `Invalid request path: expected ${expectedPath}, but received ${requestPath}`;
-      }
-
       testResult = {
         name: TEST_CASE_14_NAME,
         status: TestCaseResultStatus.FAILURE,
         mandatory: isMandatory,
         testKey: "TESTCASE#14.B",
-        errorMessage,
+        errorMessage: [...violations].join("; "),
         documentationUrl: testRun.techSpecVersion.startsWith("V2")
           ? "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-14-respond-to-pcf-request-rejected-event"
           : "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-14-respond-to-pcf-request-rejected-event",
       };
     }
 
+    testResult.callbackAuthentication = callbackAuthentication;
+
     // Save this test result, changing it from PEMNDING to eiter SUCCESS or FAILURE, 
     // and then update the overall test run status accordingly.   
     await this.storage.saveTestCaseResults(testRunId, [testResult], true);
     await this.storage.updateTestRunStatus(testRunId);
+    await this.emitCallbackResult(testRunId, testResult);
   }
 
   /**
-   * Parse Basic authentication header
+   * Notify subscribers of a test run that a callback test case has been resolved.
    */
-  parseBasicAuth(authHeader?: string): AuthRequest {
-    if (!authHeader || !authHeader.startsWith("Basic ")) {
-      throw new BadRequestError("Missing or invalid Authorization header");
+  private async emitCallbackResult(testRunId: string, testResult: TestResult): Promise<void> {
+    if (!this.progress?.hasSubscribers(testRunId)) {
+      return;
     }
+    this.progress.emit({
+      type: TestRunProgressEventType.TESTCASE_FINISHED,
+      testRunId,
+      timestamp: new Date().toISOString(),
+      testKey: testResult.testKey,
+      name: testResult.name,
+      result: testResult,
+    });
+    // The test run status may have changed, e.g. from PENDING to PASS.
+    const testRun = await this.storage.getTestRun(testRunId);
+    this.progress.emit({
+      type: TestRunProgressEventType.TESTRUN_UPDATED,
+      testRunId,
+      timestamp: new Date().toISOString(),
+      status: testRun.status,
+      passingPercentage: testRun.passingPercentage,
+    });
+  }
 
-    const base64Credentials = authHeader.slice("Basic ".length).trim();
-    const credentials = Buffer.from(base64Credentials, "base64").toString("utf8");
-    const [clientId, clientSecret] = credentials.split(":");
+  /**
+   * Parses a client credentials token request (RFC 6749, section 4.4). The client sends its
+   * credentials either with HTTP Basic authentication (client_secret_basic) or as client_id
+   * and client_secret in the form body (client_secret_post), but not both.
+   * @throws OAuthError with the error code of RFC 6749, section 5.2.
+   */
+  parseTokenRequest(authHeader: string | undefined, body: Record<string, unknown> = {}): AuthRequest {
+    if (!body.grant_type) {
+      throw new OAuthError(400, "invalid_request", "Missing grant_type");
+    }
+    if (body.grant_type !== "client_credentials") {
+      throw new OAuthError(400, "unsupported_grant_type",
+        `Unsupported grant_type ${body.grant_type}, only client_credentials is supported`);
+    }
 
-    if (!clientId || !clientSecret) {
-      throw new BadRequestError("Invalid Basic authentication format");
+    if (!authHeader?.startsWith("Basic ")) {
+      if (typeof body.client_id !== "string" || typeof body.client_secret !== "string") {
+        throw new OAuthError(401, "invalid_client",
+          "Missing client credentials, use HTTP Basic authentication or client_id and client_secret in the request body");
+      }
+      return { clientId: body.client_id, clientSecret: body.client_secret, authMethod: "client_secret_post" };
+    }
+
+    if (body.client_secret !== undefined) {
+      throw new OAuthError(400, "invalid_request",
+        "Client credentials must be sent either in the Authorization header or in the request body, not both");
     }
 
-    return { clientId, clientSecret };
+    // Client ID and secret are form encoded before they are joined, the secret may contain colons
+    const credentials = Buffer.from(authHeader.slice("Basic ".length).trim(), "base64").toString("utf8");
+    const separator = credentials.indexOf(":");
+    const clientId = formDecode(credentials.slice(0, Math.max(separator, 0)));
+    const clientSecret = formDecode(credentials.slice(separator + 1));
+
+    if (separator === -1 || !clientId || !clientSecret) {
+      throw new OAuthError(401, "invalid_client", "Invalid Basic authentication format");
+    }
+
+    return { clientId, clientSecret, authMethod: "client_secret_basic" };
   }
 }
 
+// Decodes an application/x-www-form-urlencoded value, keeps values which are not encoded
+const formDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+};
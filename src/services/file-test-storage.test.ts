@@ -0,0 +1,120 @@
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { FileTestStorage } from "./file-test-storage";
+import { NotFoundError, ValidationError } from "../errors";
+import { TestCaseResultStatus, TestResult, TestRun, TestRunStatus } from "./types";
+
+describe("FileTestStorage", () => {
+  let directory: string;
+  let storage: FileTestStorage;
+
+  const testRun: TestRun = {
+    testRunId: "test-run-123",
+    organizationName: "Acme Corp",
+    adminEmail: "admin@acme.com",
+    adminName: "John Doe",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    status: TestRunStatus.FAIL,
+    techSpecVersion: "V3.0",
+    data: null,
+  };
+
+  const result = (testKey: string, status: TestCaseResultStatus): TestResult => ({
+    testKey,
+    name: `Test Case ${testKey}`,
+    status,
+    mandatory: true,
+  } as TestResult);
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "pact-test-runs-"));
+    storage = new FileTestStorage(directory);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("persists test runs and results for other instances", async () => {
+    await storage.saveTestRun(testRun);
+    await storage.saveTestCaseResults(testRun.testRunId, [result("TESTCASE#1", TestCaseResultStatus.SUCCESS)], false);
+
+    const reopened = new FileTestStorage(directory);
+    expect(await reopened.getTestRunWithResults(testRun.testRunId)).toEqual({
+      ...testRun,
+      results: [result("TESTCASE#1", TestCaseResultStatus.SUCCESS)],
+    });
+    expect(readdirSync(directory)).toEqual(["test-run-123.json"]);
+  });
+
+  it("only overwrites existing results when requested", async () => {
+    await storage.saveTestRun(testRun);
+    await storage.saveTestCaseResults(testRun.testRunId, [result("TESTCASE#1", TestCaseResultStatus.PENDING)], false);
+
+    await storage.saveTestCaseResults(testRun.testRunId, [result("TESTCASE#1", TestCaseResultStatus.FAILURE)], false);
+    expect((await storage.getTestRunWithResults(testRun.testRunId)).results[0].status).toBe(TestCaseResultStatus.PENDING);
+
+    await storage.saveTestCaseResults(testRun.testRunId, [result("TESTCASE#1", TestCaseResultStatus.SUCCESS)], true);
+    expect((await storage.getTestRunWithResults(testRun.testRunId)).results[0].status).toBe(TestCaseResultStatus.SUCCESS);
+  });
+
+  it("updates the status from the mandatory results", async () => {
+    await storage.saveTestRun(testRun);
+    await storage.saveTestCaseResults(testRun.testRunId, [
+      result("TESTCASE#1", TestCaseResultStatus.SUCCESS),
+      result("TESTCASE#2", TestCaseResultStatus.FAILURE),
+    ], false);
+
+    await storage.updateTestRunStatus(testRun.testRunId);
+
+    expect(await storage.getTestRun(testRun.testRunId)).toEqual({
+      ...testRun,
+      status: TestRunStatus.FAIL,
+      passingPercentage: 50,
+    });
+  });
+
+  it("redacts credentials before saving", async () => {
+    await storage.saveTestRun(testRun);
+    await storage.saveTestCaseResults(testRun.testRunId, [
+      { ...result("TESTCASE#1", TestCaseResultStatus.FAILURE), curlRequest: "curl -H 'Authorization: Bearer secret-token'" },
+    ], false);
+
+    const { results } = await storage.getTestRunWithResults(testRun.testRunId);
+    expect(results[0].curlRequest).toBe("curl -H 'Authorization: Bearer [REDACTED]'");
+  });
+
+  it("only returns the hash of the callback secret to authenticate callbacks", async () => {
+    const callbackCredentials = { clientId: testRun.testRunId, clientSecret: "callback-secret", secretHash: "sha256:abc" };
+    await storage.saveTestRun({ ...testRun, callbackCredentials });
+    await storage.saveTestCaseResults(testRun.testRunId, [result("TESTCASE#1", TestCaseResultStatus.SUCCESS)], false);
+    await storage.updateTestRunStatus(testRun.testRunId);
+
+    const shown = [
+      await storage.getTestRunWithResults(testRun.testRunId),
+      await storage.getTestRun(testRun.testRunId),
+      ...(await storage.listTestRuns({})),
+    ];
+    for (const testRunShown of shown) {
+      expect(testRunShown.callbackCredentials).toEqual({ clientId: testRun.testRunId });
+    }
+    expect(await storage.getCallbackSecretHash(testRun.testRunId)).toBe("sha256:abc");
+    expect(await storage.getCallbackSecretHash("unknown")).toBeUndefined();
+  });
+
+  it("lists test runs, newest first, without results", async () => {
+    await storage.saveTestRun(testRun);
+    await storage.saveTestRun({ ...testRun, testRunId: "test-run-456", organizationName: "Other Corp", adminEmail: "admin@other.com", timestamp: "2024-02-01T00:00:00.000Z" });
+
+    const testRuns = await storage.listTestRuns({});
+    expect(testRuns.map((r) => r.testRunId)).toEqual(["test-run-456", "test-run-123"]);
+    expect(testRuns[0]).not.toHaveProperty("results");
+    expect((await storage.listTestRuns({ query: "acme" })).map((r) => r.testRunId)).toEqual(["test-run-123"]);
+  });
+
+  it("throws NotFoundError for unknown test runs and rejects IDs outside the directory", async () => {
+    await expect(storage.getTestRun("unknown")).rejects.toThrow(NotFoundError);
+    await expect(storage.getTestRun("../secrets")).rejects.toThrow(ValidationError);
+  });
+});
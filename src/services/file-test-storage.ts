@@ -0,0 +1,135 @@
+import { mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync, existsSync } from "fs";
+import path from "path";
+import { NotFoundError, ValidationError } from "../errors";
+import {
+  TestStorage,
+  TestResult,
+  TestRunWithResults,
+  TestRun,
+  PagingParameters,
+} from "./types";
+import { redactValue } from "../utils/redact";
+import { getTestRunStatus } from "../utils/testRunStatus";
+
+// The hash of the callback secret is only needed to authenticate callbacks, never show it
+const withoutCallbackSecret = <T extends TestRun>({ callbackCredentials, ...testRun }: T): T => ({
+  ...testRun,
+  ...(callbackCredentials && { callbackCredentials: { clientId: callbackCredentials.clientId } }),
+} as T);
+
+/**
+ * File-based implementation of TestStorage, which stores every test run with its results
+ * as a JSON file in a directory. Allows the CLI to list, show and compare previous test
+ * runs without needing a database.
+ */
+export class FileTestStorage implements TestStorage {
+
+  private static readonly DEFAULT_PAGE_SIZE = 50;
+
+  constructor(private directory: string) {
+    mkdirSync(directory, { recursive: true });
+  }
+
+  async saveTestRun(testRun: TestRun): Promise<void> {
+    const existing = this.readTestRun(testRun.testRunId);
+    // Keep the hash of the callback credentials, which is needed to authenticate callbacks
+    const callbackCredentials = testRun.callbackCredentials?.secretHash
+      ? testRun.callbackCredentials
+      : existing?.callbackCredentials ?? testRun.callbackCredentials;
+    // Test runs may be shared with others, never store credentials
+    this.writeTestRun(redactValue({ ...testRun, callbackCredentials, results: existing?.results ?? [] }));
+  }
+
+  async getTestRun(testRunId: string): Promise<TestRun> {
+    const { results, ...testRun } = await this.getTestRunWithResults(testRunId);
+    return testRun;
+  }
+
+  async updateTestRunStatus(testRunId: string): Promise<void> {
+    const testRun = this.readExistingTestRun(testRunId);
+    const updates = getTestRunStatus(testRun.results);
+    if (updates) {
+      this.writeTestRun({ ...testRun, ...updates });
+    }
+  }
+
+  async saveTestCaseResults(
+    testRunId: string,
+    testResults: TestResult[],
+    overwriteExisting: boolean
+  ): Promise<void> {
+    const testRun = this.readExistingTestRun(testRunId);
+    const results = [...testRun.results];
+
+    // Results may be shared with others, never store credentials
+    for (const testResult of testResults.map((result) => redactValue(result))) {
+      const index = results.findIndex((r) => r.testKey === testResult.testKey);
+      if (index < 0) {
+        results.push(testResult);
+      } else if (overwriteExisting) {
+        results[index] = testResult;
+      }
+    }
+
+    this.writeTestRun({ ...testRun, results });
+  }
+
+  async getTestRunWithResults(testRunId: string): Promise<TestRunWithResults> {
+    return withoutCallbackSecret(this.readExistingTestRun(testRunId));
+  }
+
+  async getCallbackSecretHash(testRunId: string): Promise<string | undefined> {
+    return this.readTestRun(testRunId)?.callbackCredentials?.secretHash;
+  }
+
+  async listTestRuns(
+    paging: PagingParameters,
+    adminEmail?: string
+  ): Promise<TestRun[]> {
+    const query = paging.query?.trim().toLowerCase();
+    const pageSize = paging.pageSize ? parseInt(paging.pageSize, 10) : FileTestStorage.DEFAULT_PAGE_SIZE;
+    const pageNum = Math.max(1, Number(paging.page) || 1);
+
+    return readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => this.readTestRun(path.basename(file, ".json")))
+      .filter((testRun): testRun is TestRunWithResults => testRun !== undefined)
+      .filter((testRun) => !adminEmail || testRun.adminEmail === adminEmail)
+      .filter((testRun) => !query || [testRun.organizationName, testRun.adminEmail, testRun.adminName]
+        .some((value) => value?.toLowerCase().includes(query)))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice((pageNum - 1) * pageSize, pageNum * pageSize)
+      .map(({ results, ...testRun }) => withoutCallbackSecret(testRun));
+  }
+
+  private getFile(testRunId: string): string {
+    // Test run IDs are used as file names, do not allow them to point outside the directory
+    if (!/^[\w-]+$/.test(testRunId)) {
+      throw new ValidationError(`Invalid test run ID: ${testRunId}`);
+    }
+    return path.join(this.directory, `${testRunId}.json`);
+  }
+
+  private readExistingTestRun(testRunId: string): TestRunWithResults {
+    const testRun = this.readTestRun(testRunId);
+    if (!testRun) {
+      throw new NotFoundError(`Test run ${testRunId} not found in ${this.directory}`);
+    }
+    return testRun;
+  }
+
+  private readTestRun(testRunId: string): TestRunWithResults | undefined {
+    const file = this.getFile(testRunId);
+    if (!existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(file, "utf8"));
+  }
+
+  private writeTestRun(testRun: TestRunWithResults): void {
+    // Write to a temporary file first, so a run interrupted while saving does not leave a broken file
+    const file = this.getFile(testRun.testRunId);
+    writeFileSync(`${file}.tmp`, JSON.stringify(testRun, null, 2));
+    renameSync(`${file}.tmp`, file);
+  }
+}
@@ -1,13 +1,24 @@
 import { Kysely } from 'kysely';
+import config from '../config';
+import logger from '../utils/logger';
 import { DB } from '../data/types';
 import { TestRunRepository } from './test-run-repository';
 import { TestRunWorker } from './test-run-worker';
 import { EventHandler } from './event-handler';
+import { TestRunQueue } from './test-run-queue';
+import { ProgressEmitter } from './progress-emitter';
+import { CertificateService } from './certificate-service';
+import { CallbackSweeper } from './callback-sweeper';
 
 export interface Services {
   repository: TestRunRepository;
   worker: TestRunWorker;
   eventHandler: EventHandler;
+  queue: TestRunQueue;
+  sweeper: CallbackSweeper;
+  progress: ProgressEmitter;
+  // Not set if certificates are not configured
+  certificates?: CertificateService;
 }
 
 export class ServiceContainer implements Services {
@@ -15,11 +26,44 @@ export class ServiceContainer implements Services {
   repository: TestRunRepository;
   worker: TestRunWorker;
   eventHandler: EventHandler;
+  queue: TestRunQueue;
+  sweeper: CallbackSweeper;
+  progress: ProgressEmitter;
+  certificates?: CertificateService;
 
   constructor(db: Kysely<DB>) {
-    this.repository = new TestRunRepository(db);
-    this.worker = new TestRunWorker(this.repository);
-    this.eventHandler = new EventHandler(this.repository);
+    this.progress = new ProgressEmitter();
+    this.certificates = createCertificateService();
+    this.repository = new TestRunRepository(db, this.certificates);
+    this.worker = new TestRunWorker(this.repository, this.progress);
+    this.eventHandler = new EventHandler(this.repository, this.progress);
+    this.queue = new TestRunQueue(db, this.repository, this.worker);
+    this.sweeper = new CallbackSweeper(db, this.repository, this.progress);
   }
   
 }
+
+/**
+ * Creates the certificate service from the configured keys. Outside of production, a
+ * temporary key pair is generated if no keys are configured, certificates issued with it
+ * can not be verified after a restart.
+ * @returns undefined if certificates are not configured.
+ */
+function createCertificateService(): CertificateService | undefined {
+  const certificates = CertificateService.fromKeys(
+    config.CERTIFICATE_PRIVATE_KEY,
+    config.CERTIFICATE_PUBLIC_KEY,
+    config.CERTIFICATE_KEY_ID
+  );
+  if (certificates) {
+    return certificates;
+  }
+  if (config.NODE_ENV === "production") {
+    logger.warn("CERTIFICATE_PRIVATE_KEY is not set, no certificates will be issued for passing test runs");
+    return undefined;
+  }
+
+  logger.warn("CERTIFICATE_PRIVATE_KEY is not set, using a temporary key pair for signing certificates");
+  const keys = CertificateService.generateKeyPair();
+  return new CertificateService(keys.privateKey, keys.publicKey);
+}
@@ -0,0 +1,47 @@
+import { ProgressEmitter } from "./progress-emitter";
+import { TestRunProgressEvent, TestRunProgressEventType } from "./types";
+
+describe("ProgressEmitter", () => {
+  const event = (testRunId: string): TestRunProgressEvent => ({
+    type: TestRunProgressEventType.TESTCASE_STARTED,
+    testRunId,
+    timestamp: "2024-01-01T00:00:00.000Z",
+    testKey: "TESTCASE#1",
+  });
+
+  it("delivers events only to the listeners of their test run", () => {
+    const progress = new ProgressEmitter();
+    const listener = jest.fn();
+    const otherListener = jest.fn();
+    progress.subscribe("test-run-1", listener);
+    progress.subscribe("test-run-2", otherListener);
+
+    progress.emit(event("test-run-1"));
+
+    expect(listener).toHaveBeenCalledWith(event("test-run-1"));
+    expect(otherListener).not.toHaveBeenCalled();
+  });
+
+  it("stops delivering events after unsubscribing", () => {
+    const progress = new ProgressEmitter();
+    const listener = jest.fn();
+    const unsubscribe = progress.subscribe("test-run-1", listener);
+
+    unsubscribe();
+    progress.emit(event("test-run-1"));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("tells whether a test run has subscribers", () => {
+    const progress = new ProgressEmitter();
+    expect(progress.hasSubscribers("test-run-1")).toBe(false);
+
+    const unsubscribe = progress.subscribe("test-run-1", jest.fn());
+    expect(progress.hasSubscribers("test-run-1")).toBe(true);
+    expect(progress.hasSubscribers("test-run-2")).toBe(false);
+
+    unsubscribe();
+    expect(progress.hasSubscribers("test-run-1")).toBe(false);
+  });
+});
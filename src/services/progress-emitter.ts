@@ -0,0 +1,46 @@
+import { EventEmitter } from "events";
+import { TestRunProgressEvent } from "./types";
+
+export type ProgressListener = (event: TestRunProgressEvent) => void;
+
+/**
+ * ProgressEmitter publishes progress events of test runs, like a test case being
+ * started or finished by the TestRunWorker or resolved by a callback in the EventHandler.
+ * Listeners subscribe to the events of a single test run, e.g. to stream them to a client.
+ *
+ * Events are only delivered to listeners within the same process.
+ */
+export class ProgressEmitter {
+
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every open stream adds a listener, so do not warn about "leaks".
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publishes an event to all listeners of the event's test run.
+   */
+  emit(event: TestRunProgressEvent): void {
+    this.emitter.emit(event.testRunId, event);
+  }
+
+  /**
+   * Subscribes to the progress events of a test run.
+   * @returns A function which removes the subscription.
+   */
+  subscribe(testRunId: string, listener: ProgressListener): () => void {
+    this.emitter.on(testRunId, listener);
+    return () => {
+      this.emitter.off(testRunId, listener);
+    };
+  }
+
+  /**
+   * Returns whether anyone is listening to the events of a test run.
+   */
+  hasSubscribers(testRunId: string): boolean {
+    return this.emitter.listenerCount(testRunId) > 0;
+  }
+}
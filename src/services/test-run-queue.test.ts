@@ -0,0 +1,445 @@
+import { Kysely } from "kysely";
+import { TestRunQueue } from "./test-run-queue";
+import { TestRunWorker } from "./test-run-worker";
+import { TestRunRepository } from "./test-run-repository";
+import { DB } from "../data/types";
+import { BadRequestError, ConflictError, ValidationError } from "../errors";
+import { TestCaseResultStatus, TestRunJobKind, TestRunJobStatus, TestRunStatus } from "./types";
+
+// Mock dependencies
+jest.mock("../utils/logger", () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe("TestRunQueue", () => {
+  let queue: TestRunQueue;
+  let mockDb: jest.Mocked<Kysely<DB>>;
+  let storage: jest.Mocked<TestRunRepository>;
+  let worker: jest.Mocked<TestRunWorker>;
+
+  const params = {
+    baseUrl: "https://api.example.com",
+    clientId: "client-123",
+    clientSecret: "secret-456",
+    organizationName: "Test Org",
+    adminEmail: "admin@test.com",
+    adminName: "Admin User",
+    version: "V3.0" as const,
+  };
+
+  const testRun = {
+    testRunId: "test-run-123",
+    organizationName: "Test Org",
+    adminEmail: "admin@test.com",
+    adminName: "Admin User",
+    timestamp: "2024-01-01T00:00:00Z",
+    techSpecVersion: "V3.0",
+    status: TestRunStatus.PENDING,
+    data: null,
+  };
+
+  const results = [
+    { testKey: "TESTCASE#1", name: "Test Case 1", status: TestCaseResultStatus.SUCCESS, mandatory: true },
+    { testKey: "TESTCASE#13", name: "Test Case 13", status: TestCaseResultStatus.FAILURE, mandatory: true },
+  ];
+
+  // Helper function to create mock query builder
+  const createMockQueryBuilder = () => {
+    const mockBuilder: any = {
+      insertInto: jest.fn().mockReturnThis(),
+      updateTable: jest.fn().mockReturnThis(),
+      selectFrom: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      selectAll: jest.fn().mockReturnThis(),
+      forUpdate: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      returningAll: jest.fn().mockReturnThis(),
+      transaction: jest.fn().mockReturnThis(),
+      execute: jest.fn(),
+      executeTakeFirst: jest.fn(),
+    };
+    return mockBuilder;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb = createMockQueryBuilder() as any;
+    // Executes the callback of a transaction with the same mocked database
+    (mockDb.transaction().execute as jest.Mock).mockImplementation((callback) => callback(mockDb));
+    storage = {
+      withTransaction: jest.fn(() => storage),
+      saveTestRun: jest.fn(),
+      updateTestRunStatus: jest.fn(),
+      getTestRun: jest.fn().mockResolvedValue(testRun),
+      getTestRunWithResults: jest.fn().mockResolvedValue({ ...testRun, results }),
+    } as any;
+    worker = {
+      newTestRun: jest.fn().mockReturnValue(testRun),
+      executeTestRun: jest.fn(),
+      rerunTestRun: jest.fn(),
+    } as any;
+    queue = new TestRunQueue(mockDb, storage, worker);
+  });
+
+  describe("enqueue", () => {
+    it("should create a pending test run and insert a queued job", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockDb.insertInto.mockReturnValue(mockBuilder);
+
+      const result = await queue.enqueue(params);
+
+      expect(worker.newTestRun).toHaveBeenCalledWith(params, TestRunStatus.PENDING);
+      expect(storage.withTransaction).toHaveBeenCalledWith(mockDb);
+      expect(storage.saveTestRun).toHaveBeenCalledWith(testRun);
+      expect(mockDb.insertInto).toHaveBeenCalledWith("testRunJobs");
+      expect(mockBuilder.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          testRunId: "test-run-123",
+          status: TestRunJobStatus.QUEUED,
+          params,
+        })
+      );
+      expect(result).toBe(testRun);
+    });
+
+    it("should not insert a job when the test run cannot be created", async () => {
+      worker.newTestRun.mockImplementation(() => {
+        throw new Error("Invalid parameters");
+      });
+
+      await expect(queue.enqueue(params)).rejects.toThrow("Invalid parameters");
+      expect(storage.saveTestRun).not.toHaveBeenCalled();
+      expect(mockDb.insertInto).not.toHaveBeenCalled();
+    });
+
+    it("should save the test run and its job in one transaction", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.execute.mockRejectedValue(new Error("Connection lost"));
+      mockDb.insertInto.mockReturnValue(mockBuilder);
+
+      await expect(queue.enqueue(params)).rejects.toThrow("Connection lost");
+      expect(mockDb.transaction().execute).toHaveBeenCalledTimes(1);
+      expect(storage.withTransaction).toHaveBeenCalledWith(mockDb);
+    });
+  });
+
+  describe("enqueueRerun", () => {
+    it("should queue a rerun job with the parameters of the previous job", async () => {
+      const selectBuilder = createMockQueryBuilder();
+      selectBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-1",
+        testRunId: "test-run-123",
+        status: TestRunJobStatus.COMPLETED,
+        params,
+      });
+      mockDb.selectFrom.mockReturnValue(selectBuilder);
+      const insertBuilder = createMockQueryBuilder();
+      mockDb.insertInto.mockReturnValue(insertBuilder);
+
+      const result = await queue.enqueueRerun("test-run-123", ["TESTCASE#13"]);
+
+      expect(storage.saveTestRun).toHaveBeenCalledWith(
+        expect.objectContaining({ testRunId: "test-run-123", status: TestRunStatus.PENDING })
+      );
+      expect(insertBuilder.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          testRunId: "test-run-123",
+          kind: TestRunJobKind.RERUN,
+          status: TestRunJobStatus.QUEUED,
+          params,
+          testKeys: JSON.stringify(["TESTCASE#13"]),
+        })
+      );
+      expect(result.status).toBe(TestRunStatus.PENDING);
+    });
+
+    it("should require the client secret again once the previous job finished", async () => {
+      const { clientSecret, ...paramsWithoutSecret } = params;
+      const selectBuilder = createMockQueryBuilder();
+      selectBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-1",
+        testRunId: "test-run-123",
+        status: TestRunJobStatus.COMPLETED,
+        params: paramsWithoutSecret,
+      });
+      mockDb.selectFrom.mockReturnValue(selectBuilder);
+      const insertBuilder = createMockQueryBuilder();
+      mockDb.insertInto.mockReturnValue(insertBuilder);
+
+      await expect(queue.enqueueRerun("test-run-123")).rejects.toThrow(BadRequestError);
+      expect(storage.saveTestRun).not.toHaveBeenCalled();
+
+      await queue.enqueueRerun("test-run-123", undefined, "secret-789");
+      expect(insertBuilder.values).toHaveBeenCalledWith(
+        expect.objectContaining({ params: { ...paramsWithoutSecret, clientSecret: "secret-789" } })
+      );
+    });
+
+    it("should throw BadRequestError when the parameters of the test run are not available", async () => {
+      const selectBuilder = createMockQueryBuilder();
+      selectBuilder.executeTakeFirst.mockResolvedValue(undefined);
+      mockDb.selectFrom.mockReturnValue(selectBuilder);
+
+      await expect(queue.enqueueRerun("test-run-123")).rejects.toThrow(BadRequestError);
+      expect(mockDb.insertInto).not.toHaveBeenCalled();
+    });
+
+    it("should lock the test run before checking its latest job", async () => {
+      const lockBuilder = createMockQueryBuilder();
+      const selectBuilder = createMockQueryBuilder();
+      selectBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-1",
+        testRunId: "test-run-123",
+        status: TestRunJobStatus.COMPLETED,
+        params,
+      });
+      mockDb.selectFrom.mockReturnValueOnce(lockBuilder).mockReturnValue(selectBuilder);
+      mockDb.insertInto.mockReturnValue(createMockQueryBuilder());
+
+      await queue.enqueueRerun("test-run-123");
+
+      expect(mockDb.selectFrom).toHaveBeenNthCalledWith(1, "testRuns");
+      expect(lockBuilder.where).toHaveBeenCalledWith("id", "=", "test-run-123");
+      expect(lockBuilder.forUpdate).toHaveBeenCalled();
+      expect(mockDb.selectFrom).toHaveBeenNthCalledWith(2, "testRunJobs");
+    });
+
+    it("should throw ConflictError when the test run is still queued", async () => {
+      const selectBuilder = createMockQueryBuilder();
+      selectBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-1",
+        testRunId: "test-run-123",
+        status: TestRunJobStatus.QUEUED,
+        params,
+      });
+      mockDb.selectFrom.mockReturnValue(selectBuilder);
+
+      await expect(queue.enqueueRerun("test-run-123")).rejects.toThrow(ConflictError);
+      expect(storage.saveTestRun).not.toHaveBeenCalled();
+    });
+
+    describe("selection", () => {
+      beforeEach(() => {
+        const selectBuilder = createMockQueryBuilder();
+        selectBuilder.executeTakeFirst.mockResolvedValue({
+          id: "job-1",
+          testRunId: "test-run-123",
+          status: TestRunJobStatus.COMPLETED,
+          params,
+        });
+        mockDb.selectFrom.mockReturnValue(selectBuilder);
+      });
+
+      it("should throw BadRequestError without changing the status when there are no failed test cases", async () => {
+        storage.getTestRunWithResults.mockResolvedValue({
+          ...testRun,
+          status: TestRunStatus.PASS,
+          results: [results[0]],
+        } as any);
+
+        await expect(queue.enqueueRerun("test-run-123")).rejects.toThrow(
+          new BadRequestError("Test run test-run-123 has no failed test cases to rerun.")
+        );
+        expect(storage.saveTestRun).not.toHaveBeenCalled();
+        expect(mockDb.insertInto).not.toHaveBeenCalled();
+      });
+
+      it("should throw BadRequestError without changing the status when test keys have no results", async () => {
+        await expect(queue.enqueueRerun("test-run-123", ["TESTCASE#13", "TESTCASE#99"])).rejects.toThrow(
+          new BadRequestError("Test run test-run-123 has no results for the test cases TESTCASE#99.")
+        );
+        expect(storage.saveTestRun).not.toHaveBeenCalled();
+        expect(mockDb.insertInto).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("processNextJob", () => {
+    it("should return false when there are no queued jobs", async () => {
+      const claimBuilder = createMockQueryBuilder();
+      claimBuilder.executeTakeFirst.mockResolvedValue(undefined);
+      mockDb.updateTable.mockReturnValue(claimBuilder);
+
+      const processed = await queue.processNextJob();
+
+      expect(processed).toBe(false);
+      expect(worker.executeTestRun).not.toHaveBeenCalled();
+    });
+
+    it("should execute the claimed job and mark it completed", async () => {
+      const claimBuilder = createMockQueryBuilder();
+      claimBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-1",
+        testRunId: "test-run-123",
+        status: TestRunJobStatus.RUNNING,
+        params,
+        attempts: 1,
+      });
+      const completeBuilder = createMockQueryBuilder();
+      mockDb.updateTable
+        .mockReturnValueOnce(claimBuilder)
+        .mockReturnValueOnce(completeBuilder);
+
+      const processed = await queue.processNextJob();
+
+      expect(processed).toBe(true);
+      expect(storage.getTestRun).toHaveBeenCalledWith("test-run-123");
+      expect(worker.executeTestRun).toHaveBeenCalledWith(testRun, params);
+      const { clientSecret, ...paramsWithoutSecret } = params;
+      expect(completeBuilder.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: TestRunJobStatus.COMPLETED, params: paramsWithoutSecret })
+      );
+      expect(storage.updateTestRunStatus).toHaveBeenCalledWith("test-run-123", true);
+      expect(storage.saveTestRun).not.toHaveBeenCalled();
+    });
+
+    it("should refresh the lock of the job while it is executing", async () => {
+      jest.useFakeTimers();
+      const claimBuilder = createMockQueryBuilder();
+      claimBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-1",
+        testRunId: "test-run-123",
+        status: TestRunJobStatus.RUNNING,
+        params,
+        attempts: 1,
+      });
+      const heartbeatBuilder = createMockQueryBuilder();
+      mockDb.updateTable.mockReturnValueOnce(claimBuilder).mockReturnValue(heartbeatBuilder);
+      let finish: (value?: any) => void = () => {};
+      worker.executeTestRun.mockReturnValue(new Promise<any>((resolve) => { finish = resolve; }));
+
+      try {
+        const processing = queue.processNextJob();
+        await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+
+        expect(heartbeatBuilder.set).toHaveBeenCalledWith({ lockedAt: expect.any(String) });
+        expect(heartbeatBuilder.where).toHaveBeenCalledWith("status", "=", TestRunJobStatus.RUNNING);
+        const heartbeats = heartbeatBuilder.set.mock.calls.length;
+        expect(heartbeats).toBe(2);
+
+        finish();
+        await processing;
+        await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+        // Only the completion of the job, no further heartbeats
+        expect(heartbeatBuilder.set).toHaveBeenCalledTimes(heartbeats + 1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should rerun the test cases of a rerun job", async () => {
+      const claimBuilder = createMockQueryBuilder();
+      claimBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-2",
+        testRunId: "test-run-123",
+        kind: TestRunJobKind.RERUN,
+        status: TestRunJobStatus.RUNNING,
+        params,
+        testKeys: ["TESTCASE#13"],
+        attempts: 1,
+      });
+      mockDb.updateTable
+        .mockReturnValueOnce(claimBuilder)
+        .mockReturnValueOnce(createMockQueryBuilder());
+
+      await queue.processNextJob();
+
+      expect(worker.rerunTestRun).toHaveBeenCalledWith("test-run-123", params, ["TESTCASE#13"]);
+      expect(worker.executeTestRun).not.toHaveBeenCalled();
+    });
+
+    it("should mark the job and the test run as failed when execution throws", async () => {
+      const claimBuilder = createMockQueryBuilder();
+      claimBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-1",
+        testRunId: "test-run-123",
+        status: TestRunJobStatus.RUNNING,
+        params,
+        attempts: 1,
+      });
+      const failBuilder = createMockQueryBuilder();
+      mockDb.updateTable
+        .mockReturnValueOnce(claimBuilder)
+        .mockReturnValueOnce(failBuilder);
+      worker.executeTestRun.mockRejectedValue(new Error("Failed to obtain access token"));
+
+      const processed = await queue.processNextJob();
+
+      expect(processed).toBe(true);
+      expect(failBuilder.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: TestRunJobStatus.FAILED,
+          error: "Failed to obtain access token",
+        })
+      );
+      expect(storage.saveTestRun).toHaveBeenCalledWith(
+        expect.objectContaining({ testRunId: "test-run-123", status: TestRunStatus.FAIL })
+      );
+    });
+
+    it("should restore the status of the results when a rerun is rejected before executing", async () => {
+      const claimBuilder = createMockQueryBuilder();
+      claimBuilder.executeTakeFirst.mockResolvedValue({
+        id: "job-2",
+        testRunId: "test-run-123",
+        kind: TestRunJobKind.RERUN,
+        status: TestRunJobStatus.RUNNING,
+        params,
+        testKeys: null,
+        attempts: 1,
+      });
+      mockDb.updateTable
+        .mockReturnValueOnce(claimBuilder)
+        .mockReturnValueOnce(createMockQueryBuilder());
+      storage.getTestRunWithResults.mockResolvedValue({ ...testRun, results: [results[0]] } as any);
+      worker.rerunTestRun.mockRejectedValue(new ValidationError("Preflight failed, no test cases are rerun."));
+
+      await queue.processNextJob();
+
+      expect(storage.saveTestRun).toHaveBeenCalledTimes(1);
+      expect(storage.saveTestRun).toHaveBeenCalledWith(
+        expect.objectContaining({ testRunId: "test-run-123", status: TestRunStatus.PASS })
+      );
+    });
+  });
+
+  describe("requeueStaleJobs", () => {
+    it("should requeue stale jobs and fail the ones which were abandoned too often", async () => {
+      const abandonBuilder = createMockQueryBuilder();
+      abandonBuilder.execute.mockResolvedValue([
+        { id: "job-1", testRunId: "test-run-123", kind: TestRunJobKind.RUN, status: TestRunJobStatus.FAILED, params, attempts: 3 },
+      ]);
+      const failBuilder = createMockQueryBuilder();
+      const requeueBuilder = createMockQueryBuilder();
+      requeueBuilder.executeTakeFirst.mockResolvedValue({ numUpdatedRows: BigInt(1) });
+      mockDb.updateTable
+        .mockReturnValueOnce(abandonBuilder)
+        .mockReturnValueOnce(failBuilder)
+        .mockReturnValueOnce(requeueBuilder);
+
+      await queue.requeueStaleJobs();
+
+      expect(abandonBuilder.where).toHaveBeenCalledWith("attempts", ">=", 3);
+      const { clientSecret, ...paramsWithoutSecret } = params;
+      expect(failBuilder.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: TestRunJobStatus.FAILED,
+          params: paramsWithoutSecret,
+          error: "The test run was abandoned after 3 attempts to execute it.",
+        })
+      );
+      expect(storage.saveTestRun).toHaveBeenCalledWith(
+        expect.objectContaining({ testRunId: "test-run-123", status: TestRunStatus.FAIL })
+      );
+      expect(requeueBuilder.set).toHaveBeenCalledWith({ status: TestRunJobStatus.QUEUED, lockedAt: null });
+      expect(requeueBuilder.where).toHaveBeenCalledWith("attempts", "<", 3);
+    });
+  });
+});
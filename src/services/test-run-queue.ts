@@ -0,0 +1,345 @@
+import { Kysely, Selectable } from "kysely";
+import config from "../config";
+import logger from "../utils/logger";
+import { DB, TestRunJobsTable } from "../data/types";
+import { TestRunWorker } from "./test-run-worker";
+import { TestRunRepository } from "./test-run-repository";
+import { redactText } from "../utils/redact";
+import { getTestRunStatus } from "../utils/testRunStatus";
+import { BadRequestError, ConflictError, ValidationError } from "../errors";
+import {
+  TestRun,
+  TestRunJobKind,
+  TestRunJobStatus,
+  TestResult,
+  TestCaseResultStatus,
+  TestRunStartParams,
+  TestRunStatus,
+} from "./types";
+
+type TestRunJob = Selectable<TestRunJobsTable>;
+
+// The client secret of the tested API is only kept while a job is waiting or running
+const withoutClientSecret = ({ clientSecret, ...params }: TestRunStartParams) => params;
+
+/*
+ * Database backed queue for executing test runs in the background.
+ * A test run is created and queued by the API, and then picked up by the
+ * polling loop of this queue, which runs it through the TestRunWorker.
+ * Because jobs are stored in Postgres, queued runs survive restarts, and
+ * jobs are claimed with FOR UPDATE SKIP LOCKED, so multiple instances of
+ * the service can share the same queue.
+ */
+export class TestRunQueue {
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private db: Kysely<DB>,
+    private storage: TestRunRepository,
+    private worker: TestRunWorker
+  ) {}
+
+  /**
+   * Creates a new test run with status PENDING and queues it for execution. The test run
+   * and its job are saved in one transaction, so there is no pending test run without a job.
+   * @returns The created test run, before any test case has been executed.
+   */
+  async enqueue(params: TestRunStartParams): Promise<TestRun> {
+    const testRun = this.worker.newTestRun(params, TestRunStatus.PENDING);
+
+    await this.db.transaction().execute(async (trx) => {
+      await this.storage.withTransaction(trx).saveTestRun(testRun);
+      await trx
+        .insertInto("testRunJobs")
+        .values({
+          testRunId: testRun.testRunId,
+          status: TestRunJobStatus.QUEUED,
+          params: params as unknown,
+          lockedAt: null,
+          completedAt: null,
+          error: null,
+        })
+        .execute();
+    });
+
+    logger.info(`Test run ${testRun.testRunId} queued for execution`);
+    return testRun;
+  }
+
+  /**
+   * Queues a rerun of test cases of an existing test run, using the parameters the test
+   * run was originally queued with. The test run is set to PENDING until the rerun completes.
+   * @param testKeys - The test cases to rerun, or all failed test cases if omitted.
+   * @param clientSecret - The client secret of the tested API, which is not kept after a job
+   * finished.
+   * @returns The test run, before any test case has been executed again.
+   * @throws BadRequestError if there is nothing to rerun, the status of the test run is kept then.
+   * @throws ConflictError if the test run is already queued or running.
+   */
+  async enqueueRerun(testRunId: string, testKeys?: string[], clientSecret?: string): Promise<TestRun> {
+    // Will throw NotFoundError if the test run does not exist
+    const { results, ...testRun } = await this.storage.getTestRunWithResults(testRunId);
+
+    await this.db.transaction().execute(async (trx) => {
+      // Concurrent reruns of the same test run wait for each other, so only one of them is queued
+      await trx.selectFrom("testRuns").select("id").where("id", "=", testRunId).forUpdate().execute();
+
+      const previousJob = await this.getLatestJob(testRunId, trx);
+      if (!previousJob) {
+        throw new BadRequestError(
+          `Test run ${testRunId} cannot be rerun, its parameters are not available.`
+        );
+      }
+      if (previousJob.status === TestRunJobStatus.QUEUED || previousJob.status === TestRunJobStatus.RUNNING) {
+        throw new ConflictError(`Test run ${testRunId} is already queued or running.`);
+      }
+      this.checkRerunSelection(testRunId, results, testKeys);
+      const params = { ...(previousJob.params as TestRunStartParams), ...(clientSecret && { clientSecret }) };
+      if (!params.clientSecret) {
+        throw new BadRequestError(
+          `The client secret of the tested API is not kept after a test run, pass clientSecret to rerun test run ${testRunId}.`
+        );
+      }
+
+      await this.storage.withTransaction(trx).saveTestRun({ ...testRun, status: TestRunStatus.PENDING });
+      await trx
+        .insertInto("testRunJobs")
+        .values({
+          testRunId,
+          kind: TestRunJobKind.RERUN,
+          status: TestRunJobStatus.QUEUED,
+          params: params as unknown,
+          testKeys: testKeys?.length ? JSON.stringify(testKeys) : null,
+          lockedAt: null,
+          completedAt: null,
+          error: null,
+        })
+        .execute();
+    });
+
+    logger.info(`Rerun of test run ${testRunId} queued for execution`);
+    return { ...testRun, status: TestRunStatus.PENDING };
+  }
+
+  /**
+   * Checks that the test cases selected for a rerun have results, or that there are failed
+   * test cases if none are selected, like the TestRunWorker does when executing the rerun.
+   */
+  private checkRerunSelection(testRunId: string, results: TestResult[], testKeys?: string[]): void {
+    if (testKeys?.length) {
+      const stored = new Set(results.map((r) => r.testKey));
+      const unknown = testKeys.filter((key) => !stored.has(key));
+      if (unknown.length > 0) {
+        throw new BadRequestError(`Test run ${testRunId} has no results for the test cases ${unknown.join(", ")}.`);
+      }
+    } else if (!results.some((r) => r.status === TestCaseResultStatus.FAILURE)) {
+      throw new BadRequestError(`Test run ${testRunId} has no failed test cases to rerun.`);
+    }
+  }
+
+  /**
+   * Retrieves the parameters a test run was queued with, without the client secret of the
+   * tested API once its job finished.
+   * @throws BadRequestError if the test run was not started through the queue.
+   */
+  async getTestRunParams(testRunId: string): Promise<TestRunStartParams> {
+    const job = await this.getLatestJob(testRunId);
+    if (!job) {
+      throw new BadRequestError(`Parameters of test run ${testRunId} are not available.`);
+    }
+    return job.params as TestRunStartParams;
+  }
+
+  /**
+   * Starts polling the queue for jobs. On every poll, jobs which were left running by a
+   * crashed or restarted instance of the service are put back on the queue first.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+    logger.info(`Test run queue started, polling every ${config.JOB_POLL_INTERVAL}ms`);
+  }
+
+  /**
+   * Stops polling the queue. A job which is currently executing is not interrupted.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claims and executes the oldest queued job, if any.
+   * @returns true if a job was processed, false if the queue was empty.
+   */
+  async processNextJob(): Promise<boolean> {
+    const job = await this.claimNextJob();
+    if (!job) {
+      return false;
+    }
+
+    logger.info(`Processing job ${job.id} for test run ${job.testRunId} (attempt ${job.attempts})`);
+    // Keep the job from being requeued as stale while it is executing
+    const heartbeat = setInterval(() => this.heartbeat(job), config.JOB_HEARTBEAT_INTERVAL);
+    try {
+      const params = job.params as TestRunStartParams;
+      if (job.kind === TestRunJobKind.RERUN) {
+        await this.worker.rerunTestRun(job.testRunId, params, job.testKeys ?? undefined);
+      } else {
+        const testRun = await this.storage.getTestRun(job.testRunId);
+        await this.worker.executeTestRun(testRun, params);
+      }
+      await this.completeJob(job);
+    } catch (error) {
+      logger.error(`Job ${job.id} for test run ${job.testRunId} failed:`, error);
+      await this.failJob(job, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+    return true;
+  }
+
+  private async heartbeat(job: TestRunJob): Promise<void> {
+    try {
+      await this.db
+        .updateTable("testRunJobs")
+        .set({ lockedAt: new Date().toISOString() })
+        .where("id", "=", job.id)
+        .where("status", "=", TestRunJobStatus.RUNNING)
+        .execute();
+    } catch (error) {
+      logger.warn(`Failed to refresh the lock of job ${job.id} for test run ${job.testRunId}:`, error);
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(async () => {
+      let processed = false;
+      try {
+        await this.requeueStaleJobs();
+        processed = await this.processNextJob();
+      } catch (error) {
+        logger.error("Error polling test run queue:", error);
+      }
+      // Immediately look for the next job while there is work, otherwise wait.
+      this.schedule(processed ? 0 : config.JOB_POLL_INTERVAL);
+    }, delay);
+  }
+
+  private async getLatestJob(testRunId: string, db: Kysely<DB> = this.db): Promise<TestRunJob | undefined> {
+    return await db
+      .selectFrom("testRunJobs")
+      .selectAll()
+      .where("testRunId", "=", testRunId)
+      .orderBy("createdAt", "desc")
+      .limit(1)
+      .executeTakeFirst();
+  }
+
+  private async claimNextJob(): Promise<TestRunJob | undefined> {
+    return await this.db
+      .updateTable("testRunJobs")
+      .set((eb) => ({
+        status: TestRunJobStatus.RUNNING,
+        lockedAt: new Date().toISOString(),
+        attempts: eb("attempts", "+", 1),
+      }))
+      .where("id", "=", (eb) =>
+        eb
+          .selectFrom("testRunJobs")
+          .select("id")
+          .where("status", "=", TestRunJobStatus.QUEUED)
+          .orderBy("createdAt")
+          .limit(1)
+          .forUpdate()
+          .skipLocked()
+      )
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  private async completeJob(job: TestRunJob): Promise<void> {
+    await this.db
+      .updateTable("testRunJobs")
+      .set({
+        status: TestRunJobStatus.COMPLETED,
+        completedAt: new Date().toISOString(),
+        params: withoutClientSecret(job.params as TestRunStartParams) as unknown,
+      })
+      .where("id", "=", job.id)
+      .execute();
+
+    // Callbacks which arrived after the worker updated the status, but before the job
+    // completed, did not update it
+    await this.storage.updateTestRunStatus(job.testRunId, true);
+  }
+
+  private async failJob(job: TestRunJob, error: any): Promise<void> {
+    await this.db
+      .updateTable("testRunJobs")
+      .set({
+        status: TestRunJobStatus.FAILED,
+        completedAt: new Date().toISOString(),
+        params: withoutClientSecret(job.params as TestRunStartParams) as unknown,
+        error: redactText(error?.message ?? String(error)),
+      })
+      .where("id", "=", job.id)
+      .execute();
+
+    // A rerun which was rejected before executing any test case, e.g. because its preflight
+    // failed, did not change the results, restore the status they had before the rerun
+    if (job.kind === TestRunJobKind.RERUN && error instanceof ValidationError) {
+      const { results, ...testRun } = await this.storage.getTestRunWithResults(job.testRunId);
+      await this.storage.saveTestRun({ ...testRun, status: getTestRunStatus(results)?.status ?? TestRunStatus.FAIL });
+      return;
+    }
+
+    // The test run could not be executed, mark it as failed so clients stop waiting for it.
+    const testRun = await this.storage.getTestRun(job.testRunId);
+    await this.storage.saveTestRun({ ...testRun, status: TestRunStatus.FAIL });
+  }
+
+  /**
+   * Puts jobs back on the queue which have been running without a heartbeat for longer than
+   * JOB_STALE_TIMEOUT, e.g. because the service was restarted mid-run. Jobs which
+   * were already claimed JOB_MAX_ATTEMPTS times likely crash the service, they fail.
+   */
+  async requeueStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - config.JOB_STALE_TIMEOUT);
+
+    const abandoned = await this.db
+      .updateTable("testRunJobs")
+      .set({ status: TestRunJobStatus.FAILED, completedAt: new Date().toISOString() })
+      .where("status", "=", TestRunJobStatus.RUNNING)
+      .where("lockedAt", "<", staleBefore)
+      .where("attempts", ">=", config.JOB_MAX_ATTEMPTS)
+      .returningAll()
+      .execute();
+    for (const job of abandoned) {
+      logger.error(`Job ${job.id} for test run ${job.testRunId} was abandoned after ${job.attempts} attempts`);
+      await this.failJob(job, new Error(`The test run was abandoned after ${job.attempts} attempts to execute it.`));
+    }
+
+    const res = await this.db
+      .updateTable("testRunJobs")
+      .set({ status: TestRunJobStatus.QUEUED, lockedAt: null })
+      .where("status", "=", TestRunJobStatus.RUNNING)
+      .where("lockedAt", "<", staleBefore)
+      .where("attempts", "<", config.JOB_MAX_ATTEMPTS)
+      .executeTakeFirst();
+    if (Number(res.numUpdatedRows) > 0) {
+      logger.warn(`Requeued ${res.numUpdatedRows} stale test run job(s)`);
+    }
+  }
+}
@@ -7,9 +7,11 @@ import {
   TestRunStatus,
   TestCaseResultStatus,
   PagingParameters,
+  TestRunJobStatus,
 } from "./types";
 import { ValidationError, NotFoundError } from "../errors";
 import logger from "../utils/logger";
+import { CertificateService } from "./certificate-service";
 
 // Mock dependencies
 jest.mock("../utils/logger", () => ({
@@ -29,6 +31,7 @@ describe("TestRunRepository", () => {
       selectFrom: jest.fn().mockReturnThis(),
       insertInto: jest.fn().mockReturnThis(),
       updateTable: jest.fn().mockReturnThis(),
+      deleteFrom: jest.fn().mockReturnThis(),
       select: jest.fn().mockReturnThis(),
       selectAll: jest.fn().mockReturnThis(),
       values: jest.fn().mockReturnThis(),
@@ -40,10 +43,11 @@ describe("TestRunRepository", () => {
       onConflict: jest.fn().mockReturnThis(),
       execute: jest.fn(),
       executeTakeFirst: jest.fn(),
-      transaction: jest.fn(),
+      transaction: jest.fn().mockReturnThis(),
       column: jest.fn().mockReturnThis(),
       columns: jest.fn().mockReturnThis(),
       doUpdateSet: jest.fn().mockReturnThis(),
+      returning: jest.fn().mockReturnThis(),
     };
     return mockBuilder;
   };
@@ -162,6 +166,36 @@ describe("TestRunRepository", () => {
       });
     });
 
+    it("should not count skipped mandatory tests", async () => {
+      const mockResults = [
+        {
+          testKey: "test-001",
+          result: { testKey: "test-001", name: "Test Case 1", status: TestCaseResultStatus.SUCCESS, mandatory: true },
+        },
+        {
+          testKey: "test-002",
+          result: { testKey: "test-002", name: "Test Case 2", status: TestCaseResultStatus.SKIPPED, mandatory: true },
+        },
+      ];
+
+      const mockSelectBuilder = createMockQueryBuilder();
+      mockSelectBuilder.execute.mockResolvedValue(mockResults);
+      mockDb.selectFrom.mockReturnValue(mockSelectBuilder);
+
+      const mockUpdateBuilder = createMockQueryBuilder();
+      mockUpdateBuilder.executeTakeFirst.mockResolvedValue({
+        numUpdatedRows: BigInt(1),
+      });
+      mockDb.updateTable.mockReturnValue(mockUpdateBuilder);
+
+      await repository.updateTestRunStatus("test-run-123");
+
+      expect(mockUpdateBuilder.set).toHaveBeenCalledWith({
+        status: TestRunStatus.PASS,
+        passingPercentage: 100,
+      });
+    });
+
     it("should set status to FAIL when at least one mandatory test fails", async () => {
       const testRunId = "test-run-123";
       const mockResults = [
@@ -364,6 +398,21 @@ describe("TestRunRepository", () => {
       mandatory: true,
     };
 
+    beforeEach(() => {
+      (mockDb.transaction().execute as jest.Mock).mockImplementation((callback) => callback(mockDb));
+    });
+
+    it("should save a result and its history in one transaction", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(1) });
+      mockBuilder.execute.mockRejectedValue(new Error("Connection lost"));
+      mockDb.insertInto.mockReturnValue(mockBuilder);
+
+      await expect(repository.saveTestCaseResults("test-run-123", [testResult], true)).rejects.toThrow("Connection lost");
+      expect(mockDb.transaction().execute).toHaveBeenCalledTimes(1);
+      expect(mockDb.insertInto).toHaveBeenCalledWith("testResultAttempts");
+    });
+
     it("should save multiple test case results with overwriteExisting=false", async () => {
       const testRunId = "test-run-123";
       const testResults: TestResult[] = [
@@ -383,6 +432,7 @@ describe("TestRunRepository", () => {
 
       const mockBuilder = createMockQueryBuilder();
       mockBuilder.execute.mockResolvedValue(undefined);
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(1) });
       mockDb.insertInto.mockReturnValue(mockBuilder);
 
       await repository.saveTestCaseResults(testRunId, testResults, false);
@@ -402,6 +452,7 @@ describe("TestRunRepository", () => {
 
       const mockBuilder = createMockQueryBuilder();
       mockBuilder.execute.mockResolvedValue(undefined);
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(1) });
       mockDb.insertInto.mockReturnValue(mockBuilder);
 
       await repository.saveTestCaseResults(testRunId, [testResult], true);
@@ -422,6 +473,7 @@ describe("TestRunRepository", () => {
       const mockBuilder = createMockQueryBuilder();
       
       mockBuilder.execute.mockResolvedValue(undefined);
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(1) });
       mockDb.insertInto.mockReturnValue(mockBuilder);
 
       await repository.saveTestCaseResults(testRunId, [testResult], false);
@@ -436,6 +488,7 @@ describe("TestRunRepository", () => {
       const mockBuilder = createMockQueryBuilder();
       
       mockBuilder.execute.mockResolvedValue(undefined);
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(1) });
       mockDb.insertInto.mockReturnValue(mockBuilder);
 
       await repository.saveTestCaseResults(testRunId, [testResult], true);
@@ -445,6 +498,59 @@ describe("TestRunRepository", () => {
       expect(mockBuilder.execute).toHaveBeenCalled();
     });
 
+    it("should record every saved result in the attempt history", async () => {
+      const testRunId = "test-run-123";
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.execute.mockResolvedValue(undefined);
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(1) });
+      mockDb.insertInto.mockReturnValue(mockBuilder);
+
+      await repository.saveTestCaseResults(testRunId, [testResult], true);
+      await repository.saveTestCaseResults(testRunId, [testResult], false);
+
+      const attemptInserts = mockDb.insertInto.mock.calls.filter(([table]) => table === "testResultAttempts");
+      expect(attemptInserts).toHaveLength(2);
+      expect(mockBuilder.values).toHaveBeenCalledWith({
+        testRunId,
+        testKey: testResult.testKey,
+        timestamp: expect.any(String),
+        result: testResult,
+      });
+    });
+
+    it("should not record a result in the attempt history which was not stored", async () => {
+      const testRunId = "test-run-123";
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.execute.mockResolvedValue(undefined);
+      // The callback of the test case already stored its result
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(0) });
+      mockDb.insertInto.mockReturnValue(mockBuilder);
+
+      await repository.saveTestCaseResults(testRunId, [{ ...testResult, status: TestCaseResultStatus.PENDING }], false);
+
+      expect(mockDb.insertInto).toHaveBeenCalledWith("testResults");
+      expect(mockDb.insertInto).not.toHaveBeenCalledWith("testResultAttempts");
+    });
+
+    it("should redact credentials before saving", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.execute.mockResolvedValue(undefined);
+      mockBuilder.executeTakeFirst.mockResolvedValue({ numInsertedOrUpdatedRows: BigInt(1) });
+      mockDb.insertInto.mockReturnValue(mockBuilder);
+
+      await repository.saveTestCaseResults("test-run-123", [
+        { ...testResult, curlRequest: "curl -H 'Authorization: Bearer abc.def.ghi'" },
+      ], false);
+
+      expect(mockBuilder.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          result: expect.objectContaining({
+            curlRequest: "curl -H 'Authorization: Bearer [REDACTED]'",
+          }),
+        })
+      );
+    });
+
     it("should handle errors when saving test case results", async () => {
       const testRunId = "test-run-123";
       const testResults: TestResult[] = [
@@ -458,7 +564,7 @@ describe("TestRunRepository", () => {
 
       const error = new Error("Save failed");
       const mockBuilder = createMockQueryBuilder();
-      mockBuilder.execute.mockRejectedValue(error);
+      mockBuilder.executeTakeFirst.mockRejectedValue(error);
       mockDb.insertInto.mockReturnValue(mockBuilder);
 
       await expect(
@@ -467,6 +573,56 @@ describe("TestRunRepository", () => {
     });
   });
 
+  describe("failPendingResults", () => {
+    it("should only fail the results which are still pending and record them in the history", async () => {
+      const failed = {
+        testKey: "TESTCASE#13",
+        name: "Test Case 13",
+        status: TestCaseResultStatus.FAILURE,
+        mandatory: true,
+        errorMessage: "No callback received within 30 minutes",
+      };
+      (mockDb.transaction().execute as jest.Mock).mockImplementation((callback) => callback(mockDb));
+      const mockUpdateBuilder = createMockQueryBuilder();
+      mockUpdateBuilder.execute.mockResolvedValue([{ testKey: "TESTCASE#13", result: failed }]);
+      mockDb.updateTable.mockReturnValue(mockUpdateBuilder);
+      const mockInsertBuilder = createMockQueryBuilder();
+      mockDb.insertInto.mockReturnValue(mockInsertBuilder);
+
+      const results = await repository.failPendingResults("test-run-123", "No callback received within 30 minutes");
+
+      expect(mockDb.updateTable).toHaveBeenCalledWith("testResults");
+      expect(mockUpdateBuilder.where).toHaveBeenCalledWith(expect.anything(), "=", TestCaseResultStatus.PENDING);
+      expect(mockDb.insertInto).toHaveBeenCalledWith("testResultAttempts");
+      expect(mockInsertBuilder.values).toHaveBeenCalledWith([
+        { testRunId: "test-run-123", testKey: "TESTCASE#13", timestamp: expect.any(String), result: failed },
+      ]);
+      expect(results).toEqual([failed]);
+    });
+
+    it("should not record anything when no result is pending anymore", async () => {
+      (mockDb.transaction().execute as jest.Mock).mockImplementation((callback) => callback(mockDb));
+      const mockUpdateBuilder = createMockQueryBuilder();
+      mockUpdateBuilder.execute.mockResolvedValue([]);
+      mockDb.updateTable.mockReturnValue(mockUpdateBuilder);
+
+      expect(await repository.failPendingResults("test-run-123", "No callback received")).toEqual([]);
+      expect(mockDb.insertInto).not.toHaveBeenCalled();
+    });
+
+    it("should use the transaction of the repository instead of starting a nested one", async () => {
+      const trx = Object.assign(createMockQueryBuilder(), { isTransaction: true });
+      const mockUpdateBuilder = createMockQueryBuilder();
+      mockUpdateBuilder.execute.mockResolvedValue([]);
+      trx.updateTable.mockReturnValue(mockUpdateBuilder);
+
+      await repository.withTransaction(trx).failPendingResults("test-run-123", "No callback received");
+
+      expect(trx.transaction).not.toHaveBeenCalled();
+      expect(trx.updateTable).toHaveBeenCalledWith("testResults");
+    });
+  });
+
   describe("getTestRun", () => {
     it("should return test run details", async () => {
       const testRunId = "test-run-123";
@@ -496,6 +652,22 @@ describe("TestRunRepository", () => {
       expect(mockBuilder.where).toHaveBeenCalledWith("id", "=", testRunId);
     });
 
+    it("should return the callback deadline as ISO string", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst.mockResolvedValueOnce({
+        id: "test-run-123",
+        companyName: "Acme Corp",
+        callbackTimeout: 30,
+        callbackDeadline: new Date("2024-01-01T00:30:00Z"),
+      });
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      const result = await repository.getTestRun("test-run-123");
+
+      expect(result.callbackTimeout).toBe(30);
+      expect(result.callbackDeadline).toBe("2024-01-01T00:30:00.000Z");
+    });
+
     it("should throw ValidationError for missing testRunId", async () => {
       await expect(repository.getTestRun("")).rejects.toThrow(ValidationError);
       await expect(repository.getTestRun("   ")).rejects.toThrow(ValidationError);
@@ -561,6 +733,39 @@ describe("TestRunRepository", () => {
       expect(result?.results[1].name).toBe("Test Case 2");
     });
 
+    it("should not return the hash of the callback secret", async () => {
+      const testRunId = "test-run-123";
+
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.execute.mockResolvedValueOnce([]);
+      mockBuilder.executeTakeFirst.mockResolvedValueOnce({
+        id: testRunId,
+        timestamp: "2024-01-01T00:00:00Z",
+        companyName: "Acme Corp",
+        callbackSecretHash: "sha256:abc",
+      });
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      const result = await repository.getTestRunWithResults(testRunId);
+
+      expect(result.callbackCredentials).toEqual({ clientId: testRunId });
+      expect(JSON.stringify(result)).not.toContain("sha256:abc");
+    });
+
+    it("should only return the hash of the callback secret to authenticate callbacks", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst
+        .mockResolvedValueOnce({ id: "test-run-123", companyName: "Acme Corp", callbackSecretHash: "sha256:abc" })
+        .mockResolvedValueOnce({ callbackSecretHash: "sha256:abc" })
+        .mockResolvedValueOnce(undefined);
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      expect((await repository.getTestRun("test-run-123")).callbackCredentials).toEqual({ clientId: "test-run-123" });
+      expect(await repository.getCallbackSecretHash("test-run-123")).toBe("sha256:abc");
+      expect(mockBuilder.select).toHaveBeenCalledWith(["callbackSecretHash"]);
+      expect(await repository.getCallbackSecretHash("unknown")).toBeUndefined();
+    });
+
     it("should throw ValidationError for missing testRunId", async () => {
       await expect(repository.getTestRunWithResults("")).rejects.toThrow(
         ValidationError
@@ -625,6 +830,164 @@ describe("TestRunRepository", () => {
     });
   });
 
+  describe("getTestResultHistory", () => {
+    const mockDetails = {
+      id: "test-run-123",
+      timestamp: "2024-01-01T00:00:00Z",
+      companyName: "Acme Corp",
+      adminEmail: "admin@acme.com",
+      adminName: "John Doe",
+      techSpecVersion: "V3.0",
+      status: "FAIL",
+      passingPercentage: 85,
+    };
+
+    it("should return all results of a test case in order", async () => {
+      const first = { testKey: "TESTCASE#13", name: "Test Case 13", status: TestCaseResultStatus.FAILURE, mandatory: true };
+      const second = { ...first, status: TestCaseResultStatus.SUCCESS };
+
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst.mockResolvedValueOnce(mockDetails);
+      mockBuilder.execute.mockResolvedValueOnce([
+        { timestamp: new Date("2024-01-01T00:00:01Z"), result: first },
+        { timestamp: new Date("2024-01-01T00:00:02Z"), result: second },
+      ]);
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      const history = await repository.getTestResultHistory("test-run-123", "TESTCASE#13");
+
+      expect(mockDb.selectFrom).toHaveBeenCalledWith("testResultAttempts");
+      expect(mockBuilder.where).toHaveBeenCalledWith("testKey", "=", "TESTCASE#13");
+      expect(mockBuilder.orderBy).toHaveBeenCalledWith("timestamp");
+      expect(mockBuilder.orderBy).toHaveBeenCalledWith("seq");
+      expect(history).toEqual([
+        { attempt: 1, timestamp: "2024-01-01T00:00:01.000Z", result: first },
+        { attempt: 2, timestamp: "2024-01-01T00:00:02.000Z", result: second },
+      ]);
+    });
+
+    it("should throw NotFoundError when the test case has no results", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst.mockResolvedValueOnce(mockDetails);
+      mockBuilder.execute.mockResolvedValueOnce([]);
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      await expect(
+        repository.getTestResultHistory("test-run-123", "TESTCASE#99")
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it("should throw NotFoundError when the test run does not exist", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst.mockResolvedValueOnce(undefined);
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      await expect(
+        repository.getTestResultHistory("non-existent-id", "TESTCASE#13")
+      ).rejects.toThrow(NotFoundError);
+      expect(mockDb.selectFrom).not.toHaveBeenCalledWith("testResultAttempts");
+    });
+  });
+
+  describe("certificates", () => {
+    const keys = CertificateService.generateKeyPair();
+    const certificates = new CertificateService(keys.privateKey, keys.publicKey);
+    const result = { testKey: "TESTCASE#1", name: "Test Case 1", status: TestCaseResultStatus.SUCCESS, mandatory: true };
+    const mockDetails = {
+      id: "test-run-123",
+      timestamp: "2024-01-01T00:00:00Z",
+      companyName: "Acme Corp",
+      adminEmail: "admin@acme.com",
+      adminName: "John Doe",
+      techSpecVersion: "V3.0",
+      status: "PASS",
+      passingPercentage: 100,
+    };
+
+    beforeEach(() => {
+      repository = new TestRunRepository(mockDb, certificates);
+    });
+
+    const mockStatusUpdate = (results: unknown[]) => {
+      const mockSelectBuilder = createMockQueryBuilder();
+      mockSelectBuilder.execute.mockResolvedValue(results.map((r: any) => ({ testKey: r.testKey, result: r })));
+      mockSelectBuilder.executeTakeFirst
+        .mockResolvedValueOnce(mockDetails)
+        .mockResolvedValueOnce(undefined);
+      mockDb.selectFrom.mockReturnValue(mockSelectBuilder);
+
+      const mockUpdateBuilder = createMockQueryBuilder();
+      mockUpdateBuilder.executeTakeFirst.mockResolvedValue({ numUpdatedRows: BigInt(1) });
+      mockDb.updateTable.mockReturnValue(mockUpdateBuilder);
+
+      const mockCertificateBuilder = createMockQueryBuilder();
+      mockDb.insertInto.mockReturnValue(mockCertificateBuilder);
+      mockDb.deleteFrom.mockReturnValue(mockCertificateBuilder);
+      return mockCertificateBuilder;
+    };
+
+    it("should issue a certificate when a test run passes", async () => {
+      const mockCertificateBuilder = mockStatusUpdate([result]);
+
+      await repository.updateTestRunStatus("test-run-123", true);
+
+      expect(mockDb.insertInto).toHaveBeenCalledWith("testRunCertificates");
+      const values = mockCertificateBuilder.values.mock.calls[0][0];
+      expect(values.testRunId).toBe("test-run-123");
+      expect(certificates.verifyCertificate(values.certificate, [result as TestResult])).toEqual(
+        expect.objectContaining({ valid: true, digestMatches: true })
+      );
+    });
+
+    it("should remove the certificate when a test run no longer passes", async () => {
+      mockStatusUpdate([{ ...result, status: TestCaseResultStatus.FAILURE }]);
+
+      await repository.updateTestRunStatus("test-run-123", true);
+
+      expect(mockDb.deleteFrom).toHaveBeenCalledWith("testRunCertificates");
+      expect(mockDb.insertInto).not.toHaveBeenCalled();
+    });
+
+    it("should not update the status or issue a certificate while the test run is executing", async () => {
+      const mockSelectBuilder = createMockQueryBuilder();
+      mockSelectBuilder.executeTakeFirst.mockResolvedValueOnce({ id: "job-1" });
+      mockDb.selectFrom.mockReturnValue(mockSelectBuilder);
+
+      await repository.updateTestRunStatus("test-run-123");
+
+      expect(mockDb.selectFrom).toHaveBeenCalledWith("testRunJobs");
+      expect(mockSelectBuilder.where).toHaveBeenCalledWith("status", "in", [TestRunJobStatus.QUEUED, TestRunJobStatus.RUNNING]);
+      expect(mockDb.selectFrom).not.toHaveBeenCalledWith("testResults");
+      expect(mockDb.updateTable).not.toHaveBeenCalled();
+      expect(mockDb.insertInto).not.toHaveBeenCalled();
+    });
+
+    it("should throw NotFoundError when no certificate has been issued", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst
+        .mockResolvedValueOnce(mockDetails)
+        .mockResolvedValueOnce(undefined);
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      await expect(repository.getCertificate("test-run-123")).rejects.toThrow(
+        "No certificate has been issued for test run test-run-123"
+      );
+    });
+
+    it("should not return the certificate while a rerun of the test run is pending", async () => {
+      const mockBuilder = createMockQueryBuilder();
+      mockBuilder.executeTakeFirst
+        .mockResolvedValueOnce({ ...mockDetails, status: "PENDING" })
+        .mockResolvedValueOnce({ testRunId: "test-run-123", certificate: "jws", resultDigest: "digest", issuedAt: "2024-01-01T00:00:00Z" });
+      mockDb.selectFrom.mockReturnValue(mockBuilder);
+
+      await expect(repository.getCertificate("test-run-123")).rejects.toThrow(
+        new NotFoundError("Test run test-run-123 is PENDING, certificates are only issued for passing test runs")
+      );
+      expect(mockDb.selectFrom).not.toHaveBeenCalledWith("testRunCertificates");
+    });
+  });
+
   describe("listTestRuns", () => {
     it("should list test runs with default paging", async () => {
       const mockRows = [
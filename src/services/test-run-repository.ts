@@ -1,16 +1,22 @@
-import { Kysely } from "kysely";
+import { Kysely, sql, Transaction } from "kysely";
 import logger from "../utils/logger";
 import { DB } from "../data/types";
 import {
   TestStorage,
   TestResult,
+  TestResultAttempt,
   TestRunWithResults,
   TestRun,
-  TestCaseResultStatus,
   PagingParameters,
   TestRunStatus,
+  TestRunCertificate,
+  TestRunJobStatus,
+  TestCaseResultStatus,
 } from "./types";
 import { ValidationError, NotFoundError } from "../errors";
+import { redactValue } from "../utils/redact";
+import { getTestRunStatus } from "../utils/testRunStatus";
+import { CertificateService, computeResultDigest } from "./certificate-service";
 
 /*
  * Repository for managing test runs and their results. Test runs and
@@ -23,7 +29,26 @@ export class TestRunRepository implements TestStorage {
   private static readonly MAX_PAGE_SIZE = 200;
   private static readonly DEFAULT_PAGE_SIZE = 50;
   
-  constructor(private db: Kysely<DB>) {}
+  constructor(
+    private db: Kysely<DB>,
+    private certificates?: CertificateService
+  ) {}
+
+  /**
+   * Returns a repository which executes its queries in the given transaction.
+   */
+  withTransaction(trx: Transaction<DB>): TestRunRepository {
+    return new TestRunRepository(trx, this.certificates);
+  }
+
+  // Executes the queries in the transaction of this repository, or in a new one. Kysely
+  // does not support nested transactions.
+  private async inTransaction<T>(callback: (trx: Transaction<DB>) => Promise<T>): Promise<T> {
+    if (this.db.isTransaction) {
+      return await callback(this.db as Transaction<DB>);
+    }
+    return await this.db.transaction().execute(callback);
+  }
 
   async saveTestRun(testRun: TestRun): Promise<void> {
 
@@ -38,7 +63,10 @@ export class TestRunRepository implements TestStorage {
           adminEmail: testRun.adminEmail,
           adminName: testRun.adminName,
           techSpecVersion: testRun.techSpecVersion,
-          data: testRun.data as any
+          data: testRun.data as any,
+          callbackTimeout: testRun.callbackTimeout ?? null,
+          callbackDeadline: testRun.callbackDeadline ?? null,
+          callbackSecretHash: testRun.callbackCredentials?.secretHash ?? null,
         })
         .onConflict((oc) =>
           oc.column("id").doUpdateSet({
@@ -48,7 +76,13 @@ export class TestRunRepository implements TestStorage {
             adminEmail: testRun.adminEmail,
             adminName: testRun.adminName,
             techSpecVersion: testRun.techSpecVersion,
-            data: testRun.data as any
+            data: testRun.data as any,
+            callbackTimeout: testRun.callbackTimeout ?? null,
+            callbackDeadline: testRun.callbackDeadline ?? null,
+            // Test runs loaded from the repository have no secret hash, keep the stored one
+            ...(testRun.callbackCredentials?.secretHash && {
+              callbackSecretHash: testRun.callbackCredentials.secretHash,
+            }),
           })
         )
         .execute();
@@ -68,54 +102,113 @@ export class TestRunRepository implements TestStorage {
     logger.info(`Saving ${testResults.length} test cases...`);
     const timestamp = new Date().toISOString();
 
-    for (const testResult of testResults) {
-      try {
-        if (!overwriteExisting) {
-          await this.db
-            .insertInto("testResults")
-            .values({
-              testRunId: testRunId,
-              testKey: testResult.testKey,
-              timestamp,
-              // Keep behavior the same; original stored the entire result payload in JSONB.
-              // Using the object directly allows pg to serialize to jsonb.
-              result: testResult as unknown,
-            })
-            .onConflict((oc) =>
-              oc.columns(["testRunId", "testKey"]).doNothing()
-            )
-            .execute();
-        } else {
-          await this.db
-            .insertInto("testResults")
+    // Results are shown to anyone viewing the test run, never store credentials. A result
+    // and its history are saved in one transaction, so the history never misses a result.
+    await this.inTransaction(async (trx) => {
+      for (const testResult of testResults.map((result) => redactValue(result))) {
+        try {
+          let res;
+          if (!overwriteExisting) {
+            res = await trx
+              .insertInto("testResults")
+              .values({
+                testRunId: testRunId,
+                testKey: testResult.testKey,
+                timestamp,
+                // Keep behavior the same; original stored the entire result payload in JSONB.
+                // Using the object directly allows pg to serialize to jsonb.
+                result: testResult as unknown,
+              })
+              .onConflict((oc) =>
+                oc.columns(["testRunId", "testKey"]).doNothing()
+              )
+              .executeTakeFirst();
+          } else {
+            res = await trx
+              .insertInto("testResults")
+              .values({
+                testRunId: testRunId,
+                testKey: testResult.testKey,
+                timestamp,
+                // Keep behavior the same; original stored the entire result payload in JSONB.
+                // Using the object directly allows pg to serialize to jsonb.
+                result: testResult as unknown,
+              })
+              .onConflict((oc) =>
+                oc.columns(["testRunId", "testKey"]).doUpdateSet({
+                  timestamp,
+                  result: testResult as unknown,
+                })
+              )
+              .executeTakeFirst();
+          }
+
+          // Keep every stored result in the history, also the ones which are overwritten later.
+          // A result which was not stored because one already exists, e.g. a PENDING result
+          // saved after its callback arrived, is not part of the history either.
+          if (Number(res.numInsertedOrUpdatedRows ?? 0) === 0) {
+            logger.info(`Result of test case ${testResult.testKey} already exists, not saved`);
+            continue;
+          }
+          await trx
+            .insertInto("testResultAttempts")
             .values({
               testRunId: testRunId,
               testKey: testResult.testKey,
               timestamp,
-              // Keep behavior the same; original stored the entire result payload in JSONB.
-              // Using the object directly allows pg to serialize to jsonb.
               result: testResult as unknown,
             })
-            .onConflict((oc) =>
-              oc.columns(["testRunId", "testKey"]).doUpdateSet({
-                timestamp,
-                result: testResult as unknown,
-              })
-            )
             .execute();
+        } catch (error) {
+          logger.error(
+            `Failed to save test case ${testResult.name}:`,
+            error as any
+          );
+          throw error;
         }
-      } catch (error) {
-        logger.error(
-          `Failed to save test case ${testResult.name}:`,
-          error as any
-        );
-        throw error;
       }
-    }
+    });
     logger.info(`Saved ${testResults.length} test cases successfully.`);
   }
 
-  async updateTestRunStatus(testRunId: string): Promise<void> {
+  /**
+   * Fails the results of a test run which are still PENDING, e.g. callbacks which were not
+   * received before the deadline. Only results which are PENDING when they are updated are
+   * failed, a result saved in the meantime, e.g. by a callback, is kept.
+   * @returns The results which were failed.
+   */
+  async failPendingResults(testRunId: string, errorMessage: string): Promise<TestResult[]> {
+    const timestamp = new Date().toISOString();
+    const failure = { status: TestCaseResultStatus.FAILURE, errorMessage };
+
+    return await this.inTransaction(async (trx) => {
+      const rows = await trx
+        .updateTable("testResults")
+        .set({ timestamp, result: sql`result || ${JSON.stringify(failure)}::jsonb` })
+        .where("testRunId", "=", testRunId)
+        .where(sql<string>`result->>'status'`, "=", TestCaseResultStatus.PENDING)
+        .returning(["testKey", "result"])
+        .execute();
+
+      // Keep the failed results in the history, like the results saved by saveTestCaseResults
+      if (rows.length > 0) {
+        await trx
+          .insertInto("testResultAttempts")
+          .values(rows.map((row) => ({ testRunId, testKey: row.testKey, timestamp, result: row.result })))
+          .execute();
+      }
+      return rows.map((row) => row.result as TestResult);
+    });
+  }
+
+  async updateTestRunStatus(testRunId: string, finished = false): Promise<void> {
+    // Callbacks may arrive while the other test cases are still executing, the status is
+    // updated when the execution finished, so a run is never PASS, or certified, mid-run
+    if (!finished && await this.isExecuting(testRunId)) {
+      logger.info(`Test run ${testRunId} is still executing, its status is updated when it finished`);
+      return;
+    }
+
     // Retrieve all test results for the test run
     const rows = await this.db.selectFrom("testResults")
       .select(["testKey", "result"])
@@ -123,31 +216,8 @@ export class TestRunRepository implements TestStorage {
       .execute();
     const results = rows.map((r) => r.result as TestResult);
     
-    // Determine the total amount of mandatory tests
-    const mandatoryTests = results.filter(
-      (test) => test.mandatory
-    );
-    // Determine the amount of failed and pending mandatory tests
-    const failedMandatoryTests = mandatoryTests.filter(
-      (test) => test.status === TestCaseResultStatus.FAILURE
-    );
-    const pendingMandatoryTests = mandatoryTests.filter(
-      (test) => test.status === TestCaseResultStatus.PENDING
-    );
-    
     // If there are no mandatory tests, we do not update the status
-    // If there are mandatory tests, we determine the status based on the results of those tests
-    // - If all mandatory tests pass, the test run is a PASS
-    // - If any mandatory test fails, the test run is a FAIL
-    // - If there are pending mandatory tests and no failures, the test run is PENDING
-    let updates = null;
-    if (mandatoryTests.length > 0 && failedMandatoryTests.length === 0 && pendingMandatoryTests.length === 0) {
-      updates = { status: TestRunStatus.PASS, passingPercentage: 100 };
-    } else if (failedMandatoryTests.length > 0) {
-      updates = { status: TestRunStatus.FAIL, passingPercentage: Math.round(((mandatoryTests.length - failedMandatoryTests.length - pendingMandatoryTests.length) / mandatoryTests.length) * 100) }; 
-    } else if (pendingMandatoryTests.length > 0) {
-      updates = { status: TestRunStatus.PENDING, passingPercentage: Math.round(((mandatoryTests.length - pendingMandatoryTests.length) / mandatoryTests.length) * 100) };
-    }
+    const updates = getTestRunStatus(results);
 
     // Only perform the update if we have a status to set
     if (updates) {
@@ -158,33 +228,142 @@ export class TestRunRepository implements TestStorage {
           .executeTakeFirst();
       if (Number(res.numUpdatedRows) == 0) {
         console.warn(`No test run found with ID ${testRunId} to update`);
+        return;
       }
+      await this.updateCertificate(testRunId, updates.status);
     }
   }
 
+  /**
+   * Checks whether a job of the test run is waiting or running in the TestRunQueue.
+   */
+  private async isExecuting(testRunId: string): Promise<boolean> {
+    const job = await this.db
+      .selectFrom("testRunJobs")
+      .select(["id"])
+      .where("testRunId", "=", testRunId)
+      .where("status", "in", [TestRunJobStatus.QUEUED, TestRunJobStatus.RUNNING])
+      .executeTakeFirst();
+    return job !== undefined;
+  }
+
+  /**
+   * Issues a certificate when a finished test run passes, or replaces it when the results of a
+   * passing test run changed. The certificate is removed when a test run no longer passes.
+   * Failing to sign a certificate does not fail the status update.
+   */
+  private async updateCertificate(testRunId: string, status: TestRunStatus): Promise<void> {
+    if (!this.certificates?.canIssue()) {
+      return;
+    }
+
+    if (status !== TestRunStatus.PASS) {
+      await this.db
+        .deleteFrom("testRunCertificates")
+        .where("testRunId", "=", testRunId)
+        .execute();
+      return;
+    }
+
+    try {
+      const testRun = await this.getTestRunWithResults(testRunId);
+      const existing = await this.db
+        .selectFrom("testRunCertificates")
+        .select(["resultDigest"])
+        .where("testRunId", "=", testRunId)
+        .executeTakeFirst();
+      if (existing?.resultDigest === computeResultDigest(testRun.results)) {
+        return;
+      }
+
+      const { certificate, claims } = this.certificates.issueCertificate(testRun);
+      const issuedAt = new Date().toISOString();
+      await this.db
+        .insertInto("testRunCertificates")
+        .values({ testRunId, certificate, resultDigest: claims.resultDigest, issuedAt })
+        .onConflict((oc) =>
+          oc.column("testRunId").doUpdateSet({ certificate, resultDigest: claims.resultDigest, issuedAt })
+        )
+        .execute();
+      logger.info(`Certificate issued for test run ${testRunId}`);
+    } catch (error) {
+      logger.error(`Failed to issue certificate for test run ${testRunId}:`, error as any);
+    }
+  }
+
+  /**
+   * Retrieves the signed conformance certificate of a passing test run. The certificate of a
+   * test run which is rerun is only returned again once the rerun passed.
+   * @throws NotFoundError if the test run does not exist, does not pass (yet) or no certificate
+   * has been issued.
+   */
+  async getCertificate(testRunId: string): Promise<TestRunCertificate> {
+
+    // Will throw NotFoundError if the test run does not exist
+    const testRun = await this.getTestRun(testRunId);
+    if (testRun.status !== TestRunStatus.PASS) {
+      throw new NotFoundError(
+        `Test run ${testRunId} is ${testRun.status}, certificates are only issued for passing test runs`
+      );
+    }
+
+    const row = await this.db
+      .selectFrom("testRunCertificates")
+      .selectAll()
+      .where("testRunId", "=", testRunId)
+      .executeTakeFirst();
+
+    if (!row) {
+      throw new NotFoundError(
+        `No certificate has been issued for test run ${testRunId}, certificates are only issued for passing test runs`
+      );
+    }
+
+    return {
+      testRunId: row.testRunId,
+      certificate: row.certificate,
+      resultDigest: row.resultDigest,
+      issuedAt: new Date(row.issuedAt).toISOString(),
+    };
+  }
+
   async getTestRun(testRunId: string): Promise<TestRun> {
     // Validate testRunId parameter
     if (!testRunId || typeof testRunId !== 'string' || testRunId.trim() === '') {
       throw new ValidationError("Missing or invalid parameter: testRunId");
     }
 
-    const testRun = await this.db
+    const row = await this.db
       .selectFrom("testRuns")
       .selectAll()
       .where("id", "=", testRunId)
       .executeTakeFirst();
 
-    if (!testRun) {
+    if (!row) {
       throw new NotFoundError(`Test run not found: ${testRunId}`);
     }
+    const { callbackSecretHash, ...testRun } = row;
   
     return {
       ...testRun as any,
       testRunId: testRun.id,
       organizationName: testRun.companyName,
+      // The secret hash is only needed to authenticate callbacks, never show it
+      callbackCredentials: callbackSecretHash ? { clientId: testRun.id } : undefined,
+      callbackTimeout: testRun.callbackTimeout ?? undefined,
+      callbackDeadline: testRun.callbackDeadline ? new Date(testRun.callbackDeadline).toISOString() : undefined,
     } as TestRun;
   }
 
+  async getCallbackSecretHash(testRunId: string): Promise<string | undefined> {
+    const row = await this.db
+      .selectFrom("testRuns")
+      .select(["callbackSecretHash"])
+      .where("id", "=", testRunId)
+      .executeTakeFirst();
+    return row?.callbackSecretHash ?? undefined;
+  }
+
   async getTestRunWithResults(testRunId: string): Promise<TestRunWithResults> {
     
     // Get test run details, will throw NotFoundError if not found
@@ -218,6 +397,35 @@ export class TestRunRepository implements TestStorage {
     } as TestRunWithResults;
   }
 
+  /**
+   * Retrieves every result saved for a test case of a test run, oldest first.
+   * @throws NotFoundError if the test run does not exist or has no results for the test case.
+   */
+  async getTestResultHistory(testRunId: string, testKey: string): Promise<TestResultAttempt[]> {
+
+    // Will throw NotFoundError if the test run does not exist
+    await this.getTestRun(testRunId);
+
+    const rows = await this.db
+      .selectFrom("testResultAttempts")
+      .select(["timestamp", "result"])
+      .where("testRunId", "=", testRunId)
+      .where("testKey", "=", testKey)
+      .orderBy("timestamp")
+      .orderBy("seq")
+      .execute();
+
+    if (rows.length === 0) {
+      throw new NotFoundError(`No results found for test case ${testKey} of test run ${testRunId}`);
+    }
+
+    return rows.map((row, index) => ({
+      attempt: index + 1,
+      timestamp: new Date(row.timestamp).toISOString(),
+      result: row.result as TestResult,
+    }));
+  }
+
   async listTestRuns(
     paging: PagingParameters,
     adminEmail?: string,
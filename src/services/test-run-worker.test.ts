@@ -1,6 +1,7 @@
 import { TestRunWorker } from './test-run-worker';
-import { TestStorage, TestRunStartParams, TestRunStatus, TestCaseResultStatus, TestResult } from './types';
-import { ValidationError } from '../errors';
+import { TestStorage, TestRunStartParams, TestRunStatus, TestCaseResultStatus, TestResult, TestRunProgressEventType, TestRunData } from './types';
+import { ProgressEmitter } from './progress-emitter';
+import { HttpResponseError, ValidationError } from '../errors';
 import { fetchOpenIdTokenEndpoint, getAccessToken } from '../utils/authUtils';
 import { fetchFootprints, getLinksHeaderFromFootprints } from '../utils/fetchFootprints';
 import { generateV2TestCases } from '../test-cases/v2-test-cases';
@@ -13,6 +14,7 @@ jest.mock('../test-cases/v2-test-cases');
 jest.mock('../test-cases/v3-test-cases');
 jest.mock('../utils/runTestCase');
 jest.mock('crypto', () => ({
+  ...jest.requireActual('crypto'),
   randomUUID: jest.fn(() => 'test-run-id-123'),
 }));
 
@@ -121,6 +123,23 @@ describe('TestRunWorker', () => {
       expect(result.passingPercentage).toBe(100);
     });
 
+    it('should execute the test cases with the baseUrl normalized by the preflight', async () => {
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(undefined);
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ id: 'f1', productIds: ['p1'] }] });
+      (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({});
+      (generateV3TestCases as jest.Mock).mockResolvedValue([{ name: 'Test Case 1', testKey: 'TESTCASE#1' }]);
+      (runTestCase as jest.Mock).mockResolvedValue({ status: TestCaseResultStatus.SUCCESS, name: 'Test Case 1', testKey: 'TESTCASE#1', mandatory: true });
+      testStorage.getTestRunWithResults.mockResolvedValue({ status: TestRunStatus.PASS, results: [] } as any);
+      const params = { ...baseParams, baseUrl: 'https://api.example.com/' };
+
+      await worker.startTestRun(params);
+
+      expect(generateV3TestCases).toHaveBeenCalledWith(expect.objectContaining({ baseUrl: 'https://api.example.com' }));
+      expect(runTestCase).toHaveBeenCalledWith('https://api.example.com', expect.anything(), 'token', 'V3.0');
+      expect(params.baseUrl).toBe('https://api.example.com/');
+    });
+
     it('should execute V2 test run successfully', async () => {
       const v2Params: TestRunStartParams = { ...baseParams, version: 'V2.2' };
       const mockFootprints = { data: [{ productIds: ['prod-1'] }] };
@@ -192,5 +211,297 @@ describe('TestRunWorker', () => {
 
       expect(fetchOpenIdTokenEndpoint).toHaveBeenCalledWith('https://custom-auth.example.com');
     });
+
+    it('should fail queued test runs without mandatory results instead of leaving them pending', async () => {
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(null);
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ productIds: ['prod-1'] }] });
+      (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({});
+      (generateV3TestCases as jest.Mock).mockResolvedValue([{ name: 'Test Case 1', testKey: 'TESTCASE#1' }]);
+      const optionalResult = { status: TestCaseResultStatus.SUCCESS, name: 'Test Case 1', testKey: 'TESTCASE#1', mandatory: false };
+      (runTestCase as jest.Mock).mockResolvedValue(optionalResult);
+      testStorage.getTestRunWithResults.mockImplementation(async () => ({
+        ...testStorage.saveTestRun.mock.calls.at(-1)![0],
+        results: [optionalResult],
+      }));
+
+      const testRun = await worker.createTestRun(baseParams, TestRunStatus.PENDING);
+      const result = await worker.executeTestRun(testRun, baseParams);
+
+      expect(result.status).toBe(TestRunStatus.FAIL);
+      expect(testStorage.saveTestRun).toHaveBeenLastCalledWith(expect.objectContaining({ status: TestRunStatus.FAIL }));
+      expect(testStorage.saveTestRun.mock.calls.at(-1)![0]).not.toHaveProperty('results');
+    });
+  });
+
+  describe('progress events', () => {
+    it('should emit started and finished events for each test case and the test run', async () => {
+      const progress = new ProgressEmitter();
+      worker = new TestRunWorker(testStorage, progress);
+      const events: any[] = [];
+      progress.subscribe('test-run-id-123', (event) => events.push(event));
+
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(null);
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ productIds: ['prod-1'] }] });
+      (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({});
+      (generateV3TestCases as jest.Mock).mockResolvedValue([{ name: 'Test Case 1', testKey: 'TESTCASE#1' }]);
+      (runTestCase as jest.Mock).mockResolvedValue({ status: TestCaseResultStatus.SUCCESS, testKey: 'TESTCASE#1' });
+      testStorage.getTestRunWithResults.mockResolvedValue({
+        status: TestRunStatus.PASS,
+        passingPercentage: 100,
+        results: [],
+      } as any);
+
+      await worker.startTestRun(baseParams);
+
+      expect(events.map((e) => e.type)).toEqual([
+        TestRunProgressEventType.TESTCASE_STARTED,
+        TestRunProgressEventType.TESTCASE_FINISHED,
+        TestRunProgressEventType.TESTRUN_FINISHED,
+      ]);
+      expect(events[0]).toEqual(expect.objectContaining({ testKey: 'TESTCASE#1', name: 'Test Case 1' }));
+      expect(events[1].result).toEqual(expect.objectContaining({ status: TestCaseResultStatus.SUCCESS }));
+      expect(events[2]).toEqual(expect.objectContaining({ status: TestRunStatus.PASS, passingPercentage: 100 }));
+    });
+  });
+
+  describe('callback deadline', () => {
+    beforeEach(() => {
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(null);
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ productIds: ['prod-1'] }] });
+      (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({});
+      (generateV3TestCases as jest.Mock).mockResolvedValue([{ name: 'Test Case 13', testKey: 'TESTCASE#13' }]);
+      testStorage.getTestRunWithResults.mockResolvedValue({ results: [] } as any);
+    });
+
+    it('should set the deadline when callback test cases are pending', async () => {
+      (runTestCase as jest.Mock).mockResolvedValue({ status: TestCaseResultStatus.PENDING, testKey: 'TESTCASE#13' });
+      const before = Date.now();
+
+      await worker.startTestRun({ ...baseParams, callbackTimeout: 10 });
+
+      const saved = testStorage.saveTestRun.mock.calls.at(-1)![0];
+      expect(saved.callbackTimeout).toBe(10);
+      const deadline = new Date(saved.callbackDeadline!).getTime();
+      expect(deadline).toBeGreaterThanOrEqual(before + 10 * 60 * 1000);
+      expect(deadline).toBeLessThanOrEqual(Date.now() + 10 * 60 * 1000);
+    });
+
+    it('should not set a deadline when no test case is pending', async () => {
+      (runTestCase as jest.Mock).mockResolvedValue({ status: TestCaseResultStatus.SUCCESS, testKey: 'TESTCASE#13' });
+
+      await worker.startTestRun(baseParams);
+
+      for (const [testRun] of testStorage.saveTestRun.mock.calls) {
+        expect(testRun.callbackDeadline).toBeUndefined();
+      }
+    });
+
+    it('should throw ValidationError when the callback timeout is not a positive number of minutes', async () => {
+      await expect(worker.createTestRun({ ...baseParams, callbackTimeout: 0 })).rejects.toThrow(ValidationError);
+      await expect(worker.createTestRun({ ...baseParams, callbackTimeout: 1.5 })).rejects.toThrow(ValidationError);
+      expect(testStorage.saveTestRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('preflight', () => {
+    it('should fail the test run with the diagnosed steps instead of throwing', async () => {
+      (getAccessToken as jest.Mock).mockRejectedValue(
+        new HttpResponseError(401, 'Failed to obtain access token from https://api.example.com/auth/token. Status: 401. Response: denied')
+      );
+      testStorage.getTestRunWithResults.mockImplementation(async () => ({
+        ...testStorage.saveTestRun.mock.calls.at(-1)![0],
+        results: [],
+      }));
+
+      const result = await worker.startTestRun(baseParams);
+
+      expect(fetchFootprints).not.toHaveBeenCalled();
+      expect(runTestCase).not.toHaveBeenCalled();
+      expect(result.status).toBe(TestRunStatus.FAIL);
+      expect((result.data as TestRunData).preflight).toEqual([
+        expect.objectContaining({ key: 'openid-discovery', status: 'WARNING' }),
+        expect.objectContaining({ key: 'token', status: 'FAIL', remediation: expect.stringContaining('clientId and clientSecret') }),
+        expect.objectContaining({ key: 'footprints', status: 'SKIPPED' }),
+        expect.objectContaining({ key: 'pagination', status: 'SKIPPED' }),
+      ]);
+    });
+
+    it('should fail queued test runs which are created as pending', async () => {
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(undefined);
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockRejectedValue(new Error('No footprint data returned from the API'));
+      testStorage.getTestRunWithResults.mockResolvedValue({} as any);
+
+      const testRun = await worker.createTestRun(baseParams, TestRunStatus.PENDING);
+      await worker.executeTestRun(testRun, baseParams);
+
+      expect(testStorage.saveTestRun).toHaveBeenLastCalledWith(expect.objectContaining({
+        status: TestRunStatus.FAIL,
+        data: { preflight: expect.arrayContaining([expect.objectContaining({ key: 'footprints', status: 'FAIL' })]) },
+      }));
+      expect(generateV3TestCases).not.toHaveBeenCalled();
+    });
+
+    it('should check the setup without saving a test run or returning the access token', async () => {
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue('https://auth.example.com/token');
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ id: 'f1', productIds: ['p1'] }, { id: 'f2', productIds: ['p2'] }] });
+      (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({ next: 'https://api.example.com/3/footprints?page=2' });
+      const params = { ...baseParams, baseUrl: 'https://api.example.com/' };
+
+      const result = await worker.preflight(params);
+
+      expect(result).toEqual({ passed: true, steps: expect.any(Array) });
+      expect(result.steps).toHaveLength(4);
+      expect(params.baseUrl).toBe('https://api.example.com/');
+      expect(testStorage.saveTestRun).not.toHaveBeenCalled();
+      expect(generateV3TestCases).not.toHaveBeenCalled();
+    });
+
+    it('should generate the test cases for the footprint given with footprintId', async () => {
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(undefined);
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockResolvedValue({
+        data: [{ id: 'fp-1', productIds: ['prod-1'] }, { id: 'fp-2', productIds: ['prod-2'] }],
+      });
+      (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({});
+      (generateV3TestCases as jest.Mock).mockResolvedValue([]);
+      testStorage.getTestRunWithResults.mockResolvedValue({} as any);
+
+      await worker.startTestRun({ ...baseParams, footprintId: 'fp-2' });
+
+      const { footprints } = (generateV3TestCases as jest.Mock).mock.calls[0][0];
+      expect(footprints.data.map((fp: any) => fp.id)).toEqual(['fp-2', 'fp-1']);
+      expect(testStorage.saveTestRun).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          productIds: ['prod-2'],
+          footprint: expect.objectContaining({ id: 'fp-2', selectedBy: 'footprintId' }),
+        }),
+      }));
+    });
+
+    it('should validate the parameters of the setup check', async () => {
+      await expect(worker.preflight({ ...baseParams, clientSecret: '' })).rejects.toThrow(ValidationError);
+      expect(getAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createTestRun', () => {
+    it('should save the test run with the given status without executing it', async () => {
+      const testRun = await worker.createTestRun(baseParams, TestRunStatus.PENDING);
+
+      expect(testRun.testRunId).toBe('test-run-id-123');
+      expect(testStorage.saveTestRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          testRunId: 'test-run-id-123',
+          status: TestRunStatus.PENDING,
+        })
+      );
+      expect(getAccessToken).not.toHaveBeenCalled();
+      expect(runTestCase).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError before saving when parameters are missing', async () => {
+      await expect(
+        worker.createTestRun({ ...baseParams, clientSecret: '' }, TestRunStatus.PENDING)
+      ).rejects.toThrow(ValidationError);
+      expect(testStorage.saveTestRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rerunTestRun', () => {
+    const existingRun = {
+      testRunId: 'run-1',
+      organizationName: 'Test Org',
+      adminEmail: 'test@example.com',
+      adminName: 'Test Admin',
+      timestamp: '2024-01-01T00:00:00Z',
+      techSpecVersion: 'V3.0',
+      status: TestRunStatus.FAIL,
+      passingPercentage: 50,
+      data: { productIds: ['prod-1'] },
+      results: [
+        { status: TestCaseResultStatus.SUCCESS, name: 'Test Case 1', testKey: 'TESTCASE#1', mandatory: true },
+        { status: TestCaseResultStatus.SUCCESS, name: 'Test Case 12', testKey: 'TESTCASE#12', mandatory: true },
+        { status: TestCaseResultStatus.FAILURE, name: 'Test Case 13', testKey: 'TESTCASE#13', mandatory: true },
+      ],
+    };
+
+    beforeEach(() => {
+      (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(null);
+      (getAccessToken as jest.Mock).mockResolvedValue('token');
+      (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ id: 'fp-1', productIds: ['prod-1'] }] });
+      (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({});
+      (generateV3TestCases as jest.Mock).mockResolvedValue([
+        { name: 'Test Case 1', testKey: 'TESTCASE#1' },
+        { name: 'Test Case 12', testKey: 'TESTCASE#12' },
+        { name: 'Test Case 13', testKey: 'TESTCASE#13', dependsOn: ['TESTCASE#12'] },
+      ]);
+      (runTestCase as jest.Mock).mockImplementation(async (_baseUrl, testCase) => ({
+        status: TestCaseResultStatus.SUCCESS,
+        name: testCase.name,
+        testKey: testCase.testKey,
+        mandatory: true,
+      }));
+      testStorage.getTestRunWithResults.mockResolvedValue(existingRun);
+    });
+
+    it('should rerun failed test cases and the test cases they depend on', async () => {
+      await worker.rerunTestRun('run-1', baseParams);
+
+      const rerunKeys = (runTestCase as jest.Mock).mock.calls.map((call) => call[1].testKey);
+      expect(rerunKeys).toEqual(['TESTCASE#12', 'TESTCASE#13']);
+      expect(testStorage.saveTestCaseResults).toHaveBeenCalledWith('run-1', expect.any(Array), true);
+      expect(testStorage.updateTestRunStatus).toHaveBeenCalledWith('run-1', true);
+    });
+
+    it('should only rerun the given test keys', async () => {
+      await worker.rerunTestRun('run-1', baseParams, ['TESTCASE#1']);
+
+      expect(runTestCase).toHaveBeenCalledTimes(1);
+      expect((runTestCase as jest.Mock).mock.calls[0][1].testKey).toBe('TESTCASE#1');
+    });
+
+    it('should keep the previous results in the test run data', async () => {
+      await worker.rerunTestRun('run-1', baseParams);
+
+      const savedRun = testStorage.saveTestRun.mock.calls[0][0];
+      expect(savedRun).not.toHaveProperty('results');
+      expect(savedRun.data).toEqual({
+        productIds: ['prod-1'],
+        footprint: expect.objectContaining({ id: 'fp-1', selectedBy: 'automatic' }),
+        preflight: expect.any(Array),
+        reruns: [
+          {
+            timestamp: expect.any(String),
+            testKeys: ['TESTCASE#12', 'TESTCASE#13'],
+            previousResults: [existingRun.results[1], existingRun.results[2]],
+          },
+        ],
+      });
+    });
+
+    it('should throw ValidationError without rerunning when the preflight fails', async () => {
+      (getAccessToken as jest.Mock).mockRejectedValue(new HttpResponseError(401, 'Failed to obtain access token. Status: 401'));
+
+      await expect(worker.rerunTestRun('run-1', baseParams)).rejects.toThrow(
+        'Preflight failed, no test cases are rerun. Access token: Failed to obtain access token. Status: 401.'
+      );
+      expect(runTestCase).not.toHaveBeenCalled();
+      expect(testStorage.saveTestCaseResults).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError when there are no failed test cases', async () => {
+      testStorage.getTestRunWithResults.mockResolvedValue({
+        ...existingRun,
+        results: existingRun.results.slice(0, 2),
+      });
+
+      await expect(worker.rerunTestRun('run-1', baseParams)).rejects.toThrow(ValidationError);
+      expect(runTestCase).not.toHaveBeenCalled();
+    });
   });
-});
\ No newline at end of file
+});
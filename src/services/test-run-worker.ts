@@ -2,120 +2,267 @@ import { randomUUID } from "crypto";
 import config from "../config";
 import logger from "../utils/logger";
 import { ValidationError } from "../errors";
-import { TestRunStartParams, TestRun, TestRunWithResults, TestStorage } from "./types";
-import { TestCaseResultStatus, TestResult, TestRunStatus } from "./types";
-import { fetchFootprints, getLinksHeaderFromFootprints } from "../utils/fetchFootprints";
-import { getAccessToken, fetchOpenIdTokenEndpoint } from "../utils/authUtils";
+import { TestRunStartParams, TestRun, TestRunWithResults, TestStorage, TestRunData, TestRunRerun } from "./types";
+import { TestCase, TestCaseResultStatus, TestResult, TestRunStatus, TestRunProgressEventType, PreflightStepStatus } from "./types";
+import { PreflightResult, runPreflight, TestRunSetup } from "../utils/preflight";
 import { generateV3TestCases } from "../test-cases/v3-test-cases";
 import { generateV2TestCases } from "../test-cases/v2-test-cases";
 import { runTestCase } from "../utils/runTestCase";
+import { scheduleTestCases } from "../utils/scheduleTestCases";
+import { redactValue } from "../utils/redact";
+import { generateCallbackCredentials } from "../utils/callbackCredentials";
+import { ProgressEmitter } from "./progress-emitter";
 
 
 export class TestRunWorker {
 
-  constructor(private output: TestStorage) {
+  /**
+   * @param webhookUrl - Base URL the tested APIs send their callback events to, e.g. the
+   * embedded listener of the CLI. Defaults to CONFORMANCE_API.
+   */
+  constructor(
+    private output: TestStorage,
+    private progress?: ProgressEmitter,
+    private webhookUrl: string = config.CONFORMANCE_API
+  ) {
   }
 
   /**
    * Executes a test run based on the provided parameters.
    *
-   * This method sets up the test environment, obtains authentication tokens,
-   * fetches required product footprints, generates test cases according to the specified version,
-   * runs each test case sequentially, collects results, and updates the test run status.
+   * This method checks the setup of the tested system in a preflight (authentication tokens,
+   * required product footprints), generates test cases according to the specified version,
+   * runs the test cases with bounded concurrency, collects results, and updates the test run status.
    * It also handles saving and updating test run data and results in the output storage.
    *
    */
   async startTestRun(params: TestRunStartParams): Promise<TestRunWithResults> {
-    
-    if (!params.baseUrl || !params.clientId || !params.clientSecret) {
-      throw new ValidationError("Missing required parameters: baseUrl, clientId, and clientSecret are mandatory.");
-    }
+    const testRun = await this.createTestRun(params);
+    return await this.executeTestRun(testRun, params);
+  }
+
+  /**
+   * Validates the parameters and saves a new test run without executing it.
+   * By default the test run is initialized with status "FAIL" so a run which never
+   * completes is not mistaken for a passing one. Queued runs are created as "PENDING".
+   * The returned test run contains the secret of its callback credentials, which is not
+   * stored and can not be retrieved later.
+   */
+  async createTestRun(params: TestRunStartParams, status: TestRunStatus = TestRunStatus.FAIL): Promise<TestRun> {
+    const testRun = this.newTestRun(params, status);
+    await this.output.saveTestRun(testRun);
+    return testRun;
+  }
+
+  /**
+   * Validates the parameters and initializes a new test run like createTestRun, without saving
+   * it, e.g. for saving it together with its job in a transaction.
+   */
+  newTestRun(params: TestRunStartParams, status: TestRunStatus = TestRunStatus.FAIL): TestRun {
+
+    this.validateParams(params);
 
-    // Initialize the test run in the storage with status "FAIL" and then update it 
+    // Initialize the test run in the storage with the initial status and then update it 
     // to "PASS" or "FAIL" or "PENDING" based on the results after execution.
+    const testRunId = randomUUID();
     const testRun: TestRun = {
-      testRunId: randomUUID(),
+      testRunId,
       ...params,
       timestamp: new Date().toISOString(),
       techSpecVersion: params.version,
-      status: TestRunStatus.FAIL, 
+      status, 
       data: null, // Initialize data as null, will be updated later with productIds
+      callbackCredentials: generateCallbackCredentials(testRunId),
     }
+    return testRun;
+  }
+
+  /**
+   * Checks the setup of the tested API like before a test run, without creating a test run
+   * or saving anything. Returns the diagnosed steps, but not the access token or footprints.
+   */
+  async preflight(params: TestRunStartParams): Promise<Omit<PreflightResult, "setup">> {
+    this.validateParams(params);
+    const { passed, steps } = await runPreflight(params);
+    return { passed, steps };
+  }
+
+  private validateParams(params: TestRunStartParams): void {
+    if (!params.baseUrl || !params.clientId || !params.clientSecret) {
+      throw new ValidationError("Missing required parameters: baseUrl, clientId, and clientSecret are mandatory.");
+    }
+    if (params.callbackTimeout !== undefined &&
+      !(Number.isInteger(params.callbackTimeout) && params.callbackTimeout > 0)) {
+      throw new ValidationError("Invalid parameter: callbackTimeout must be a positive whole number of minutes.");
+    }
+  }
+
+  /**
+   * Executes the test cases of a previously created test run and updates its status.
+   * If the preflight fails, no test case is executed and the test run fails, with the
+   * diagnosed setup steps in `data.preflight`.
+   */
+  async executeTestRun(testRun: TestRun, params: TestRunStartParams): Promise<TestRunWithResults> {
 
     logger.info(`Executing test run ${testRun.testRunId} for organization ${params.organizationName}`);
-    logger.info(`Test run parameters: ${JSON.stringify(params)}`);
+    logger.info(`Test run parameters: ${JSON.stringify(redactValue(params))}`);
 
-    // Remove trailing slashes from URLs, and lowercase protocol part for http/https tests to work correctly
-    params.baseUrl = params.baseUrl.replace(/\/+$/, "").replace(/^https:/i, "https:");
-    params.customAuthBaseUrl = params.customAuthBaseUrl?.replace(/\/+$/, "").replace(/^https:/i, "https:");
-    
+    const { setup, steps: preflight } = await runPreflight(params);
+    if (!setup) {
+      // Without access token or footprints no test case can be executed, the steps of the
+      // preflight tell what to fix
+      logger.error(`Preflight of test run ${testRun.testRunId} failed, no test cases are executed`);
+      testRun.status = TestRunStatus.FAIL;
+      testRun.data = { preflight };
+      await this.output.saveTestRun(testRun);
+      return await this.finishTestRun(testRun.testRunId);
+    }
+
+    // The test cases request the baseUrl normalized by the preflight
+    const testParams = { ...params, baseUrl: setup.baseUrl };
+    const { testCases: allTestCases, accessToken, productIds } = await this.prepareTestCases(testRun.testRunId, testParams, setup);
+    let testCases = allTestCases;
+
+    // Report which footprint the test cases request and filter by, and why
+    testRun.data = { productIds, footprint: setup.footprint, preflight };
     await this.output.saveTestRun(testRun);
 
-    // Obtain token endpoint from .well-known if available
-    const authTokenUrl = await fetchOpenIdTokenEndpoint(params.customAuthBaseUrl ?? params.baseUrl) ??
-      `${params.customAuthBaseUrl || params.baseUrl}/auth/token`;
-
-    // Add scope, audience and resource to the auth request body
-    // Make sure to url encode things, otherwise it will not work
-    // Only include scope, audience and resource if they are provided
-    const authRequestData = new URLSearchParams({
-      grant_type: "client_credentials",
-      ...(params.scope && { scope: params.scope }),
-      ...(params.audience && { audience: params.audience }),
-      ...(params.resource && { resource: params.resource }),
-    }).toString();
-
-    // Obtain access token from auth endpoint
-    const accessToken = await getAccessToken(
-      authTokenUrl,
-      params.clientId,
-      params.clientSecret,
-      authRequestData
-    );
+    // Filter to specific test case numbers if requested (e.g. testKey "TESTCASE#1" -> 1)
+    if (params.testCaseNumbers?.length) {
+      const allowed = new Set(params.testCaseNumbers);
+      testCases = testCases.filter((tc) => {
+        const match = tc.testKey.match(/^TESTCASE#(\d+)/);
+        const num = match ? parseInt(match[1], 10) : null;
+        return num !== null && allowed.has(num);
+      });
+      logger.info(`Filtered to test cases: ${params.testCaseNumbers.join(", ")} (${testCases.length} cases)`);
+    }
 
-    // Obtain a list of productIds from the /footprints endpoint. We need at 
-    // least one productId to run the tests against.
-    const footprints = await fetchFootprints(params.baseUrl, accessToken, params.version);
+    const results = await this.runTestCases(testRun.testRunId, testCases, accessToken, testParams);
+    await this.setCallbackDeadline(testRun, results, params);
 
-    const paginationLinks = await getLinksHeaderFromFootprints(
-      params.baseUrl,
-      accessToken,
-      params.version
+    // Save the test case results and then update the overall test run status accordingly.   
+    await this.output.saveTestCaseResults(testRun.testRunId, results, false);
+    return await this.finishTestRun(testRun.testRunId);
+  }
+
+  /**
+   * Re-executes test cases of an existing test run, using the same parameters.
+   *
+   * Only the given test keys are executed, or all failed test cases if none are given.
+   * Test cases the selected ones depend on are executed as well, e.g. rerunning the
+   * callback of Test Case 13 sends the request of Test Case 12 again. The new results
+   * overwrite the existing ones, while the previous results are kept in the `reruns`
+   * history of the test run data.
+   */
+  async rerunTestRun(testRunId: string, params: TestRunStartParams, testKeys?: string[]): Promise<TestRunWithResults> {
+
+    const { results: previousResults, ...testRun } = await this.output.getTestRunWithResults(testRunId);
+
+    const selected = new Set(
+      testKeys?.length
+        ? testKeys
+        : previousResults
+            .filter((r) => r.status === TestCaseResultStatus.FAILURE)
+            .map((r) => r.testKey)
     );
-    testRun.data = { productIds: footprints.data[0].productIds } 
+    if (selected.size === 0) {
+      throw new ValidationError(`Test run ${testRunId} has no failed test cases to rerun.`);
+    }
+
+    logger.info(`Rerunning test cases ${[...selected].join(", ")} of test run ${testRunId}`);
+
+    const { setup, steps: preflight } = await runPreflight(params);
+    if (!setup) {
+      const failed = preflight.find((step) => step.status === PreflightStepStatus.FAIL)!;
+      throw new ValidationError(`Preflight failed, no test cases are rerun. ${failed.name}: ${failed.message}. ${failed.remediation}`);
+    }
+
+    const testParams = { ...params, baseUrl: setup.baseUrl };
+    const { testCases: allTestCases, accessToken, productIds } = await this.prepareTestCases(testRunId, testParams, setup);
+
+    // Include the test cases the selected test cases depend on
+    for (const testCase of [...allTestCases].reverse()) {
+      if (selected.has(testCase.testKey)) {
+        testCase.dependsOn?.forEach((key) => selected.add(key));
+      }
+    }
+    const testCases = allTestCases.filter((tc) => selected.has(tc.testKey));
+    if (testCases.length === 0) {
+      throw new ValidationError(`None of the test cases ${[...selected].join(", ")} exist for version ${params.version}.`);
+    }
+
+    // Keep the results which are about to be overwritten
+    const previousData = (testRun.data ?? {}) as TestRunData;
+    const rerun: TestRunRerun = {
+      timestamp: new Date().toISOString(),
+      testKeys: testCases.map((tc) => tc.testKey),
+      previousResults: previousResults.filter((r) => selected.has(r.testKey)),
+    };
+    testRun.data = {
+      ...previousData,
+      productIds,
+      footprint: setup.footprint,
+      preflight,
+      reruns: [...(previousData.reruns ?? []), rerun],
+    };
     await this.output.saveTestRun(testRun);
 
+    const results = await this.runTestCases(testRunId, testCases, accessToken, testParams);
+    await this.setCallbackDeadline(testRun, results, params);
+
+    await this.output.saveTestCaseResults(testRunId, results, true);
+    return await this.finishTestRun(testRunId);
+  }
+
+  /**
+   * Generates the test cases for the test run from the access token and the footprints
+   * obtained by the preflight. The test cases use the selected footprint, which is listed first.
+   */
+  private async prepareTestCases(testRunId: string, params: TestRunStartParams, setup: TestRunSetup) {
+    const { authTokenUrl, authRequestData, accessToken, footprints, paginationLinks } = setup;
+
     const testRunParams = {
-      testRunId: testRun.testRunId,
+      testRunId,
       footprints,
       paginationLinks,
       ...params,
       authTokenUrl,
       authRequestData,
-      webhookUrl: config.CONFORMANCE_API,
+      webhookUrl: this.webhookUrl,
     };
 
     // Generate test cases based on the version
-    let testCases = params.version.startsWith("V2")
+    const testCases: TestCase[] = params.version.startsWith("V2")
       ? await generateV2TestCases(testRunParams)
       : await generateV3TestCases(testRunParams);
 
-    // Filter to specific test case numbers if requested (e.g. testKey "TESTCASE#1" -> 1)
-    if (params.testCaseNumbers?.length) {
-      const allowed = new Set(params.testCaseNumbers);
-      testCases = testCases.filter((tc) => {
-        const match = tc.testKey.match(/^TESTCASE#(\d+)/);
-        const num = match ? parseInt(match[1], 10) : null;
-        return num !== null && allowed.has(num);
-      });
-      logger.info(`Filtered to test cases: ${params.testCaseNumbers.join(", ")} (${testCases.length} cases)`);
-    }
-
-    const results: TestResult[] = [];
+    return {
+      testCases,
+      accessToken,
+      productIds: footprints.data[0].productIds as string[],
+    };
+  }
 
-    // Run each test case sequentially.
-    for (const testCase of testCases) {
+  /**
+   * Runs independent test cases concurrently, respecting the dependencies between
+   * test cases. Results are returned in the order of the test cases.
+   */
+  private async runTestCases(
+    testRunId: string,
+    testCases: TestCase[],
+    accessToken: string,
+    params: TestRunStartParams
+  ): Promise<TestResult[]> {
+    return await scheduleTestCases(testCases, config.TESTCASE_CONCURRENCY, async (testCase) => {
       logger.info(`Running test case: ${testCase.name}`);
+      this.progress?.emit({
+        type: TestRunProgressEventType.TESTCASE_STARTED,
+        testRunId,
+        timestamp: new Date().toISOString(),
+        testKey: testCase.testKey,
+        name: testCase.name,
+      });
       const result = await runTestCase(
         params.baseUrl,
         testCase,
@@ -124,20 +271,62 @@ export class TestRunWorker {
       );
       if (result.status === TestCaseResultStatus.SUCCESS) {
         logger.info(`Test case "${testCase.name}" passed.`);
+      } else if (result.status === TestCaseResultStatus.SKIPPED) {
+        logger.info(`Test case "${testCase.name}" skipped: ${result.errorMessage}`);
       } else {
         logger.error(
           `Test case "${testCase.name}" failed: ${result.errorMessage}`
         );
       }
-      results.push(result);
+      this.progress?.emit({
+        type: TestRunProgressEventType.TESTCASE_FINISHED,
+        testRunId,
+        timestamp: new Date().toISOString(),
+        testKey: testCase.testKey,
+        name: testCase.name,
+        result,
+      });
+      return result;
+    });
+  }
+
+  /**
+   * Sets the deadline for the callbacks of the test cases which are still pending, after
+   * which the CallbackSweeper fails them. The deadline of a previous run is kept if no
+   * callback test case was executed.
+   */
+  private async setCallbackDeadline(testRun: TestRun, results: TestResult[], params: TestRunStartParams): Promise<void> {
+    if (!results.some((r) => r.status === TestCaseResultStatus.PENDING)) {
+      return;
     }
+    testRun.callbackTimeout = params.callbackTimeout ?? config.CALLBACK_TIMEOUT;
+    testRun.callbackDeadline = new Date(Date.now() + testRun.callbackTimeout * 60 * 1000).toISOString();
+    await this.output.saveTestRun(testRun);
+  }
 
-    // Save the test case results and then update the overall test run status accordingly.   
-    await this.output.saveTestCaseResults(testRun.testRunId, results, false);
-    await this.output.updateTestRunStatus(testRun.testRunId);
+  /**
+   * Updates the overall status of the test run after its results have been saved.
+   * The status of a test run without mandatory results is not derived from its results,
+   * such a run fails instead of staying PENDING, e.g. when it was queued.
+   */
+  private async finishTestRun(testRunId: string): Promise<TestRunWithResults> {
+    await this.output.updateTestRunStatus(testRunId, true);
 
     // Load existing test results from database to get the most up-to-date state, also 
     // from the asynchronous webhook updates.
-    return await this.output.getTestRunWithResults(testRun.testRunId); 
+    let testRunWithResults = await this.output.getTestRunWithResults(testRunId);
+    if (testRunWithResults.status === TestRunStatus.PENDING && !testRunWithResults.results.some((r) => r.mandatory)) {
+      const { results, ...testRun } = testRunWithResults;
+      await this.output.saveTestRun({ ...testRun, status: TestRunStatus.FAIL });
+      testRunWithResults = { ...testRunWithResults, status: TestRunStatus.FAIL };
+    }
+    this.progress?.emit({
+      type: TestRunProgressEventType.TESTRUN_FINISHED,
+      testRunId,
+      timestamp: new Date().toISOString(),
+      status: testRunWithResults.status,
+      passingPercentage: testRunWithResults.passingPercentage,
+    });
+    return testRunWithResults;
   }
-}
\ No newline at end of file
+}
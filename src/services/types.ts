@@ -27,6 +27,22 @@ export enum TestCaseResultStatus {
   PENDING = "PENDING",
   SUCCESS = "SUCCESS",
   FAILURE = "FAILURE",
+  // The test case does not apply to the tested API and was not executed
+  SKIPPED = "SKIPPED",
+}
+
+// Constants for the status of a queued test run job
+export enum TestRunJobStatus {
+  QUEUED = "QUEUED",
+  RUNNING = "RUNNING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+// Constants for the kind of a queued test run job
+export enum TestRunJobKind {
+  RUN = "RUN",
+  RERUN = "RERUN",
 }
 
 export interface TestCase {
@@ -45,17 +61,120 @@ export interface TestCase {
   testKey: string;
   documentationUrl?: string;
   expectHttpError?: boolean;
+  // Follow the next links from the URL of the test case across all pages of footprints. The
+  // condition is called with the FootprintCrawl instead of the response body.
+  followNextLinks?: boolean;
+  // Test keys of test cases which must have finished before this test case is started
+  dependsOn?: string[];
+  // Why the test case does not apply to the tested API, it is skipped without a request then
+  skipReason?: string;
+}
+
+export interface TestAttempt {
+  attempt: number;
+  timestamp: string;
+  httpStatus?: number;
+  error?: string;
+  // Set when this attempt failed with a transient error and the request was retried
+  retryReason?: string;
+}
+
+// Durations of an HTTP request in milliseconds. dns, connect and tls are only
+// available when a new connection was opened for the request.
+export interface HttpExchangeTimings {
+  dns?: number;
+  connect?: number;
+  tls?: number;
+  firstByte?: number;
+  total: number;
+}
+
+export interface HttpRedirect {
+  url: string;
+  status: number;
+  location: string;
+}
+
+// Structured record of the HTTP request made for a test case and the response received
+export interface HttpExchange {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response?: {
+    status: number;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  // Redirects followed before the final response, in order
+  redirects?: HttpRedirect[];
+  timings: HttpExchangeTimings;
+  error?: string;
+}
+
+// How a client sent its credentials to the token endpoint, see RFC 6749, section 2.3.1
+export type ClientAuthMethod = "client_secret_basic" | "client_secret_post";
+
+// Whether the tested system authenticated a callback with a token issued by this service
+export interface CallbackAuthentication {
+  authenticated: boolean;
+  // Client the token was issued to
+  clientId?: string;
+  // How the client obtained the token
+  authMethod?: ClientAuthMethod;
+  // Why the callback was not authenticated
+  reason?: string;
 }
 
 export interface TestResult {
   name: string;
   status: TestCaseResultStatus;
   errorMessage?: string;
+  // Summary of the pages of a test case following the next links, the response body of a
+  // single request is in the exchange
   apiResponse?: string;
   mandatory: boolean;
   testKey: string;
   curlRequest?: string;
   documentationUrl?: string;
+  // Every request made for this test case, only present if the request was retried
+  attempts?: TestAttempt[];
+  // The request and response of the last attempt, secrets are redacted
+  exchange?: HttpExchange;
+  // The requests and the response status and headers of every page, for test cases following
+  // the next links
+  pages?: HttpExchange[];
+  // Set for callback test cases, once the callback was received
+  callbackAuthentication?: CallbackAuthentication;
+}
+
+// A result saved for a test case, the history of a test case lists all of them
+export interface TestResultAttempt {
+  attempt: number;
+  timestamp: string;
+  result: TestResult;
+}
+
+// Constants for the progress events emitted while a test run is executing
+export enum TestRunProgressEventType {
+  TESTCASE_STARTED = "testcase.started",
+  TESTCASE_FINISHED = "testcase.finished",
+  TESTRUN_FINISHED = "testrun.finished",
+  TESTRUN_UPDATED = "testrun.updated",
+}
+
+export interface TestRunProgressEvent {
+  type: TestRunProgressEventType;
+  testRunId: string;
+  timestamp: string;
+  testKey?: string;
+  name?: string;
+  result?: TestResult;
+  status?: TestRunStatus;
+  passingPercentage?: number;
 }
 
 export interface TestRunStartParams {
@@ -71,6 +190,10 @@ export interface TestRunStartParams {
   audience?: string;
   resource?: string;
   testCaseNumbers?: number[];
+  // Minutes to wait for the callbacks of the tested API (default: CALLBACK_TIMEOUT)
+  callbackTimeout?: number;
+  // Footprint the test cases request and filter by, chosen automatically if not given
+  footprintId?: string;
 }
 
 export interface TestRun {
@@ -83,6 +206,68 @@ export interface TestRun {
   techSpecVersion: string;
   passingPercentage?: number;
   data: unknown; // jsonb, flexible field to store additional data like productIds;
+  // Set while callback test cases are pending, they fail when the deadline has passed
+  callbackTimeout?: number;
+  callbackDeadline?: string;
+  callbackCredentials?: CallbackCredentials;
+}
+
+// Credentials the tested system obtains a token for its callbacks with, generated for every
+// test run. The secret is only returned when the test run is created, only its hash is stored.
+export interface CallbackCredentials {
+  // The ID of the test run
+  clientId: string;
+  clientSecret?: string;
+  // Only saved, it is read with TestStorage.getCallbackSecretHash
+  secretHash?: string;
+}
+
+// Results of a test run which were overwritten by a rerun
+export interface TestRunRerun {
+  timestamp: string;
+  testKeys: string[];
+  previousResults: TestResult[];
+}
+
+export enum PreflightStepStatus {
+  PASS = "PASS",
+  // The test cases can be executed, but some of them will fail
+  WARNING = "WARNING",
+  FAIL = "FAIL",
+  // Not checked because a previous step failed
+  SKIPPED = "SKIPPED",
+}
+
+export type PreflightStepKey = "openid-discovery" | "token" | "footprints" | "pagination";
+
+// A setup step checked before the test cases of a test run are executed
+export interface PreflightStep {
+  key: PreflightStepKey;
+  name: string;
+  status: PreflightStepStatus;
+  message: string;
+  // How to fix the setup of the tested API, set if the step did not pass
+  remediation?: string;
+  // HTTP status the tested API responded with, set if the step failed with a response
+  httpStatus?: number;
+}
+
+// The footprint the test cases of a test run request by its ID and filter by its attributes
+export interface FootprintSelection {
+  id: string;
+  // Whether the footprint was given with footprintId or chosen automatically
+  selectedBy: "footprintId" | "automatic";
+  reason: string;
+  // Attributes of the footprint the filter test cases use, e.g. "geography"
+  filterableAttributes: string[];
+}
+
+// Structure of the flexible data field of a test run
+export interface TestRunData {
+  productIds?: string[];
+  footprint?: FootprintSelection;
+  reruns?: TestRunRerun[];
+  preflight?: PreflightStep[];
 }
 
 // TODO: Rename to TestRunDetailsWithResults and extend TestRunDetails after testId naming is fixed
@@ -90,6 +275,15 @@ export interface TestRunWithResults extends TestRun {
   results: TestResult[];
 }
 
+// Signed conformance certificate of a passing test run
+export interface TestRunCertificate {
+  testRunId: string;
+  // JWS issued by the CertificateService
+  certificate: string;
+  resultDigest: string;
+  issuedAt: string;
+}
+
 export interface PagingParameters {
   query?: string;
   page?: string;
@@ -119,12 +313,22 @@ export interface TestStorage {
    */
   getTestRun(testRunId: string): Promise<TestRun>;
 
+  /**
+   * Retrieves the hash of the callback secret of a test run, only to authenticate its
+   * callbacks. Test runs returned by the other methods never contain the hash.
+   * @param testRunId - The unique identifier of the test run.
+   * @returns A promise that resolves with the hash, or undefined if the test run does not exist.
+   */
+  getCallbackSecretHash(testRunId: string): Promise<string | undefined>;
+
   /**
    * Updates the status of a test run based on its test case results.
    * @param testRunId - The unique identifier of the test run.
+   * @param finished - Whether the execution of the test run just finished. Otherwise, e.g. for
+   * a callback, the status is not updated while the test run is still executing.
    * @returns A promise that resolves when the operation is complete.
    */
-  updateTestRunStatus(testRunId: string): Promise<void>;
+  updateTestRunStatus(testRunId: string, finished?: boolean): Promise<void>;
 
   /**
    * Saves the results of test cases.
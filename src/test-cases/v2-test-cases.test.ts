@@ -98,6 +98,8 @@ const VALID_PRODUCT_FOOTPRINT = {
 const validSingleFootprintBody = JSON.stringify({ data: { ...VALID_PRODUCT_FOOTPRINT, id: MOCK_FOOTPRINT.id } });
 const validListBody = JSON.stringify({ data: [{ ...VALID_PRODUCT_FOOTPRINT, id: MOCK_FOOTPRINT.id }] });
 const invalidListBody = JSON.stringify({ data: [{ ...VALID_PRODUCT_FOOTPRINT, id: "invalid", productIds: [] }] });
+// Body of a ListFootprints page listing the given footprints
+const page = (footprints: object[]) => JSON.stringify({ data: footprints });
 
 // A valid fulfilled event (TC13) — pfs must contain valid ProductFootprint objects
 const validFulfilledEventBody = JSON.stringify({
@@ -130,7 +132,7 @@ const validRejectedEventBody = JSON.stringify({
 // ---------------------------------------------------------------------------
 
 type MockFetchEntry =
-  | { status: number; body: string; contentType?: string }
+  | { status: number; body: string; contentType?: string; link?: string }
   | { throws: Error };
 
 function mockFetch(...responses: MockFetchEntry[]) {
@@ -141,8 +143,9 @@ function mockFetch(...responses: MockFetchEntry[]) {
     const contentType = r.contentType ?? "application/json";
     return Promise.resolve({
       status: r.status,
+      ok: r.status >= 200 && r.status < 300,
       text: () => Promise.resolve(r.body),
-      headers: { get: (h: string) => (h === "Content-Type" ? contentType : null) },
+      headers: new Headers({ "Content-Type": contentType, ...(r.link && { Link: r.link }) }),
     });
   }) as any;
 }
@@ -554,6 +557,141 @@ afterEach(() => {
       expect(result.status).toBe(TestCaseResultStatus.FAILURE);
     });
   });
+
+  // -------------------------------------------------------------------------
+  describe("TC22: Follow the pagination links across all pages", () => {
+    it("succeeds when the last page has no next link and every footprint is listed", async () => {
+      mockFetch(
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `</2/footprints?limit=1&page=2>; rel="next"` },
+        { status: 200, body: page([]) },
+      );
+      const result = await testcontext.runner("TESTCASE#22");
+      expect(result.status).toBe(TestCaseResultStatus.SUCCESS);
+      expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe(`${BASE_URL}/2/footprints?limit=1&page=2`);
+    });
+    it("fails when the pages list a footprint which is not listed without limit", async () => {
+      mockFetch(
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `</2/footprints?limit=1&page=2>; rel="next"` },
+        { status: 200, body: page([{ ...MOCK_FOOTPRINT, id: "11111111-1111-1111-1111-111111111111" }]) },
+      );
+      const result = await testcontext.runner("TESTCASE#22");
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage).toContain("are listed on the pages, but not without limit");
+    });
+    it("fails when the next links form a loop", async () => {
+      mockFetch(
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `<${BASE_URL}/2/footprints?limit=1&page=2>; rel="next"` },
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `<${BASE_URL}/2/footprints?limit=1>; rel="next"` },
+      );
+      const result = await testcontext.runner("TESTCASE#22");
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage).toContain("is listed on page 1 and on page 2");
+      expect(result.errorMessage).toContain("the next links form a loop");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  describe("TC23: Honor the limit on every page", () => {
+    it("succeeds when no page lists more footprints than the limit", async () => {
+      mockFetch({ status: 200, body: page([MOCK_FOOTPRINT]) });
+      const result = await testcontext.runner("TESTCASE#23");
+      expect(result.status).toBe(TestCaseResultStatus.SUCCESS);
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(`${BASE_URL}/2/footprints?limit=1`);
+    });
+    it("fails when a page lists more footprints than the limit", async () => {
+      mockFetch({ status: 200, body: page([MOCK_FOOTPRINT, { ...MOCK_FOOTPRINT, id: "11111111-1111-1111-1111-111111111111" }]) });
+      const result = await testcontext.runner("TESTCASE#23");
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage).toContain("Page 1 lists 2 footprints, more than the limit of 1");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  describe("TC24: Pagination links are absolute and on the same host", () => {
+    it("succeeds when the next links are absolute URLs on the host of the API", async () => {
+      mockFetch(
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `<${BASE_URL}/2/footprints?limit=1&page=2>; rel="next"` },
+        { status: 200, body: page([]) },
+      );
+      const result = await testcontext.runner("TESTCASE#24");
+      expect(result.status).toBe(TestCaseResultStatus.SUCCESS);
+    });
+    it("fails when a next link is relative", async () => {
+      mockFetch(
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `</2/footprints?limit=1&page=2>; rel="next"` },
+        { status: 200, body: page([]) },
+      );
+      const result = await testcontext.runner("TESTCASE#24");
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage).toContain("is not an absolute URL");
+    });
+    it("fails when a next link points to another host", async () => {
+      mockFetch(
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `<https://other.example.com/2/footprints?limit=1&page=2>; rel="next"` },
+        { status: 200, body: page([]) },
+      );
+      const result = await testcontext.runner("TESTCASE#24");
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage).toContain("points to host other.example.com instead of example.com");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  describe("TC25: Last page has no pagination link", () => {
+    it("succeeds when the page listing all footprints has no next link", async () => {
+      mockFetch({ status: 200, body: page([MOCK_FOOTPRINT]) });
+      const result = await testcontext.runner("TESTCASE#25");
+      expect(result.status).toBe(TestCaseResultStatus.SUCCESS);
+    });
+    it("fails when the last footprints link to an empty page", async () => {
+      mockFetch(
+        { status: 200, body: page([MOCK_FOOTPRINT]), link: `<${BASE_URL}/2/footprints?limit=1&page=2>; rel="next"` },
+        { status: 200, body: page([]) },
+      );
+      const result = await testcontext.runner("TESTCASE#25");
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(result.errorMessage).toContain("Page 1 links to an empty page");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  describe("TC26: ListFootprints with a tampered pagination link", () => {
+    it("succeeds on HTTP 400 for the tampered next link", async () => {
+      mockFetch({ status: 400, body: '{"code":"BadRequest"}' });
+      const result = await testcontext.runner("TESTCASE#26");
+      expect(result.status).toBe(TestCaseResultStatus.SUCCESS);
+      const url = (global.fetch as jest.Mock).mock.calls[0][0] as string;
+      expect(url).toMatch(/^https:\/\/example\.com\/2\/footprints\?offset=[a-zA-Z0-9]{16}$/);
+    });
+    it("fails on HTTP 200", async () => {
+      mockFetch({ status: 200, body: validListBody });
+      const result = await testcontext.runner("TESTCASE#26");
+      expect(result.status).toBe(TestCaseResultStatus.FAILURE);
+    });
+    it("is skipped without a request when there is no cursor to tamper with", async () => {
+      for (const paginationLinks of [{}, { next: `${BASE_URL}/2/footprints/page/2` }] as Record<string, string>[]) {
+        const testCases = await generateV2TestCases({
+          testRunId: TEST_RUN_ID,
+          footprints: MOCK_FOOTPRINTS,
+          paginationLinks,
+          baseUrl: BASE_URL,
+          authTokenUrl: AUTH_URL,
+          clientId: CLIENT_ID,
+          clientSecret: CLIENT_SECRET,
+          authRequestData: AUTH_REQUEST_DATA,
+          version: VERSION,
+          webhookUrl: WEBHOOK_URL,
+        });
+        mockFetch({ status: 200, body: validListBody });
+        const result = await runTestCase(BASE_URL, testCases.find((t) => t.testKey === "TESTCASE#26")!, ACCESS_TOKEN, VERSION);
+        expect(result.status).toBe(TestCaseResultStatus.SKIPPED);
+        expect(result.errorMessage).toMatch(/^Not applicable: /);
+        // The V2 Technical Specifications do not define the response to an invalid cursor
+        expect(result.mandatory).toBe(false);
+        expect(global.fetch).not.toHaveBeenCalled();
+      }
+    });
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -579,7 +717,7 @@ describe("TC13: Received Request Fulfilled Response (listener)", () => {
     });
     const tc = testCases.find((t) => t.testKey === "TESTCASE#13")!;
     // Intercept fetch BEFORE calling runTestCase so no prior mock calls leak in
-    const fetchMock = jest.fn().mockResolvedValue({ status: 200, text: async () => '{}', headers: { get: () => null } } as never) as any;
+    const fetchMock = jest.fn().mockResolvedValue({ status: 200, text: async () => '{}', headers: new Headers() } as never) as any;
     global.fetch = fetchMock;
     const result = await runTestCase(BASE_URL, tc, ACCESS_TOKEN, VERSION);
     expect(result.status).toBe(TestCaseResultStatus.PENDING);
@@ -605,7 +743,7 @@ describe("TC14.B: Handle Rejected PCF Request (listener)", () => {
       webhookUrl: WEBHOOK_URL,
     });
     const tc = testCases.find((t) => t.testKey === "TESTCASE#14.B")!;
-    const fetchMock = jest.fn().mockResolvedValue({ status: 200, text: async () => '{}', headers: { get: () => null } } as never) as any;
+    const fetchMock = jest.fn().mockResolvedValue({ status: 200, text: async () => '{}', headers: new Headers() } as never) as any;
     global.fetch = fetchMock;
     const result = await runTestCase(BASE_URL, tc, ACCESS_TOKEN, VERSION);
     expect(result.status).toBe(TestCaseResultStatus.PENDING);
@@ -2,6 +2,14 @@ import { ApiVersion, TestCase, EventTypesV2 } from "../services/types";
 import { randomUUID } from "crypto";
 import { randomString } from "../utils/authUtils";
 import { getSchema } from "../schemas";
+import {
+  checkLastPage,
+  checkNextLinkChain,
+  checkNextLinkTargets,
+  checkPageLimit,
+  firstPageCount,
+  tamperNextLink,
+} from "../utils/crawlFootprints";
 import {
   getCorrectAuthHeaders,
   getIncorrectAuthHeaders,
@@ -33,6 +41,16 @@ export const generateV2TestCases = async ({
   
   // Get the schema based on the version
   const schema = await getSchema(version);
+  // Split the footprints into about three pages for following the next links
+  const pageLimit = Math.max(1, Math.ceil(footprints.data.length / 3));
+  // Without a next link for limit=1, or with a cursor which is not a query parameter, there is
+  // no cursor to tamper with and the test case is skipped
+  const tamperedNextLink = paginationLinks.next && tamperNextLink(new URL(paginationLinks.next, baseUrl).toString());
+  const tamperSkipReason = !paginationLinks.next
+    ? "Not applicable: no next link was returned for limit=1, all footprints are listed on one page"
+    : !tamperedNextLink
+      ? `Not applicable: the next link ${paginationLinks.next} has no cursor query parameter to tamper with`
+      : undefined;
 
   return [
     {
@@ -81,7 +99,7 @@ export const generateV2TestCases = async ({
       expectedStatusCodes: [200, 202],
       schema: schema.listFootprintResponse,
       condition: (body) => {
-        return body?.data?.length === footprints.data.length;
+        return body?.data?.length === firstPageCount(footprints);
       },
       conditionErrorMessage: "Number of footprints does not match",
       mandatoryVersion: ["V2.0", "V2.1", "V2.2", "V2.3"],
@@ -226,6 +244,7 @@ export const generateV2TestCases = async ({
       schema: undefined, // v2_0_EventFulfilledSchema
       mandatoryVersion: ["V2.2", "V2.3"],
       testKey: "TESTCASE#13",
+      dependsOn: ["TESTCASE#12"],
       documentationUrl: 
         "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-13-call-back-with-a-request-fulfilled-event",
     },
@@ -263,6 +282,7 @@ export const generateV2TestCases = async ({
       schema: undefined, // v2_0_EventRejectedSchema,
       mandatoryVersion: ["V2.2", "V2.3"],
       testKey: "TESTCASE#14.B",
+      dependsOn: ["TESTCASE#14.A"],
       documentationUrl: 
         "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-14b-call-back-with-a-request-rejected-event",
     },
@@ -406,5 +426,68 @@ export const generateV2TestCases = async ({
       documentationUrl:
         "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-21-failed-to-receive-notification-of-pcf-update-published-event-malformed-request",
     },
+    {
+      name: "Test Case 22: Follow the pagination links of Action ListFootprints across all pages",
+      method: "GET",
+      endpoint: `/2/footprints?limit=${pageLimit}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkNextLinkChain(crawl, footprints, messages),
+      conditionErrorMessage: "The pages of the next links do not list every footprint exactly once",
+      mandatoryVersion: ["V2.0", "V2.1", "V2.2", "V2.3"],
+      testKey: "TESTCASE#22",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-22-follow-the-pagination-links-of-action-listfootprints-across-all-pages",
+    },
+    {
+      name: "Test Case 23: Honor the limit of Action ListFootprints on every page",
+      method: "GET",
+      endpoint: `/2/footprints?limit=${pageLimit}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkPageLimit(crawl, pageLimit, messages),
+      conditionErrorMessage: `Pages list more footprints than the requested limit of ${pageLimit}`,
+      mandatoryVersion: ["V2.0", "V2.1", "V2.2", "V2.3"],
+      testKey: "TESTCASE#23",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-23-honor-the-limit-of-action-listfootprints-on-every-page",
+    },
+    {
+      name: "Test Case 24: Pagination links of Action ListFootprints are absolute and on the same host",
+      method: "GET",
+      endpoint: `/2/footprints?limit=${pageLimit}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkNextLinkTargets(crawl, baseUrl, messages),
+      conditionErrorMessage: "The next links must be absolute URLs on the host of the API",
+      mandatoryVersion: ["V2.0", "V2.1", "V2.2", "V2.3"],
+      testKey: "TESTCASE#24",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-24-pagination-links-of-action-listfootprints-are-absolute-and-on-the-same-host",
+    },
+    {
+      name: "Test Case 25: Last page of Action ListFootprints has no pagination link",
+      method: "GET",
+      endpoint: `/2/footprints?limit=${footprints.data.length}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkLastPage(crawl, messages),
+      conditionErrorMessage: "The last page must not link to a next page",
+      testKey: "TESTCASE#25",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-25-last-page-of-action-listfootprints-has-no-pagination-link",
+    },
+    {
+      name: "Test Case 26: Attempt ListFootprints with a tampered pagination link",
+      method: "GET",
+      customUrl: tamperedNextLink,
+      skipReason: tamperSkipReason,
+      expectedStatusCodes: [400],
+      condition: (body, messages) => {
+        if (body?.code !== "BadRequest") {
+          messages.push(`Warning: expected error code BadRequest but received ${body?.code}`);
+        }
+        return true;
+      },
+      testKey: "TESTCASE#26",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v2-test-cases-expected-results.html#test-case-26-attempt-listfootprints-with-a-tampered-pagination-link",
+    },
   ];
 };
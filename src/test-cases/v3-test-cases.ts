@@ -2,6 +2,14 @@ import { ApiVersion, TestCase, EventTypesV3 } from "../services/types";
 import { randomUUID } from "crypto";
 import { randomString } from "../utils/authUtils";
 import { getSchema } from "../schemas";
+import {
+  checkLastPage,
+  checkNextLinkChain,
+  checkNextLinkTargets,
+  checkPageLimit,
+  firstPageCount,
+  tamperNextLink,
+} from "../utils/crawlFootprints";
 import {
   getCorrectAuthHeaders,
   getIncorrectAuthHeaders,
@@ -121,6 +129,16 @@ export const generateV3TestCases = async ({
   
   const schema = await getSchema(version);
   const filterParams = getFilterParameters(footprints);
+  // Split the footprints into about three pages for following the next links
+  const pageLimit = Math.max(1, Math.ceil(footprints.data.length / 3));
+  // Without a next link for limit=1, or with a cursor which is not a query parameter, there is
+  // no cursor to tamper with and the test case is skipped
+  const tamperedNextLink = paginationLinks.next && tamperNextLink(new URL(paginationLinks.next, baseUrl).toString());
+  const tamperSkipReason = !paginationLinks.next
+    ? "Not applicable: no next link was returned for limit=1, all footprints are listed on one page"
+    : !tamperedNextLink
+      ? `Not applicable: the next link ${paginationLinks.next} has no cursor query parameter to tamper with`
+      : undefined;
   const callbackBaseUrl = webhookUrl.replace(/\/+$/, "");
 
   return [
@@ -170,7 +188,7 @@ export const generateV3TestCases = async ({
       expectedStatusCodes: [200, 202],
       schema: schema.listFootprintResponse,
       condition: (body) => {
-        return body?.data?.length === footprints.data.length;
+        return body?.data?.length === firstPageCount(footprints);
       },
       conditionErrorMessage: "Number of footprints does not match",
       mandatoryVersion: ["V3.0"],
@@ -319,6 +337,7 @@ export const generateV3TestCases = async ({
       schema: schema.events?.fulfilled,
       mandatoryVersion: ["V3.0"],
       testKey: "TESTCASE#13",
+      dependsOn: ["TESTCASE#12"],
       documentationUrl: 
         "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-13-call-back-with-a-request-fulfilled-event",
     },
@@ -360,6 +379,7 @@ export const generateV3TestCases = async ({
       schema: schema.events?.rejected,
       mandatoryVersion: ["V3.0"],
       testKey: "TESTCASE#14.B",
+      dependsOn: ["TESTCASE#14.A"],
       documentationUrl: 
         "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-14b-call-back-with-a-request-rejected-event",
     },
@@ -506,7 +526,7 @@ export const generateV3TestCases = async ({
       schema: schema.simpleListFootprintResponse,
       condition: (body) => {
         if ((filterParams.geography ?? '') === '') {
-          return body?.data?.length === footprints.data.length; // If no geography is provided, all footprints are valid
+          return body?.data?.length === firstPageCount(footprints); // If no geography is provided, all footprints are valid
         }
         return body?.data?.every(
           (footprint: {
@@ -535,7 +555,7 @@ export const generateV3TestCases = async ({
       schema: schema.simpleListFootprintResponse,
       condition: (body) => {
         if ((filterParams.classification ?? '') === '') {
-          return body?.data?.length === footprints.data.length; // If no classification is provided, all footprints are valid
+          return body?.data?.length === firstPageCount(footprints); // If no classification is provided, all footprints are valid
         }
 
         return body?.data?.every((footprint: { productClassifications: string[] }) =>
@@ -907,6 +927,71 @@ export const generateV3TestCases = async ({
       documentationUrl:
         "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-40-failed-to-receive-notification-of-pcf-update-published-event-malformed-request",
     },
+    {
+      name: "Test Case 41: Follow the pagination links of Action ListFootprints across all pages",
+      method: "GET",
+      endpoint: `/3/footprints?limit=${pageLimit}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkNextLinkChain(crawl, footprints, messages),
+      conditionErrorMessage: "The pages of the next links do not list every footprint exactly once",
+      mandatoryVersion: ["V3.0"],
+      testKey: "TESTCASE#41",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-41-follow-the-pagination-links-of-action-listfootprints-across-all-pages",
+    },
+    {
+      name: "Test Case 42: Honor the limit of Action ListFootprints on every page",
+      method: "GET",
+      endpoint: `/3/footprints?limit=${pageLimit}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkPageLimit(crawl, pageLimit, messages),
+      conditionErrorMessage: `Pages list more footprints than the requested limit of ${pageLimit}`,
+      mandatoryVersion: ["V3.0"],
+      testKey: "TESTCASE#42",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-42-honor-the-limit-of-action-listfootprints-on-every-page",
+    },
+    {
+      name: "Test Case 43: Pagination links of Action ListFootprints are absolute and on the same host",
+      method: "GET",
+      endpoint: `/3/footprints?limit=${pageLimit}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkNextLinkTargets(crawl, baseUrl, messages),
+      conditionErrorMessage: "The next links must be absolute URLs on the host of the API",
+      mandatoryVersion: ["V3.0"],
+      testKey: "TESTCASE#43",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-43-pagination-links-of-action-listfootprints-are-absolute-and-on-the-same-host",
+    },
+    {
+      name: "Test Case 44: Last page of Action ListFootprints has no pagination link",
+      method: "GET",
+      endpoint: `/3/footprints?limit=${footprints.data.length}`,
+      followNextLinks: true,
+      condition: (crawl, messages) => checkLastPage(crawl, messages),
+      conditionErrorMessage: "The last page must not link to a next page",
+      mandatoryVersion: ["V3.0"],
+      testKey: "TESTCASE#44",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-44-last-page-of-action-listfootprints-has-no-pagination-link",
+    },
+    {
+      name: "Test Case 45: Attempt ListFootprints with a tampered pagination link",
+      method: "GET",
+      customUrl: tamperedNextLink,
+      skipReason: tamperSkipReason,
+      expectedStatusCodes: [400],
+      condition: (body, messages) => {
+        if (body?.code !== "BadRequest") {
+          messages.push(`Warning: expected error code BadRequest but received ${body?.code}`);
+        }
+        return true;
+      },
+      mandatoryVersion: ["V3.0"],
+      testKey: "TESTCASE#45",
+      documentationUrl:
+        "https://docs.carbon-transparency.org/pact-conformance-service/v3-test-cases-expected-results.html#test-case-45-attempt-listfootprints-with-a-tampered-pagination-link",
+    },
   ];
 };
 
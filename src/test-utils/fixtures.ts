@@ -0,0 +1,22 @@
+import { TestResult, TestRunStatus, TestRunWithResults } from "../services/types";
+
+/**
+ * Creates a test run with the given results for tests. Results are mandatory and named after
+ * their test key, unless given otherwise.
+ */
+export const createTestRun = (
+  status: TestRunStatus,
+  results: Partial<TestResult>[],
+  testRunId = "test-run-123"
+): TestRunWithResults => ({
+  testRunId,
+  organizationName: "Acme Corp",
+  adminEmail: "admin@acme.com",
+  adminName: "John Doe",
+  timestamp: "2024-01-01T00:00:00.000Z",
+  techSpecVersion: "V3.0",
+  status,
+  passingPercentage: status === TestRunStatus.PASS ? 100 : 50,
+  data: null,
+  results: results.map((result) => ({ mandatory: true, name: `Test Case ${result.testKey}`, ...result }) as TestResult),
+});
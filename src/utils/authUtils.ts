@@ -1,3 +1,5 @@
+import config from "../config";
+import { HttpResponseError } from "../errors";
 import logger from "./logger";
 
 // See https://docs.carbon-transparency.org/v2/#authresponsebody
@@ -72,6 +74,7 @@ export const getAccessToken = async (
       Authorization: `Basic ${encodedCredentials}`,
     },
     body: authRequestData,
+    signal: AbortSignal.timeout(config.TESTCASE_TIMEOUT),
   });
 
   if (!response.ok) {
@@ -79,7 +82,8 @@ export const getAccessToken = async (
       `Failed to obtain access token from ${authTokenEndPointUrl}. Status: ${response.status}`
     );
 
-    throw new Error(
+    throw new HttpResponseError(
+      response.status,
       `Failed to obtain access token from ${authTokenEndPointUrl}. Status: ${
         response.status
       }. Response: ${await response.text()}`
@@ -96,7 +100,9 @@ export const getAccessToken = async (
 // Get OpenID token_endpoint from .well-known configureation lookup
 export const fetchOpenIdTokenEndpoint = async (authBaseUrl: string): Promise<string | undefined> => {
   try {
-    const response = await fetch(`${authBaseUrl}/.well-known/openid-configuration`);
+    const response = await fetch(`${authBaseUrl}/.well-known/openid-configuration`, {
+      signal: AbortSignal.timeout(config.TESTCASE_TIMEOUT),
+    });
     if (response.ok) {
       const data = await response.json();
       return data.token_endpoint;
@@ -0,0 +1,89 @@
+import { allTargetsPassed, BatchTarget, runBatch, toBatchMatrix } from "./batchRun";
+import { TestCaseResultStatus, TestRunStartParams, TestRunStatus } from "../services/types";
+import { createTestRun } from "../test-utils/fixtures";
+
+describe("batchRun", () => {
+  const target = (name: string): BatchTarget => ({
+    name,
+    params: { baseUrl: `https://${name}.example.com` } as TestRunStartParams,
+  });
+
+  describe("runBatch", () => {
+    it("runs at most `concurrency` targets at a time and keeps the order of the targets", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const finished: string[] = [];
+
+      const results = await runBatch(
+        ["a", "b", "c", "d"].map(target),
+        2,
+        async ({ name }) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, name === "a" ? 20 : 5));
+          running--;
+          return createTestRun(TestRunStatus.PASS, []);
+        },
+        (result) => finished.push(result.target)
+      );
+
+      expect(maxRunning).toBe(2);
+      expect(results.map((result) => result.target)).toEqual(["a", "b", "c", "d"]);
+      expect(finished[0]).toBe("b");
+    });
+
+    it("continues with the other targets when a test run throws", async () => {
+      const results = await runBatch([target("a"), target("b")], 1, async ({ name }) => {
+        if (name === "a") {
+          throw new Error("Authentication failed");
+        }
+        return createTestRun(TestRunStatus.PASS, []);
+      });
+
+      expect(results[0]).toEqual({ target: "a", error: "Authentication failed" });
+      expect(results[1].testRun?.status).toBe(TestRunStatus.PASS);
+      expect(allTargetsPassed(results)).toBe(false);
+    });
+  });
+
+  describe("toBatchMatrix", () => {
+    it("lists the status of every test case for every target", () => {
+      const results = [
+        { target: "staging", testRun: createTestRun(TestRunStatus.FAIL, [
+          { testKey: "TESTCASE#1", status: TestCaseResultStatus.SUCCESS },
+          { testKey: "TESTCASE#2", status: TestCaseResultStatus.FAILURE, mandatory: false },
+        ]) },
+        { target: "production", testRun: createTestRun(TestRunStatus.PASS, [
+          { testKey: "TESTCASE#1", status: TestCaseResultStatus.SUCCESS },
+          { testKey: "TESTCASE#2", status: TestCaseResultStatus.SUCCESS, mandatory: true },
+        ]) },
+        { target: "broken", error: "fetch failed" },
+      ];
+
+      expect(toBatchMatrix(results)).toEqual([
+        {
+          testKey: "TESTCASE#1",
+          name: "Test Case TESTCASE#1",
+          mandatory: true,
+          statuses: { staging: "SUCCESS", production: "SUCCESS", broken: undefined },
+        },
+        {
+          testKey: "TESTCASE#2",
+          name: "Test Case TESTCASE#2",
+          mandatory: true,
+          statuses: { staging: "FAILURE", production: "SUCCESS", broken: undefined },
+        },
+      ]);
+    });
+  });
+
+  describe("allTargetsPassed", () => {
+    it("requires every target to pass", () => {
+      expect(allTargetsPassed([{ target: "a", testRun: createTestRun(TestRunStatus.PASS, []) }])).toBe(true);
+      expect(allTargetsPassed([
+        { target: "a", testRun: createTestRun(TestRunStatus.PASS, []) },
+        { target: "b", testRun: createTestRun(TestRunStatus.PENDING, []) },
+      ])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { TestCaseResultStatus, TestRunStartParams, TestRunStatus, TestRunWithResults } from "../services/types";
+
+export interface BatchTarget {
+  name: string;
+  params: TestRunStartParams;
+}
+
+export interface BatchTargetResult {
+  target: string;
+  testRun?: TestRunWithResults;
+  // Set if the test run could not be executed, e.g. because authentication failed
+  error?: string;
+}
+
+// Status of every test case (row) for every target (column)
+export interface BatchMatrixRow {
+  testKey: string;
+  name: string;
+  // Whether the test case is mandatory for any of the targets
+  mandatory: boolean;
+  // Undefined if the test case was not executed for a target
+  statuses: Record<string, TestCaseResultStatus | undefined>;
+}
+
+/**
+ * Runs the test runs of several targets, with at most `concurrency` test runs in flight.
+ * A target whose test run throws does not stop the other targets, its error is returned
+ * in its result instead.
+ *
+ * @returns The results in the same order as the targets, regardless of the order in
+ * which they finished.
+ */
+export const runBatch = async (
+  targets: BatchTarget[],
+  concurrency: number,
+  run: (target: BatchTarget) => Promise<TestRunWithResults>,
+  onFinished?: (result: BatchTargetResult) => void
+): Promise<BatchTargetResult[]> => {
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  const results: BatchTargetResult[] = new Array(targets.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < targets.length) {
+      const index = next++;
+      const target = targets[index];
+      try {
+        results[index] = { target: target.name, testRun: await run(target) };
+      } catch (error: any) {
+        results[index] = { target: target.name, error: error?.message ?? String(error) };
+      }
+      onFinished?.(results[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, targets.length) }, runNext));
+  return results;
+};
+
+/**
+ * Combines the results of all targets into a matrix of test case by target status. Test
+ * cases are listed in the order they were first reported by any target.
+ */
+export const toBatchMatrix = (results: BatchTargetResult[]): BatchMatrixRow[] => {
+  const rows = new Map<string, BatchMatrixRow>();
+
+  for (const { target, testRun } of results) {
+    for (const result of testRun?.results ?? []) {
+      let row = rows.get(result.testKey);
+      if (!row) {
+        row = { testKey: result.testKey, name: result.name, mandatory: false, statuses: {} };
+        rows.set(result.testKey, row);
+      }
+      row.mandatory ||= result.mandatory;
+      row.statuses[target] = result.status;
+    }
+  }
+
+  return [...rows.values()].map((row) => ({
+    ...row,
+    statuses: Object.fromEntries(results.map(({ target }) => [target, row.statuses[target]])),
+  }));
+};
+
+/**
+ * Whether every target passed, i.e. none failed a mandatory test case, is still waiting
+ * for a callback or could not be tested at all.
+ */
+export const allTargetsPassed = (results: BatchTargetResult[]): boolean =>
+  results.every((result) => result.testRun?.status === TestRunStatus.PASS);
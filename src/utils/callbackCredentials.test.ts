@@ -0,0 +1,21 @@
+import { generateCallbackCredentials, verifyCallbackSecret } from "./callbackCredentials";
+
+describe("callbackCredentials", () => {
+  it("uses the test run ID as client ID and a new secret for every test run", () => {
+    const first = generateCallbackCredentials("run-1");
+    const second = generateCallbackCredentials("run-1");
+
+    expect(first.clientId).toBe("run-1");
+    expect(first.clientSecret).not.toBe(second.clientSecret);
+    expect(first.secretHash).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(first.secretHash).not.toContain(first.clientSecret);
+  });
+
+  it("verifies a secret against its hash", () => {
+    const { clientSecret, secretHash } = generateCallbackCredentials("run-1");
+
+    expect(verifyCallbackSecret(clientSecret, secretHash)).toBe(true);
+    expect(verifyCallbackSecret("wrong", secretHash)).toBe(false);
+    expect(verifyCallbackSecret(clientSecret, "sha256:invalid")).toBe(false);
+  });
+});
@@ -0,0 +1,23 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { CallbackCredentials } from "../services/types";
+
+const hashSecret = (secret: string) => `sha256:${createHash("sha256").update(secret).digest("hex")}`;
+
+/**
+ * Generates the credentials the tested system uses to obtain a token for the callbacks of a
+ * test run. The client ID is the ID of the test run, so the token can be issued for it.
+ * @returns The credentials with the secret, which is only shown once, and its hash to store.
+ */
+export const generateCallbackCredentials = (testRunId: string): Required<CallbackCredentials> => {
+  const clientSecret = randomBytes(32).toString("base64url");
+  return { clientId: testRunId, clientSecret, secretHash: hashSecret(clientSecret) };
+};
+
+/**
+ * Compares a secret with the stored hash of the callback credentials, in constant time.
+ */
+export const verifyCallbackSecret = (secret: string, secretHash: string): boolean => {
+  const expected = Buffer.from(secretHash);
+  const actual = Buffer.from(hashSecret(secret));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
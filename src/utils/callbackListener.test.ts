@@ -0,0 +1,123 @@
+import { startCallbackListener, waitForCallbacks } from "./callbackListener";
+import { ConsoleTestStorage } from "../services/console-test-storage";
+import { EventHandler } from "../services/event-handler";
+import { ProgressEmitter } from "../services/progress-emitter";
+import {
+  TestCaseResultStatus,
+  TestResult,
+  TestRunProgressEventType,
+  TestRunStatus,
+} from "../services/types";
+import { OAuthError } from "../errors";
+
+jest.mock("./logger", () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe("callbackListener", () => {
+  describe("startCallbackListener", () => {
+    const eventHandler = {
+      parseTokenRequest: jest.fn().mockReturnValue({ clientId: "id", clientSecret: "wrong" }),
+      authenticate: jest.fn().mockRejectedValue(new OAuthError(401, "invalid_client", "Invalid client credentials")),
+      processEvent: jest.fn().mockResolvedValue(undefined),
+    } as unknown as EventHandler;
+
+    it("passes callback events to the event handler", async () => {
+      const listener = await startCallbackListener(0, () => eventHandler);
+      try {
+        expect(listener.url).toMatch(/^http:\/\/localhost:\d+$/);
+
+        const event = { type: "org.wbcsd.pathfinder.ProductFootprint.Published.v1", data: { requestEventId: "run-1" } };
+        const response = await fetch(`${listener.url}/3/events`, {
+          method: "POST",
+          headers: { "Content-Type": "application/cloudevents+json", Authorization: "Bearer token" },
+          body: JSON.stringify(event),
+        });
+
+        expect(response.status).toBe(200);
+        expect(eventHandler.processEvent).toHaveBeenCalledWith(event, "/3/events", "Bearer token", "application/cloudevents+json");
+      } finally {
+        await listener.close();
+      }
+    });
+
+    it("creates the event handler with the URL of the bound port", async () => {
+      const createEventHandler = jest.fn(() => eventHandler);
+      const listener = await startCallbackListener(0, createEventHandler);
+      try {
+        expect(listener.url).not.toBe("http://localhost:0");
+        expect(createEventHandler).toHaveBeenCalledWith(listener.url);
+      } finally {
+        await listener.close();
+      }
+    });
+
+    it("responds with OAuth errors to token requests", async () => {
+      const listener = await startCallbackListener(0, () => eventHandler);
+      try {
+        const response = await fetch(`${listener.url}/auth/token`, {
+          method: "POST",
+          body: new URLSearchParams({ grant_type: "client_credentials", client_id: "id", client_secret: "wrong" }),
+        });
+        expect(response.status).toBe(401);
+        expect(response.headers.get("www-authenticate")).toContain("Basic");
+        expect(await response.json()).toEqual({ error: "invalid_client", error_description: "Invalid client credentials" });
+        expect(eventHandler.parseTokenRequest).toHaveBeenCalledWith(
+          undefined,
+          { grant_type: "client_credentials", client_id: "id", client_secret: "wrong" }
+        );
+      } finally {
+        await listener.close();
+      }
+    });
+  });
+
+  describe("waitForCallbacks", () => {
+    const testRunId = "test-run-123";
+    const result = (testKey: string, status: TestCaseResultStatus) =>
+      ({ testKey, name: `Test Case ${testKey}`, status, mandatory: true, success: status === TestCaseResultStatus.SUCCESS }) as TestResult;
+
+    let storage: ConsoleTestStorage;
+    let progress: ProgressEmitter;
+
+    beforeEach(async () => {
+      storage = new ConsoleTestStorage();
+      progress = new ProgressEmitter();
+      await storage.saveTestRun({
+        testRunId,
+        timestamp: "2024-01-01T00:00:00.000Z",
+        organizationName: "Acme Corp",
+        adminEmail: "admin@acme.com",
+        adminName: "John Doe",
+        techSpecVersion: "V3.0",
+        status: TestRunStatus.PENDING,
+        data: null,
+      });
+      await storage.saveTestCaseResults(testRunId, [
+        result("TESTCASE#1", TestCaseResultStatus.SUCCESS),
+        result("TESTCASE#13", TestCaseResultStatus.PENDING),
+      ], false);
+    });
+
+    it("resolves when the callback of the last pending test case was received", async () => {
+      const waiting = waitForCallbacks(storage, progress, testRunId, 10000);
+
+      await storage.saveTestCaseResults(testRunId, [result("TESTCASE#13", TestCaseResultStatus.SUCCESS)], true);
+      progress.emit({ type: TestRunProgressEventType.TESTRUN_UPDATED, testRunId, timestamp: new Date().toISOString() });
+
+      const testRun = await waiting;
+      expect(testRun.results.map((r) => r.status)).toEqual([TestCaseResultStatus.SUCCESS, TestCaseResultStatus.SUCCESS]);
+      expect(progress.hasSubscribers(testRunId)).toBe(false);
+    });
+
+    it("returns the pending results when the timeout has passed", async () => {
+      const testRun = await waitForCallbacks(storage, progress, testRunId, 10);
+
+      expect(testRun.results[1].status).toBe(TestCaseResultStatus.PENDING);
+      expect(progress.hasSubscribers(testRunId)).toBe(false);
+    });
+  });
+});
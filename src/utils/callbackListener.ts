@@ -0,0 +1,97 @@
+import express from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import { errorHandler } from "../middleware/error-handler";
+import { callbackRouter } from "../routes/callbacks";
+import { EventHandler } from "../services/event-handler";
+import { ProgressEmitter } from "../services/progress-emitter";
+import {
+  TestCaseResultStatus,
+  TestRunProgressEventType,
+  TestRunWithResults,
+  TestStorage,
+} from "../services/types";
+import logger from "./logger";
+
+export interface CallbackListener {
+  // Base URL of the listener, e.g. http://localhost:8080
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts an HTTP server for the callbacks of the tested APIs (/auth/token, /2/events and
+ * /3/events), so the CLI can resolve callback test cases without the conformance service.
+ * @param port - Port to listen on, 0 for a random free port.
+ * @param createEventHandler - Creates the event handler once the port is bound, from the URL of
+ * the listener, which is the issuer of the callback tokens unless a public URL is used.
+ */
+export const startCallbackListener = (
+  port: number,
+  createEventHandler: (url: string) => EventHandler
+): Promise<CallbackListener> => {
+  const app = express();
+  app.use(express.json({ type: ["application/json", "application/cloudevents+json"] }));
+  app.use(callbackRouter);
+  app.use(errorHandler);
+
+  const server = http.createServer(app);
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      const url = `http://localhost:${(server.address() as AddressInfo).port}`;
+      app.locals.services = { eventHandler: createEventHandler(url) };
+      logger.info(`Listening for callbacks on ${url}`);
+      resolve({
+        url,
+        close: () => new Promise((done) => {
+          server.close(() => done());
+          // Do not wait for tested APIs keeping their connections open
+          server.closeAllConnections();
+        }),
+      });
+    });
+  });
+};
+
+const hasPendingResults = (testRun: TestRunWithResults) =>
+  testRun.results.some((result) => result.status === TestCaseResultStatus.PENDING);
+
+/**
+ * Waits until the callback test cases of a test run are no longer pending, or until the
+ * timeout has passed.
+ * @returns The test run with its results, test cases without callback are still PENDING.
+ */
+export const waitForCallbacks = async (
+  storage: TestStorage,
+  progress: ProgressEmitter,
+  testRunId: string,
+  timeout: number
+): Promise<TestRunWithResults> => {
+  let unsubscribe = () => {};
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const check = () => storage.getTestRunWithResults(testRunId).then((testRun) => {
+        if (!hasPendingResults(testRun)) {
+          resolve();
+        }
+      }, reject);
+
+      // Subscribe first, so no callback is missed between the check and the subscription
+      unsubscribe = progress.subscribe(testRunId, (event) => {
+        if (event.type === TestRunProgressEventType.TESTRUN_UPDATED) {
+          check();
+        }
+      });
+      timer = setTimeout(resolve, timeout);
+      check();
+    });
+  } finally {
+    clearTimeout(timer);
+    unsubscribe();
+  }
+
+  return await storage.getTestRunWithResults(testRunId);
+};
@@ -0,0 +1,142 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { loadCliProfile, loadCliTargets, parseTestCaseList } from "./cliConfig";
+
+describe("cliConfig", () => {
+  let directory: string;
+
+  const writeConfig = (name: string, content: string) => {
+    const file = path.join(directory, name);
+    writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "pact-cli-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe("parseTestCaseList", () => {
+    it("expands ranges and removes duplicates", () => {
+      expect(parseTestCaseList("9, 1-3,2")).toEqual([1, 2, 3, 9]);
+    });
+  });
+
+  describe("loadCliProfile", () => {
+    const yaml = `
+defaults:
+  version: V3.0
+  organizationName: Acme Corp
+profiles:
+  staging:
+    baseUrl: https://staging.example.com
+    clientId: staging-client
+    clientSecret: \${STAGING_SECRET}
+    testCases: 1-2,9
+  production:
+    baseUrl: https://api.example.com
+    clientId: production-client
+    clientSecret: \${PRODUCTION_SECRET}
+    version: V2.3
+`;
+
+    it("merges the defaults into the selected profile and interpolates environment variables", () => {
+      const file = writeConfig("pact.yaml", yaml);
+
+      expect(loadCliProfile(file, "staging", { STAGING_SECRET: "s3cr3t" })).toEqual({
+        version: "V3.0",
+        organizationName: "Acme Corp",
+        baseUrl: "https://staging.example.com",
+        clientId: "staging-client",
+        clientSecret: "s3cr3t",
+        testCaseNumbers: [1, 2, 9],
+      });
+    });
+
+    it("names the key of an environment variable which is not set", () => {
+      const file = writeConfig("pact.yaml", yaml);
+
+      expect(() => loadCliProfile(file, "staging", {})).toThrow(
+        "profiles.staging.clientSecret references environment variable STAGING_SECRET, which is not set"
+      );
+    });
+
+    it("requires a profile to be selected if the file contains several", () => {
+      const file = writeConfig("pact.yaml", yaml);
+
+      expect(() => loadCliProfile(file, undefined, {})).toThrow("select one with --profile: staging, production");
+      expect(() => loadCliProfile(file, "test", {})).toThrow("Profile test not found");
+    });
+
+    it("reads a JSON file with the settings of a single profile", () => {
+      const file = writeConfig("pact.json", JSON.stringify({
+        baseUrl: "https://api.example.com",
+        clientId: "client",
+        version: "V2.2",
+        testCases: [4, 5],
+      }));
+
+      expect(loadCliProfile(file, undefined, {})).toEqual({
+        baseUrl: "https://api.example.com",
+        clientId: "client",
+        version: "V2.2",
+        testCaseNumbers: [4, 5],
+      });
+    });
+
+    it("reports every invalid setting with its key", () => {
+      const file = writeConfig("pact.yaml", `
+profiles:
+  staging:
+    baseUrl: not a url
+    version: V4.0
+    clientSecrett: secret
+    testCases: all
+`);
+
+      expect(() => loadCliProfile(file, "staging", {})).toThrow(
+        [
+          `Invalid configuration file ${file}:`,
+          "  profiles.staging.clientSecrett is not a known setting",
+          `  profiles.staging.baseUrl must match format "uri"`,
+          "  profiles.staging.version must be one of V2.0, V2.1, V2.2, V2.3, V3.0",
+          `  profiles.staging.testCases must be a list of test case numbers and ranges, e.g. "1-2,9" or [1, 2, 9]`,
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("loadCliTargets", () => {
+    it("loads the selected profiles with the defaults", () => {
+      const file = writeConfig("tenants.yaml", `
+defaults:
+  version: V3.0
+profiles:
+  tenant-a:
+    clientSecret: \${TENANT_A_SECRET}
+  tenant-b:
+    clientSecret: \${TENANT_B_SECRET}
+`);
+
+      expect(loadCliTargets(file, ["tenant-b"], { TENANT_B_SECRET: "b" })).toEqual([
+        { name: "tenant-b", params: { version: "V3.0", clientSecret: "b" } },
+      ]);
+    });
+
+    it("loads a list of targets, naming the ones without a name by position", () => {
+      const file = writeConfig("targets.json", JSON.stringify([
+        { name: "acme", baseUrl: "https://acme.example.com" },
+        { baseUrl: "https://other.example.com", version: "V9" },
+      ]));
+
+      expect(() => loadCliTargets(file, undefined, {})).toThrow("1.version must be one of");
+      expect(loadCliTargets(file, ["acme"], {})).toEqual([
+        { name: "acme", params: { baseUrl: "https://acme.example.com" } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { readFileSync } from "fs";
+import * as yaml from "js-yaml";
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import { ApiVersion, TestRunStartParams } from "../services/types";
+
+const API_VERSIONS: ApiVersion[] = ["V2.0", "V2.1", "V2.2", "V2.3", "V3.0"];
+
+// Name of the profile of a file without "profiles"
+const DEFAULT_PROFILE = "default";
+
+// Settings of a profile, every setting can also be given as command-line argument
+export interface CliProfile {
+  baseUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  version?: ApiVersion;
+  organizationName?: string;
+  customAuthBaseUrl?: string;
+  scope?: string;
+  audience?: string;
+  resource?: string;
+  adminEmail?: string;
+  adminName?: string;
+  footprintId?: string;
+  // Test case numbers and ranges, e.g. "1-2,9", 9 or [1, 2, 9]
+  testCases?: string | number | number[];
+}
+
+export interface CliConfigFile {
+  // Settings shared by all profiles
+  defaults?: CliProfile;
+  profiles?: Record<string, CliProfile>;
+}
+
+const profileSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    baseUrl: { type: "string", format: "uri" },
+    clientId: { type: "string", minLength: 1 },
+    clientSecret: { type: "string", minLength: 1 },
+    version: { type: "string", enum: API_VERSIONS },
+    organizationName: { type: "string", minLength: 1 },
+    customAuthBaseUrl: { type: "string", format: "uri" },
+    scope: { type: "string" },
+    audience: { type: "string" },
+    resource: { type: "string" },
+    adminEmail: { type: "string", format: "email" },
+    adminName: { type: "string" },
+    footprintId: { type: "string", minLength: 1 },
+    testCases: {
+      oneOf: [
+        { type: "string", pattern: "^\\s*\\d+(\\s*-\\s*\\d+)?(\\s*,\\s*\\d+(\\s*-\\s*\\d+)?)*\\s*$" },
+        { type: "integer", minimum: 1 },
+        { type: "array", items: { type: "integer", minimum: 1 } },
+      ],
+    },
+  },
+};
+
+// Only the structure, profiles are validated when they are loaded
+const configFileSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    defaults: { type: "object" },
+    profiles: {
+      type: "object",
+      additionalProperties: { type: "object" },
+    },
+  },
+};
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+const validateConfigFile = ajv.compile(configFileSchema);
+const validateProfile = ajv.compile(profileSchema);
+
+/**
+ * Parses a comma-separated list of test case numbers and ranges (e.g. "1-2,9" -> [1, 2, 9]).
+ */
+export function parseTestCaseList(raw: string): number[] {
+  const result: number[] = [];
+  for (const part of raw.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const dash = part.indexOf("-");
+    if (dash >= 0) {
+      const lo = parseInt(part.slice(0, dash).trim(), 10);
+      const hi = parseInt(part.slice(dash + 1).trim(), 10);
+      if (!Number.isNaN(lo) && !Number.isNaN(hi) && lo <= hi) {
+        for (let n = lo; n <= hi; n++) result.push(n);
+      }
+    } else {
+      const n = parseInt(part, 10);
+      if (!Number.isNaN(n)) result.push(n);
+    }
+  }
+  return [...new Set(result)].sort((a, b) => a - b);
+}
+
+// Formats a JSON pointer like "/profiles/staging/baseUrl" as "profiles.staging.baseUrl"
+const formatKey = (pointer: string) =>
+  pointer.split("/").slice(1).map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~")).join(".");
+
+// The key is not followed by a colon, "clientSecret: ..." would be masked in the logs
+const formatError = (error: ErrorObject, prefix: string[]): string => {
+  const key = [...prefix, formatKey(error.instancePath)].filter(Boolean).join(".");
+  if (error.keyword === "additionalProperties") {
+    const unknownKey = [key, error.params.additionalProperty].filter(Boolean).join(".");
+    return `${unknownKey} is not a known setting`;
+  }
+  if (error.keyword === "enum") {
+    return `${key} must be one of ${error.params.allowedValues.join(", ")}`;
+  }
+  if (error.keyword === "oneOf") {
+    return `${key} must be a list of test case numbers and ranges, e.g. "1-2,9" or [1, 2, 9]`;
+  }
+  return `${key || "The file"} ${error.message}`;
+};
+
+/**
+ * Replaces ${ENV_VAR} in all string values with the value of the environment variable,
+ * so secrets do not have to be stored in the configuration file.
+ * @throws Error naming the key of the value if an environment variable is not set.
+ */
+export function interpolateEnvVars<T>(value: T, env: NodeJS.ProcessEnv, key: string[] = []): T {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+      const envValue = env[name];
+      if (envValue === undefined) {
+        throw new Error(`${key.join(".")} references environment variable ${name}, which is not set`);
+      }
+      return envValue;
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnvVars(item, env, [...key, String(index)])) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, interpolateEnvVars(item, env, [...key, name])])
+    ) as T;
+  }
+  return value;
+}
+
+const validate = (value: unknown, validator: ValidateFunction, file: string, prefix: string[]) => {
+  if (!validator(value)) {
+    const errors = (validator.errors ?? [])
+      // The "oneOf" error already explains what is expected for testCases
+      .filter((error) => !error.schemaPath.includes("/oneOf/"))
+      .map((error) => formatError(error, prefix));
+    throw new Error(`Invalid configuration file ${file}:\n  ${[...new Set(errors)].join("\n  ")}`);
+  }
+};
+
+// A configuration file with the key of every profile, for naming invalid settings
+interface ParsedConfigFile {
+  defaults: CliProfile;
+  profiles: Record<string, CliProfile>;
+  keys: Record<string, string[]>;
+}
+
+const parseConfigFile = (file: string): ParsedConfigFile => {
+  let content: unknown;
+  try {
+    // JSON is a subset of YAML, so both are parsed as YAML
+    content = yaml.load(readFileSync(file, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read configuration file ${file}: ${error.message}`);
+  }
+
+  // A list of targets, each with the settings of a profile and an optional name
+  if (Array.isArray(content)) {
+    const parsed: ParsedConfigFile = { defaults: {}, profiles: {}, keys: {} };
+    content.forEach((item, index) => {
+      const { name = `target-${index + 1}`, ...profile } = item ?? {};
+      if (parsed.profiles[name]) {
+        throw new Error(`Invalid configuration file ${file}:\n  ${index}.name ${name} is used by several targets`);
+      }
+      parsed.profiles[String(name)] = profile;
+      parsed.keys[String(name)] = [String(index)];
+    });
+    return parsed;
+  }
+
+  // A file without profiles contains the settings of a single profile at the top level
+  if (content !== null && typeof content === "object" && !("profiles" in content) && !("defaults" in content)) {
+    return { defaults: {}, profiles: { [DEFAULT_PROFILE]: content as CliProfile }, keys: { [DEFAULT_PROFILE]: [] } };
+  }
+
+  validate(content, validateConfigFile, file, []);
+  const { defaults = {}, profiles = {} } = content as CliConfigFile;
+  const keys = Object.fromEntries(Object.keys(profiles).map((name) => [name, ["profiles", name]]));
+  return { defaults, profiles, keys };
+};
+
+// Interpolates, validates and merges the settings of a profile with the defaults
+const resolveProfile = (
+  file: string,
+  { defaults, profiles, keys }: ParsedConfigFile,
+  name: string,
+  env: NodeJS.ProcessEnv
+): Partial<TestRunStartParams> => {
+  if (!profiles[name]) {
+    throw new Error(`Profile ${name} not found in ${file}, available profiles: ${Object.keys(profiles).join(", ")}`);
+  }
+
+  const defaultSettings = interpolateEnvVars(defaults, env, ["defaults"]);
+  const profileSettings = interpolateEnvVars(profiles[name], env, keys[name]);
+  validate(defaultSettings, validateProfile, file, ["defaults"]);
+  validate(profileSettings, validateProfile, file, keys[name]);
+
+  const { testCases, ...params } = { ...defaultSettings, ...profileSettings };
+  return {
+    ...params,
+    ...(testCases !== undefined && {
+      testCaseNumbers: Array.isArray(testCases) ? testCases : parseTestCaseList(String(testCases)),
+    }),
+  };
+};
+
+/**
+ * Loads the test run parameters of a profile from a configuration file. Profile settings
+ * are either given at the top level of the file, or as named profiles below "profiles",
+ * which share the settings below "defaults", or as a list of targets. Only the settings of
+ * the profile and the defaults are interpolated, so the environment variables of other
+ * profiles do not have to be set.
+ * @param profileName - Name of the profile, may be omitted if the file contains a single profile.
+ * @throws Error naming the key of every invalid setting, or if the profile does not exist.
+ */
+export function loadCliProfile(
+  file: string,
+  profileName?: string,
+  env: NodeJS.ProcessEnv = process.env
+): Partial<TestRunStartParams> {
+  const parsed = parseConfigFile(file);
+  const names = Object.keys(parsed.profiles);
+
+  if (names.length === 0) {
+    throw new Error(`Configuration file ${file} does not contain any profiles`);
+  }
+  const name = profileName ?? (names.length === 1 ? names[0] : undefined);
+  if (!name) {
+    throw new Error(`Configuration file ${file} contains several profiles, select one with --profile: ${names.join(", ")}`);
+  }
+  return resolveProfile(file, parsed, name, env);
+}
+
+/**
+ * Loads the test run parameters of several profiles, e.g. to test every tenant of a platform
+ * in batch mode. A list of targets may give each target a "name", targets without a name are
+ * named by their position, e.g. "target-2".
+ * @param profileNames - Names of the profiles to load, all profiles of the file if omitted.
+ * @returns The parameters of every profile by profile name, in the order of the file.
+ */
+export function loadCliTargets(
+  file: string,
+  profileNames?: string[],
+  env: NodeJS.ProcessEnv = process.env
+): { name: string; params: Partial<TestRunStartParams> }[] {
+  const parsed = parseConfigFile(file);
+  const names = profileNames ?? Object.keys(parsed.profiles);
+
+  if (names.length === 0) {
+    throw new Error(`Configuration file ${file} does not contain any profiles`);
+  }
+  return names.map((name) => ({ name, params: resolveProfile(file, parsed, name, env) }));
+}
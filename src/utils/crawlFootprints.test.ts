@@ -0,0 +1,172 @@
+import { HttpExchange } from "../services/types";
+import { checkNextLinkChain, crawlFootprints, firstPageCount, tamperNextLink } from "./crawlFootprints";
+
+const START_URL = "https://api.example.com/3/footprints?limit=2";
+
+const page = (ids: string[], next?: string, status = 200) => ({
+  status,
+  ok: status === 200,
+  statusText: status === 200 ? "OK" : "Unauthorized",
+  text: async () => JSON.stringify({ data: ids.map((id) => ({ id })) }),
+  headers: new Headers(next ? { Link: `<${next}>; rel="next"` } : {}),
+});
+
+const mockPages = (...pages: ReturnType<typeof page>[]) => {
+  global.fetch = jest.fn();
+  pages.forEach((p) => (global.fetch as jest.Mock).mockResolvedValueOnce(p));
+};
+
+describe("crawlFootprints", () => {
+  it("follows the next links until a page has none", async () => {
+    mockPages(
+      page(["a", "b"], "/3/footprints?limit=2&cursor=2"),
+      page(["c", "d"], "https://api.example.com/3/footprints?limit=2&cursor=3"),
+      page(["e"])
+    );
+
+    const crawl = await crawlFootprints(START_URL, "token");
+
+    expect(crawl.complete).toBe(true);
+    expect(crawl.issues).toEqual([]);
+    expect(crawl.footprints.map((fp) => fp.id)).toEqual(["a", "b", "c", "d", "e"]);
+    expect(crawl.pages.map((p) => p.url)).toEqual([
+      START_URL,
+      "https://api.example.com/3/footprints?limit=2&cursor=2",
+      "https://api.example.com/3/footprints?limit=2&cursor=3",
+    ]);
+    expect((global.fetch as jest.Mock).mock.calls[0][1].headers.Authorization).toBe("Bearer token");
+    expect(firstPageCount({ data: crawl.footprints, crawl })).toBe(2);
+  });
+
+  it("reports duplicate footprints and inconsistent page sizes", async () => {
+    mockPages(page(["a", "b"], "/p2"), page(["b"], "/p3"), page(["c", "d", "e"]));
+
+    const crawl = await crawlFootprints(START_URL, "token");
+
+    expect(crawl.complete).toBe(true);
+    expect(crawl.issues).toEqual([
+      "Footprint b is listed on page 1 and on page 2",
+      "Page 2 lists 1 footprints, page 1 lists 2",
+      "Page 3 lists 3 footprints, page 1 lists 2",
+    ]);
+  });
+
+  it("stops at the page limit and at pages which can not be fetched", async () => {
+    mockPages(page(["a"], "/p2"), page(["b"], "/p3"), page(["c"], "/p4"));
+    const capped = await crawlFootprints(START_URL, "token", 2);
+    expect(capped.complete).toBe(false);
+    expect(capped.issues).toEqual(["Stopped after 2 pages, page 2 still links to a next page"]);
+
+    mockPages(page(["a"], "/p2"), page([], undefined, 401));
+    const failed = await crawlFootprints(START_URL, "token");
+    expect(failed.complete).toBe(false);
+    expect(failed.issues).toEqual(["Page 2 (https://api.example.com/p2) responded with status 401"]);
+  });
+
+  it("stops at pages after the first one which time out or fail without response", async () => {
+    mockPages(page(["a"], "/p2"));
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new DOMException("The operation was aborted due to timeout", "TimeoutError"));
+    const timedOut = await crawlFootprints(START_URL, "token");
+    expect(timedOut.complete).toBe(false);
+    expect(timedOut.footprints.map((fp) => fp.id)).toEqual(["a"]);
+    expect(timedOut.issues).toEqual([expect.stringMatching(/^Page 2 \(https:\/\/api\.example\.com\/p2\) could not be fetched: no response within \d+ms$/)]);
+
+    mockPages(page(["a"], "/p2"));
+    (global.fetch as jest.Mock).mockRejectedValueOnce(Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } }));
+    const failed = await crawlFootprints(START_URL, "token");
+    expect(failed.issues).toEqual(["Page 2 (https://api.example.com/p2) could not be fetched: fetch failed (ECONNRESET)"]);
+  });
+
+  it("does not follow next links to another host or protocol", async () => {
+    mockPages(page(["a"], "https://attacker.example.com/steal"));
+    const otherHost = await crawlFootprints(START_URL, "token");
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(otherHost.complete).toBe(false);
+    expect(otherHost.issues).toEqual([
+      "The next link of page 1 (https://attacker.example.com/steal) points to host attacker.example.com " +
+        "instead of api.example.com, it was not followed",
+    ]);
+
+    mockPages(page(["a"], "file:///etc/passwd"));
+    const otherProtocol = await crawlFootprints(START_URL, "token");
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(otherProtocol.issues).toEqual([
+      "The next link of page 1 (file:///etc/passwd) uses the protocol file: instead of HTTP(S), it was not followed",
+    ]);
+
+    mockPages(page(["a"], "http://api.example.com/p2"));
+    const downgraded = await crawlFootprints(START_URL, "token");
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(downgraded.issues).toEqual([
+      "The next link of page 1 (http://api.example.com/p2) uses the protocol http: instead of https:, it was not followed",
+    ]);
+  });
+
+  it("reports footprints without id instead of listing them as duplicates", async () => {
+    global.fetch = jest.fn().mockResolvedValueOnce({
+      ...page([]),
+      text: async () => JSON.stringify({ data: [{ id: "a" }, { productIds: ["p1"] }, { productIds: ["p2"] }] }),
+    });
+
+    const crawl = await crawlFootprints(START_URL, "token");
+
+    expect(crawl.footprints).toHaveLength(3);
+    expect(crawl.issues).toEqual(["2 footprints on page 1 have no id"]);
+  });
+
+  it("records the request and response of every page", async () => {
+    mockPages(page(["a"], "/p2"), page([], undefined, 401));
+    const exchanges: HttpExchange[] = [];
+
+    await crawlFootprints(START_URL, "token", 10, exchanges);
+
+    expect(exchanges.map((exchange) => [exchange.request.url, exchange.response?.status])).toEqual([
+      [START_URL, 200],
+      ["https://api.example.com/p2", 401],
+    ]);
+  });
+
+  it("throws if the first page can not be fetched", async () => {
+    mockPages(page([], undefined, 401));
+
+    await expect(crawlFootprints(START_URL, "token")).rejects.toThrow(
+      `Error fetching footprints from ${START_URL}: 401 Unauthorized`
+    );
+  });
+});
+
+describe("checkNextLinkChain", () => {
+  const crawl = { footprints: [{ id: "a" }], pages: [{ url: START_URL, count: 1 }], complete: true, issues: [] };
+
+  it("fails when footprints of the listing are missing on the pages", () => {
+    const messages: string[] = [];
+
+    expect(checkNextLinkChain(crawl, { data: [{ id: "a" }, { id: "b" }] }, messages)).toBe(false);
+    expect(messages).toEqual(["Footprints b are listed without limit, but not on the pages"]);
+  });
+
+  it("passes when every footprint of the listing is on the pages", () => {
+    expect(checkNextLinkChain(crawl, { data: [{ id: "a" }] }, [])).toBe(true);
+  });
+
+  it("does not report footprints without id as missing", () => {
+    const messages: string[] = [];
+
+    expect(checkNextLinkChain(crawl, { data: [{ id: "a" }, { productIds: ["p1"] }] }, messages)).toBe(true);
+    expect(messages).toEqual([]);
+  });
+});
+
+describe("tamperNextLink", () => {
+  it("tampers with every query parameter but the limit", () => {
+    const url = new URL(tamperNextLink("https://api.example.com/3/footprints?limit=2&cursor=eyJvZmZzZXQiOjJ9")!);
+
+    expect(url.searchParams.get("limit")).toBe("2");
+    expect(url.searchParams.get("cursor")).toMatch(/^eyJvZmZzZXQi[a-zA-Z0-9]{4}$/);
+    expect(url.searchParams.get("cursor")).not.toBe("eyJvZmZzZXQiOjJ9");
+  });
+
+  it("returns undefined if there is no cursor parameter", () => {
+    expect(tamperNextLink("https://api.example.com/3/footprints/pages/abc?limit=2")).toBeUndefined();
+  });
+});
@@ -0,0 +1,309 @@
+import config from "../config";
+import { HttpResponseError } from "../errors";
+import { HttpExchange } from "../services/types";
+import { randomString } from "./authUtils";
+import { fetchWithExchange } from "./httpExchange";
+
+// A page of footprints requested while following the next links of ListFootprints
+export interface FootprintPage {
+  url: string;
+  count: number;
+  // Absolute URL of the next page, resolved against the URL of the page
+  next?: string;
+  // Next link as returned in the Link header
+  link?: string;
+}
+
+export interface FootprintCrawl {
+  // Footprints of all pages, without duplicates
+  footprints: any[];
+  pages: FootprintPage[];
+  // Whether a page without a next link was reached
+  complete: boolean;
+  // Loops, duplicate footprints, footprints without id, inconsistent page sizes and pages
+  // which could not be fetched
+  issues: string[];
+}
+
+/**
+ * Lists the footprints of all pages, starting at the given ListFootprints URL and following
+ * the Link header with rel="next" until a page has none, at most maxPages pages. Problems of
+ * the pagination are collected as issues instead of failing the crawl, a page after the first
+ * one which can not be fetched stops the crawl. Next links to another host or protocol than the
+ * one of the first page are not followed, the access token is never sent to another host. Footprints without id are listed, but can not
+ * be told apart from each other and are only reported as issues.
+ * @param exchanges - Collects the request and response of every page, also if the crawl fails.
+ * @throws Error if the first page can not be requested, responds with an error or contains no
+ * footprint data.
+ */
+export const crawlFootprints = async (
+  url: string,
+  accessToken: string,
+  maxPages: number = config.PAGINATION_MAX_PAGES,
+  exchanges: HttpExchange[] = []
+): Promise<FootprintCrawl> => {
+  const crawl: FootprintCrawl = { footprints: [], pages: [], complete: false, issues: [] };
+  // Page number every footprint was first listed on, by its id
+  const listedOn = new Map<string, number>();
+  let next: string | undefined = url;
+
+  while (next && crawl.pages.length < maxPages) {
+    const pageUrl: string = next;
+    const pageNumber = crawl.pages.length + 1;
+    if (crawl.pages.some((page) => page.url === pageUrl)) {
+      crawl.issues.push(`The next link of page ${pageNumber - 1} points to an earlier page (${pageUrl}), the next links form a loop`);
+      return checkPageSizes(crawl);
+    }
+    // The access token is sent with every page, next links are only followed on the host and
+    // with the protocol of the first page
+    const target = pageNumber > 1 && checkLinkTarget(pageUrl, url);
+    if (target) {
+      crawl.issues.push(`The next link of page ${pageNumber - 1} (${pageUrl}) ${target}, it was not followed`);
+      return checkPageSizes(crawl);
+    }
+
+    const { response, body: text, error, exchange } = await fetchWithExchange(pageUrl, {
+      method: "GET",
+      headers: { Accept: "application/json", Authorization: `Bearer ${accessToken}` },
+      signal: AbortSignal.timeout(config.TESTCASE_TIMEOUT),
+    });
+    exchanges.push(exchange);
+    if (error || !response) {
+      if (pageNumber === 1) {
+        throw error;
+      }
+      crawl.issues.push(`Page ${pageNumber} (${pageUrl}) could not be fetched: ${describeFetchError(error)}`);
+      return checkPageSizes(crawl);
+    }
+    if (!response.ok) {
+      if (pageNumber === 1) {
+        throw new HttpResponseError(
+          response.status,
+          `Error fetching footprints from ${pageUrl}: ${response.status} ${response.statusText}`
+        );
+      }
+      crawl.issues.push(`Page ${pageNumber} (${pageUrl}) responded with status ${response.status}`);
+      return checkPageSizes(crawl);
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(text ?? "");
+    } catch {
+      body = undefined;
+    }
+    if (!Array.isArray(body?.data)) {
+      if (pageNumber === 1) {
+        throw new Error(`No footprint data returned from the API. Called ${pageUrl}`);
+      }
+      crawl.issues.push(`Page ${pageNumber} (${pageUrl}) contains no footprint data`);
+      return checkPageSizes(crawl);
+    }
+
+    const withoutId = body.data.filter((footprint: any) => !hasId(footprint)).length;
+    if (withoutId > 0) {
+      crawl.issues.push(`${withoutId} footprints on page ${pageNumber} have no id`);
+    }
+    for (const footprint of body.data) {
+      if (!hasId(footprint)) {
+        crawl.footprints.push(footprint);
+        continue;
+      }
+      const firstListedOn = listedOn.get(footprint.id);
+      if (firstListedOn !== undefined) {
+        crawl.issues.push(`Footprint ${footprint.id} is listed on page ${firstListedOn} and on page ${pageNumber}`);
+        continue;
+      }
+      listedOn.set(footprint.id, pageNumber);
+      crawl.footprints.push(footprint);
+    }
+
+    const link = parseLinkHeader(response.headers.get("Link")).next;
+    next = link ? resolveLink(link, pageUrl) : undefined;
+    crawl.pages.push({ url: pageUrl, count: body.data.length, ...(next && { next, link }) });
+  }
+
+  if (next) {
+    crawl.issues.push(`Stopped after ${maxPages} pages, page ${maxPages} still links to a next page`);
+  } else {
+    crawl.complete = true;
+  }
+  return checkPageSizes(crawl);
+};
+
+// Invalid links are kept as they are, they are reported when they are checked before following them
+const resolveLink = (link: string, pageUrl: string): string => {
+  try {
+    return new URL(link, pageUrl).toString();
+  } catch {
+    return link;
+  }
+};
+
+// Describes why the next link can not be followed with the access token, undefined if it can
+const checkLinkTarget = (link: string, firstPageUrl: string): string | undefined => {
+  let target: URL;
+  try {
+    target = new URL(link);
+  } catch {
+    return "is not a valid URL";
+  }
+  const first = new URL(firstPageUrl);
+  if (target.protocol !== "https:" && target.protocol !== "http:") {
+    return `uses the protocol ${target.protocol} instead of HTTP(S)`;
+  }
+  if (target.protocol !== first.protocol) {
+    return `uses the protocol ${target.protocol} instead of ${first.protocol}`;
+  }
+  if (target.host !== first.host) {
+    return `points to host ${target.host} instead of ${first.host}`;
+  }
+  return undefined;
+};
+
+const hasId = (footprint: any): boolean => typeof footprint?.id === "string" && footprint.id.length > 0;
+
+// Timeouts are aborted by the signal of the request, other errors are described by their cause
+const describeFetchError = (error: any): string => {
+  if (error?.name === "TimeoutError") {
+    return `no response within ${config.TESTCASE_TIMEOUT}ms`;
+  }
+  const cause = error?.cause?.code ?? error?.cause?.message;
+  return `${error?.message ?? error}${cause ? ` (${cause})` : ""}`;
+};
+
+// Every page but the last must have the size of the first page, the last one may be smaller
+const checkPageSizes = (crawl: FootprintCrawl): FootprintCrawl => {
+  const [first, ...others] = crawl.pages;
+  others.forEach((page, index) => {
+    const isLast = index === others.length - 1 && !page.next;
+    if (page.count > first.count || (!isLast && page.count !== first.count)) {
+      crawl.issues.push(`Page ${index + 2} lists ${page.count} footprints, page 1 lists ${first.count}`);
+    }
+  });
+  return crawl;
+};
+
+export const parseLinkHeader = (header: string | null): Record<string, string> => {
+  if (!header) return {};
+
+  return header.split(", ").reduce<Record<string, string>>((acc, link) => {
+    const match = link.match(/<(.*)>;\s*rel="(.*)"/);
+    if (match) {
+      acc[match[2]] = match[1]; // Store links by their "rel" value
+    }
+    return acc;
+  }, {});
+};
+
+/**
+ * Number of footprints ListFootprints returns without paging parameters, which is the first
+ * page of the crawl if the footprints were crawled.
+ */
+export const firstPageCount = (footprints: { data: any[]; crawl?: FootprintCrawl }): number =>
+  footprints.crawl?.pages[0]?.count ?? footprints.data.length;
+
+/**
+ * Checks that the pages of a crawl were listed without issues and contain every footprint
+ * listed by the reference listing, e.g. the footprints listed without limit. The reference is
+ * only compared if its crawl was complete.
+ */
+export const checkNextLinkChain = (
+  crawl: FootprintCrawl,
+  listing: { data: any[]; crawl?: FootprintCrawl },
+  messages: string[]
+): boolean => {
+  messages.push(...crawl.issues);
+  if (!crawl.complete) {
+    return false;
+  }
+  if (listing.crawl?.complete === false) {
+    return crawl.issues.length === 0;
+  }
+  // Footprints without id can not be compared, they are reported as issues of the crawl
+  const ids = new Set(crawl.footprints.filter(hasId).map((footprint) => footprint.id));
+  const missing = listing.data.filter((footprint) => hasId(footprint) && !ids.has(footprint.id)).map((footprint) => footprint.id);
+  if (missing.length > 0) {
+    messages.push(`Footprints ${missing.join(", ")} are listed without limit, but not on the pages`);
+  }
+  const listedIds = new Set(listing.data.filter(hasId).map((footprint) => footprint.id));
+  const extra = crawl.footprints.filter((footprint) => hasId(footprint) && !listedIds.has(footprint.id)).map((footprint) => footprint.id);
+  if (extra.length > 0) {
+    messages.push(`Footprints ${extra.join(", ")} are listed on the pages, but not without limit`);
+  }
+  return crawl.issues.length === 0 && missing.length === 0 && extra.length === 0;
+};
+
+/**
+ * Checks that no page of a crawl lists more footprints than the requested limit.
+ */
+export const checkPageLimit = (crawl: FootprintCrawl, limit: number, messages: string[]): boolean => {
+  const exceeding = crawl.pages
+    .map((page, index) => ({ page, number: index + 1 }))
+    .filter(({ page }) => page.count > limit);
+  exceeding.forEach(({ page, number }) => {
+    messages.push(`Page ${number} lists ${page.count} footprints, more than the limit of ${limit}`);
+  });
+  return exceeding.length === 0;
+};
+
+/**
+ * Checks that the next links of a crawl are absolute URLs on the host of the tested API.
+ */
+export const checkNextLinkTargets = (crawl: FootprintCrawl, baseUrl: string, messages: string[]): boolean => {
+  const host = new URL(baseUrl).host;
+  const problems = crawl.pages.flatMap((page, index) => {
+    if (!page.link) {
+      return [];
+    }
+    if (!/^https?:\/\//i.test(page.link)) {
+      return [`The next link of page ${index + 1} (${page.link}) is not an absolute URL`];
+    }
+    const linkHost = new URL(page.link).host;
+    return linkHost === host
+      ? []
+      : [`The next link of page ${index + 1} (${page.link}) points to host ${linkHost} instead of ${host}`];
+  });
+  messages.push(...problems);
+  return problems.length === 0;
+};
+
+/**
+ * Checks that a crawl reached a page without next link, and that this page is not an empty
+ * page the previous page linked to although it already listed the last footprints.
+ */
+export const checkLastPage = (crawl: FootprintCrawl, messages: string[]): boolean => {
+  if (!crawl.complete) {
+    messages.push(...crawl.issues);
+    return false;
+  }
+  const last = crawl.pages[crawl.pages.length - 1];
+  if (crawl.pages.length > 1 && last.count === 0) {
+    messages.push(`Page ${crawl.pages.length - 1} links to an empty page (${last.url}) instead of omitting the next link`);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Returns the given next link with a tampered cursor. The cursor is taken to be every query
+ * parameter but `limit`.
+ * @returns undefined if the link has no other query parameters, e.g. if the cursor is part of
+ * the path. Changing the path would request an unknown route instead of an invalid cursor.
+ */
+export const tamperNextLink = (link: string): string | undefined => {
+  const url = new URL(link);
+  const cursors = [...url.searchParams.keys()].filter((name) => name !== "limit");
+  if (cursors.length === 0) {
+    return undefined;
+  }
+  for (const name of cursors) {
+    url.searchParams.set(name, tamperValue(url.searchParams.get(name)!));
+  }
+  return url.toString();
+};
+
+// Replaces the end of long values, which breaks encoded or signed cursors, and short values
+// like offsets entirely
+const tamperValue = (value: string): string =>
+  value.length > 8 ? `${value.slice(0, -4)}${randomString(4)}` : randomString(16);
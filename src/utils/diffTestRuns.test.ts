@@ -0,0 +1,29 @@
+import { diffTestRuns } from "./diffTestRuns";
+import { TestCaseResultStatus, TestRunStatus } from "../services/types";
+import { createTestRun } from "../test-utils/fixtures";
+
+describe("diffTestRuns", () => {
+  it("reports test cases whose status changed or which are only part of one test run", () => {
+    const before = createTestRun(TestRunStatus.FAIL, [
+      { testKey: "TESTCASE#1", status: TestCaseResultStatus.SUCCESS },
+      { testKey: "TESTCASE#2", status: TestCaseResultStatus.FAILURE },
+      { testKey: "TESTCASE#3", status: TestCaseResultStatus.FAILURE, mandatory: false },
+    ], "before");
+    const after = createTestRun(TestRunStatus.PASS, [
+      { testKey: "TESTCASE#1", status: TestCaseResultStatus.SUCCESS },
+      { testKey: "TESTCASE#2", status: TestCaseResultStatus.SUCCESS },
+      { testKey: "TESTCASE#4", status: TestCaseResultStatus.SUCCESS },
+    ], "after");
+
+    expect(diffTestRuns(before, after)).toEqual({
+      before: { testRunId: "before", status: TestRunStatus.FAIL, passingPercentage: 50 },
+      after: { testRunId: "after", status: TestRunStatus.PASS, passingPercentage: 100 },
+      changes: [
+        { testKey: "TESTCASE#2", name: "Test Case TESTCASE#2", mandatory: true, before: "FAILURE", after: "SUCCESS" },
+        { testKey: "TESTCASE#3", name: "Test Case TESTCASE#3", mandatory: false, before: "FAILURE", after: undefined },
+        { testKey: "TESTCASE#4", name: "Test Case TESTCASE#4", mandatory: true, before: undefined, after: "SUCCESS" },
+      ],
+      unchanged: 1,
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { TestCaseResultStatus, TestRunStatus, TestRunWithResults } from "../services/types";
+
+export interface TestCaseDiff {
+  testKey: string;
+  name: string;
+  mandatory: boolean;
+  // Undefined if the test case was not part of the test run
+  before?: TestCaseResultStatus;
+  after?: TestCaseResultStatus;
+}
+
+export interface TestRunDiff {
+  before: { testRunId: string; status: TestRunStatus; passingPercentage?: number };
+  after: { testRunId: string; status: TestRunStatus; passingPercentage?: number };
+  // Test cases whose status differs between the test runs, or which are only part of one of them
+  changes: TestCaseDiff[];
+  unchanged: number;
+}
+
+/**
+ * Compares the results of two test runs by test key, e.g. a test run before and after
+ * a fix of the tested API.
+ */
+export const diffTestRuns = (before: TestRunWithResults, after: TestRunWithResults): TestRunDiff => {
+  const beforeResults = new Map(before.results.map((result) => [result.testKey, result]));
+  const afterResults = new Map(after.results.map((result) => [result.testKey, result]));
+  const testKeys = [...new Set([...beforeResults.keys(), ...afterResults.keys()])];
+
+  const changes: TestCaseDiff[] = [];
+  for (const testKey of testKeys) {
+    const previous = beforeResults.get(testKey);
+    const current = afterResults.get(testKey);
+    if (previous?.status === current?.status) {
+      continue;
+    }
+    const result = (current ?? previous)!;
+    changes.push({
+      testKey,
+      name: result.name,
+      mandatory: result.mandatory,
+      before: previous?.status,
+      after: current?.status,
+    });
+  }
+
+  const summarize = ({ testRunId, status, passingPercentage }: TestRunWithResults) =>
+    ({ testRunId, status, passingPercentage });
+
+  return {
+    before: summarize(before),
+    after: summarize(after),
+    changes,
+    unchanged: testKeys.length - changes.length,
+  };
+};
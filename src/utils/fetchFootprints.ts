@@ -1,43 +1,37 @@
+import config from "../config";
 import { EventTypesV2, EventTypesV3, ApiVersion } from "../services/types";
+import { crawlFootprints, FootprintCrawl, parseLinkHeader } from "./crawlFootprints";
+import logger from "./logger";
 
+/**
+ * Lists the footprints of all pages of ListFootprints, see crawlFootprints. The crawl is
+ * returned with the footprints, e.g. for the number of footprints on the first page.
+ */
 export const fetchFootprints = async (
   baseUrl: string,
   accessToken: string,
   version: ApiVersion
-) => {
+): Promise<{ data: any[]; crawl: FootprintCrawl }> => {
   const apiVersion = version.startsWith("V2") ? "2" : "3";
 
   const footprintsUrl = `${baseUrl}/${apiVersion}/footprints`;
-  const response = await fetch(footprintsUrl, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    console.error(
-      `Error fetching footprints from ${footprintsUrl}: ${response.status} ${response.statusText}`
-    );
-    throw new Error(
-      `Error fetching footprints from ${footprintsUrl}: ${response.status} ${response.statusText}`
-    );
+  let crawl: FootprintCrawl;
+  try {
+    crawl = await crawlFootprints(footprintsUrl, accessToken);
+  } catch (error: any) {
+    logger.error(error.message);
+    throw error;
   }
 
-  const responseJson = await response.json();
-
-  if (
-    !responseJson.data ||
-    !Array.isArray(responseJson.data) ||
-    responseJson.data.length === 0
-  ) {
-    console.error(
-      `No footprint data returned from the API. Called ${footprintsUrl}`,
-      responseJson
-    );
+  if (crawl.footprints.length === 0) {
+    logger.error(`No footprint data returned from the API. Called ${footprintsUrl}`);
     throw new Error("No footprint data returned from the API");
   }
+  if (crawl.issues.length > 0) {
+    logger.warn(`Pagination of ${footprintsUrl}: ${crawl.issues.join(", ")}`);
+  }
 
-  return responseJson;
+  return { data: crawl.footprints, crawl };
 };
 
 export const getLinksHeaderFromFootprints = async (
@@ -51,21 +45,9 @@ export const getLinksHeaderFromFootprints = async (
     headers: {
       Authorization: `Bearer ${accessToken}`,
     },
+    signal: AbortSignal.timeout(config.TESTCASE_TIMEOUT),
   });
   const linksHeader = response.headers.get("Link");
 
   return parseLinkHeader(linksHeader);
 };
-
-const parseLinkHeader = (header: string | null): Record<string, string> => {
-  if (!header) return {};
-
-  return header.split(", ").reduce<Record<string, string>>((acc, link) => {
-    const match = link.match(/<(.*)>;\s*rel="(.*)"/);
-    if (match) {
-      acc[match[2]] = match[1]; // Store links by their "rel" value
-    }
-    return acc;
-  }, {});
-};
-
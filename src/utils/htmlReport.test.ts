@@ -0,0 +1,112 @@
+import { toHtmlReport } from "./htmlReport";
+import { PreflightStepStatus, TestCaseResultStatus, TestRunStatus, TestRunWithResults } from "../services/types";
+
+describe("toHtmlReport", () => {
+  const testRun: TestRunWithResults = {
+    testRunId: "test-run-123",
+    organizationName: "Acme <Corp>",
+    adminEmail: "admin@acme.com",
+    adminName: "Admin",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    techSpecVersion: "V3.0",
+    status: TestRunStatus.FAIL,
+    passingPercentage: 50,
+    data: null,
+    results: [
+      {
+        name: "Test Case 1: Obtain auth token",
+        testKey: "TESTCASE#1",
+        status: TestCaseResultStatus.SUCCESS,
+        mandatory: true,
+        documentationUrl: "https://docs.example.com/test-case-1",
+      },
+      {
+        name: "Test Case 10: Attempt ListFootprints through HTTP",
+        testKey: "TESTCASE#10",
+        status: TestCaseResultStatus.FAILURE,
+        mandatory: false,
+        errorMessage: "Expected failure, but request was successful.<br/>Details",
+        curlRequest: "curl -X GET 'http://api.example.com/3/footprints'",
+        exchange: {
+          request: { method: "GET", url: "http://api.example.com/3/footprints", headers: {} },
+          response: {
+            status: 200,
+            url: "http://api.example.com/3/footprints",
+            headers: { "content-type": "application/json" },
+            body: '{"data":[]}',
+          },
+          timings: { total: 10 },
+        },
+      },
+    ],
+  };
+
+  it("renders the test run metadata and passing percentage", () => {
+    const html = toHtmlReport(testRun);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("Acme &lt;Corp&gt;");
+    expect(html).toContain("<strong>50%</strong>");
+    expect(html).toContain("<strong>1 / 2</strong>");
+    expect(html).toContain("test-run-123");
+    expect(html).not.toContain("<script");
+  });
+
+  it("renders every test case with status, mandatory flag and documentation link", () => {
+    const html = toHtmlReport(testRun);
+
+    expect(html).toContain('<a href="https://docs.example.com/test-case-1">Test Case 1: Obtain auth token</a>');
+    expect(html).toContain('<span class="badge SUCCESS">Passed</span>');
+    expect(html).toContain('<span class="badge FAILURE">Failed</span>');
+    expect(html).toContain("<td>Mandatory</td>");
+    expect(html).toContain("<td>Optional</td>");
+  });
+
+  it("renders error messages and collapsible request and response details", () => {
+    const html = toHtmlReport(testRun);
+
+    expect(html).toContain('<div class="error">Expected failure, but request was successful.\nDetails</div>');
+    expect(html).toContain("<details><summary>Request and response</summary>");
+    expect(html).toContain("curl -X GET &#39;http://api.example.com/3/footprints&#39;");
+    expect(html).toContain("HTTP 200\ncontent-type: application/json");
+    expect(html).toContain('{\n  &quot;data&quot;: []\n}');
+  });
+
+  it("renders the setup checks of the preflight with their remediation", () => {
+    const html = toHtmlReport({
+      ...testRun,
+      results: [],
+      data: {
+        preflight: [
+          { key: "openid-discovery", name: "OpenID discovery", status: PreflightStepStatus.PASS, message: "Token endpoint found" },
+          {
+            key: "token",
+            name: "Access token",
+            status: PreflightStepStatus.FAIL,
+            message: "Status: 401",
+            remediation: "Check clientId & clientSecret",
+          },
+        ],
+      },
+    });
+
+    expect(html).toContain("<h2>Setup checks</h2>");
+    expect(html).toContain('<span class="badge FAIL">FAIL</span>');
+    expect(html).toContain("Check clientId &amp; clientSecret");
+  });
+
+  it("omits the setup checks of test runs without preflight", () => {
+    expect(toHtmlReport(testRun)).not.toContain("Setup checks");
+  });
+
+  it("renders the selected footprint with the reason it was selected", () => {
+    const html = toHtmlReport({
+      ...testRun,
+      data: {
+        footprint: { id: "fp-2", selectedBy: "automatic", reason: "Has the most filterable attributes", filterableAttributes: [] },
+      },
+    });
+
+    expect(html).toContain('<strong title="Has the most filterable attributes">fp-2</strong>');
+  });
+});
@@ -0,0 +1,158 @@
+import { PreflightStep, PreflightStepStatus, TestCaseResultStatus, TestResult, TestRunData, TestRunWithResults } from "../services/types";
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Error messages of negative test cases contain line breaks as HTML for the web app
+const formatMessage = (message: string) => escapeHtml(message.replace(/<br\s*\/?>/gi, "\n"));
+
+const formatBody = (body: string) => {
+  try {
+    return escapeHtml(JSON.stringify(JSON.parse(body), null, 2));
+  } catch {
+    return escapeHtml(body);
+  }
+};
+
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join("\n");
+
+const STATUS_LABELS: Record<TestCaseResultStatus, string> = {
+  [TestCaseResultStatus.SUCCESS]: "Passed",
+  [TestCaseResultStatus.FAILURE]: "Failed",
+  [TestCaseResultStatus.PENDING]: "Pending",
+  [TestCaseResultStatus.SKIPPED]: "Skipped",
+};
+
+const STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 1100px; color: #1f2328; padding: 0 1rem; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  .summary { display: flex; gap: 2rem; flex-wrap: wrap; margin: 1.5rem 0; padding: 1rem 1.5rem; border: 1px solid #d0d7de; border-radius: 6px; }
+  .summary div span { display: block; font-size: 0.8rem; color: #656d76; text-transform: uppercase; }
+  .summary div strong { font-size: 1.2rem; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 0.6rem; border-bottom: 1px solid #d0d7de; }
+  th { background: #f6f8fa; }
+  .badge { display: inline-block; padding: 0.1rem 0.5rem; border-radius: 1rem; font-size: 0.85rem; font-weight: 600; color: #fff; }
+  .PASS, .SUCCESS { background: #1a7f37; }
+  .FAIL, .FAILURE { background: #cf222e; }
+  .PENDING, .WARNING { background: #9a6700; }
+  .SKIPPED { background: #656d76; }
+  .remediation { white-space: pre-wrap; margin: 0.4rem 0; }
+  .error { white-space: pre-wrap; color: #cf222e; margin: 0.4rem 0; }
+  details { margin-top: 0.4rem; }
+  summary { cursor: pointer; color: #0969da; }
+  pre { background: #f6f8fa; padding: 0.6rem; overflow-x: auto; white-space: pre-wrap; word-break: break-all; font-size: 0.8rem; }
+  footer { margin-top: 2rem; font-size: 0.8rem; color: #656d76; }
+`;
+
+const renderExchange = (result: TestResult): string => {
+  const { exchange } = result;
+  if (!exchange && !result.curlRequest && !result.apiResponse) {
+    return "";
+  }
+  const sections: string[] = [];
+  if (result.curlRequest) {
+    sections.push(`<h4>Request</h4><pre>${escapeHtml(result.curlRequest)}</pre>`);
+  } else if (exchange) {
+    sections.push(
+      `<h4>Request</h4><pre>${escapeHtml(`${exchange.request.method} ${exchange.request.url}\n${formatHeaders(exchange.request.headers)}`)}</pre>`
+    );
+  }
+  if (exchange?.response) {
+    const { status, headers, body } = exchange.response;
+    sections.push(
+      `<h4>Response</h4><pre>${escapeHtml(`HTTP ${status}\n${formatHeaders(headers)}`)}</pre>` +
+      (body ? `<pre>${formatBody(body)}</pre>` : "")
+    );
+  } else if (result.apiResponse) {
+    sections.push(`<h4>Response</h4><pre>${formatBody(result.apiResponse)}</pre>`);
+  }
+  return `<details><summary>Request and response</summary>${sections.join("")}</details>`;
+};
+
+const renderResult = (result: TestResult): string => `
+      <tr>
+        <td>${escapeHtml(result.testKey)}</td>
+        <td>
+          ${result.documentationUrl
+            ? `<a href="${escapeHtml(result.documentationUrl)}">${escapeHtml(result.name)}</a>`
+            : escapeHtml(result.name)}
+          ${result.errorMessage && result.status !== TestCaseResultStatus.SUCCESS
+            ? `<div class="error">${formatMessage(result.errorMessage)}</div>`
+            : ""}
+          ${renderExchange(result)}
+        </td>
+        <td>${result.mandatory ? "Mandatory" : "Optional"}</td>
+        <td><span class="badge ${result.status}">${STATUS_LABELS[result.status] ?? escapeHtml(result.status)}</span></td>
+      </tr>`;
+
+const renderPreflightStep = (step: PreflightStep): string => `
+      <tr>
+        <td>
+          ${escapeHtml(step.name)}
+          <div${step.status === PreflightStepStatus.FAIL ? ` class="error"` : ""}>${escapeHtml(step.message)}</div>
+          ${step.remediation && step.status !== PreflightStepStatus.PASS ? `<div class="remediation">${escapeHtml(step.remediation)}</div>` : ""}
+        </td>
+        <td><span class="badge ${escapeHtml(step.status)}">${escapeHtml(step.status)}</span></td>
+      </tr>`;
+
+// The setup checks are shown before the test cases, they explain a test run without results
+const renderPreflight = (steps: PreflightStep[] | undefined): string => steps?.length ? `
+  <h2>Setup checks</h2>
+  <table>
+    <thead>
+      <tr><th>Check</th><th>Status</th></tr>
+    </thead>
+    <tbody>${steps.map(renderPreflightStep).join("")}
+    </tbody>
+  </table>
+  <h2>Test cases</h2>` : "";
+
+/**
+ * Renders a test run as a single, self-contained HTML page, which can be shared as proof
+ * of conformance without access to the web app. Request and response details of every
+ * test case are collapsed, so the page works without JavaScript.
+ */
+export const toHtmlReport = (testRun: TestRunWithResults): string => {
+  const data = testRun.data as TestRunData | null;
+  const timestamp = testRun.timestamp ? new Date(testRun.timestamp).toISOString() : "";
+  const passed = testRun.results.filter((result) => result.status === TestCaseResultStatus.SUCCESS).length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>PACT Conformance Report - ${escapeHtml(testRun.organizationName)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>PACT Conformance Report</h1>
+  <p>${escapeHtml(testRun.organizationName)}, Technical Specifications ${escapeHtml(testRun.techSpecVersion)}</p>
+  <div class="summary">
+    <div><span>Result</span><strong class="badge ${escapeHtml(testRun.status)}">${escapeHtml(testRun.status)}</strong></div>
+    <div><span>Mandatory tests passed</span><strong>${testRun.passingPercentage ?? 0}%</strong></div>
+    <div><span>Test cases passed</span><strong>${passed} / ${testRun.results.length}</strong></div>
+    <div><span>Date</span><strong>${escapeHtml(timestamp)}</strong></div>
+    <div><span>Test run</span><strong>${escapeHtml(testRun.testRunId)}</strong></div>
+    <div><span>Contact</span><strong>${escapeHtml(testRun.adminName)} (${escapeHtml(testRun.adminEmail)})</strong></div>${data?.footprint ? `
+    <div><span>Footprint</span><strong title="${escapeHtml(data.footprint.reason)}">${escapeHtml(data.footprint.id)}</strong></div>` : ""}
+  </div>${renderPreflight(data?.preflight)}
+  <table>
+    <thead>
+      <tr><th>Test</th><th>Test case</th><th>Required</th><th>Status</th></tr>
+    </thead>
+    <tbody>${testRun.results.map(renderResult).join("")}
+    </tbody>
+  </table>
+  <footer>Generated by the PACT Conformance Service on ${escapeHtml(new Date().toISOString())}</footer>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,78 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { fetchWithExchange } from "./httpExchange";
+
+describe("fetchWithExchange", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    server = http.createServer((req, res) => {
+      if (req.url === "/old") {
+        res.writeHead(301, { Location: "/new" });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json", "Set-Cookie": "session=1" });
+      res.end(JSON.stringify({ method: req.method }));
+    });
+    server.listen(0, "127.0.0.1", () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  it("records the request and response with redacted credentials", async () => {
+    const { response, body, exchange } = await fetchWithExchange(`${baseUrl}/new`, {
+      method: "POST",
+      headers: { Authorization: "Bearer secret-token", "Content-Type": "application/json" },
+      body: "{}",
+    });
+
+    expect(response?.status).toBe(200);
+    expect(body).toBe('{"method":"POST"}');
+    expect(exchange.request).toEqual({
+      method: "POST",
+      url: `${baseUrl}/new`,
+      headers: { Authorization: "Bearer [REDACTED]", "Content-Type": "application/json" },
+      body: "{}",
+    });
+    expect(exchange.response).toEqual(
+      expect.objectContaining({
+        status: 200,
+        url: `${baseUrl}/new`,
+        body: '{"method":"POST"}',
+      })
+    );
+    expect(exchange.response?.headers["content-type"]).toBe("application/json");
+    expect(exchange.response?.headers["set-cookie"]).toBe("[REDACTED]");
+    expect(exchange.timings.total).toBeGreaterThanOrEqual(exchange.timings.firstByte!);
+    expect(exchange.redirects).toBeUndefined();
+  });
+
+  it("records the redirects followed before the final response", async () => {
+    const { exchange } = await fetchWithExchange(`${baseUrl}/old`, { method: "GET", headers: {} });
+
+    expect(exchange.redirects).toEqual([
+      { url: `${baseUrl}/old`, status: 301, location: "/new" },
+    ]);
+    expect(exchange.response?.url).toBe(`${baseUrl}/new`);
+  });
+
+  it("returns the error and the exchange when the request fails", async () => {
+    // Nothing is listening on port 1
+    const { response, error, exchange } = await fetchWithExchange("http://127.0.0.1:1/", {
+      method: "GET",
+      headers: {},
+    });
+
+    expect(response).toBeUndefined();
+    expect(error).toBeDefined();
+    expect(exchange.error).toBe(error.message);
+    expect(exchange.response).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+import { AsyncLocalStorage } from "async_hooks";
+import diagnosticsChannel from "diagnostics_channel";
+import { PerformanceEntry, PerformanceObserver } from "perf_hooks";
+import { HttpExchange, HttpExchangeTimings, HttpRedirect } from "../services/types";
+import { redactHeaders, redactText } from "./redact";
+
+// How long DNS and connect performance entries are kept to be matched with a request
+const PERFORMANCE_ENTRY_TTL = 60000;
+
+/**
+ * Connection details of a single request, collected from the diagnostics channels
+ * of Node's fetch implementation (undici).
+ */
+interface ExchangeRecorder {
+  hostname?: string;
+  protocol?: string;
+  connectStart?: number;
+  connectEnd?: number;
+  redirects: HttpRedirect[];
+}
+
+// The diagnostics channels are published in the async context of the fetch call,
+// which allows attributing them to the request even when requests run concurrently.
+const recorders = new AsyncLocalStorage<ExchangeRecorder>();
+
+diagnosticsChannel.subscribe("undici:client:beforeConnect", (message: any) => {
+  const recorder = recorders.getStore();
+  if (recorder) {
+    recorder.hostname = message.connectParams?.hostname;
+    recorder.protocol = message.connectParams?.protocol;
+    recorder.connectStart = performance.now();
+  }
+});
+
+diagnosticsChannel.subscribe("undici:client:connected", () => {
+  const recorder = recorders.getStore();
+  if (recorder) {
+    recorder.connectEnd = performance.now();
+  }
+});
+
+diagnosticsChannel.subscribe("undici:request:headers", (message: any) => {
+  const recorder = recorders.getStore();
+  const { request, response } = message;
+  if (!recorder || response.statusCode < 300 || response.statusCode >= 400) {
+    return;
+  }
+  // Raw headers are a flat list of names and values
+  const headers: Buffer[] = response.headers ?? [];
+  for (let i = 0; i < headers.length; i += 2) {
+    if (headers[i].toString().toLowerCase() === "location") {
+      recorder.redirects.push({
+        url: `${request.origin}${request.path}`,
+        status: response.statusCode,
+        location: headers[i + 1].toString(),
+      });
+    }
+  }
+});
+
+// DNS lookups and TCP connects are only reported as performance entries,
+// they are matched to a request by hostname and time.
+let performanceEntries: PerformanceEntry[] = [];
+new PerformanceObserver((list) => {
+  const expired = performance.now() - PERFORMANCE_ENTRY_TTL;
+  performanceEntries = performanceEntries
+    .filter((entry) => entry.startTime > expired)
+    .concat(list.getEntries());
+}).observe({ entryTypes: ["dns", "net"] });
+
+const round = (ms: number) => Math.round(ms * 100) / 100;
+
+const getConnectionTimings = (recorder: ExchangeRecorder): Partial<HttpExchangeTimings> => {
+  const { connectStart, connectEnd } = recorder;
+  // No new connection was opened, e.g. because a kept alive connection was reused
+  if (connectStart === undefined || connectEnd === undefined) {
+    return {};
+  }
+  const end = (entry: PerformanceEntry) => entry.startTime + entry.duration;
+  const during = (entry: PerformanceEntry) => entry.startTime >= connectStart && end(entry) <= connectEnd;
+
+  const lookup = performanceEntries.find(
+    (entry) => entry.entryType === "dns" && during(entry) && (entry as any).detail?.hostname === recorder.hostname
+  );
+  const connect = performanceEntries.find(
+    (entry) => entry.entryType === "net" && during(entry) && (!lookup || entry.startTime >= lookup.startTime)
+  );
+  // Without the performance entries, only the total time to set up the connection is known
+  if (!connect) {
+    return { connect: round(connectEnd - connectStart) };
+  }
+  return {
+    dns: lookup ? round(lookup.duration) : undefined,
+    connect: round(connect.duration),
+    tls: recorder.protocol === "https:" ? round(connectEnd - end(connect)) : undefined,
+  };
+};
+
+export interface ExchangeResult {
+  response?: Response;
+  // The response body, null if the request failed
+  body: string | null;
+  // The error thrown by fetch or while reading the body
+  error?: any;
+  exchange: HttpExchange;
+}
+
+/**
+ * Sends a request with fetch, and records the request, the response, the redirects
+ * followed and the timings of the request. Credentials are redacted in the exchange.
+ * Errors are returned instead of thrown, so the exchange is also available for failed requests.
+ */
+export const fetchWithExchange = async (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string; signal?: AbortSignal }
+): Promise<ExchangeResult> => {
+  const recorder: ExchangeRecorder = { redirects: [] };
+  const exchange: HttpExchange = {
+    request: {
+      method: init.method,
+      url,
+      headers: redactHeaders(init.headers),
+      body: init.body && redactText(init.body),
+    },
+    timings: { total: 0 },
+  };
+
+  const start = performance.now();
+  let response: Response | undefined;
+  let body: string | null = null;
+  let error: any;
+
+  await recorders.run(recorder, async () => {
+    try {
+      response = await fetch(url, init);
+      exchange.timings.firstByte = round(performance.now() - start);
+      body = await response.text();
+    } catch (err: any) {
+      error = err;
+    }
+  });
+
+  exchange.timings = { ...getConnectionTimings(recorder), ...exchange.timings, total: round(performance.now() - start) };
+
+  if (response) {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    exchange.response = {
+      status: response.status,
+      url: response.url || url,
+      headers: redactHeaders(headers),
+      body: body === null ? undefined : redactText(body),
+    };
+  }
+  if (recorder.redirects.length > 0) {
+    exchange.redirects = recorder.redirects;
+  }
+  if (error) {
+    exchange.error = error.message;
+  }
+
+  return { response, body, error, exchange };
+};
@@ -0,0 +1,99 @@
+import { toJUnitXml } from "./junitReport";
+import { TestCaseResultStatus, TestRunStatus, TestRunWithResults } from "../services/types";
+
+describe("toJUnitXml", () => {
+  const testRun: TestRunWithResults = {
+    testRunId: "test-run-123",
+    organizationName: "Acme & Co",
+    adminEmail: "admin@acme.com",
+    adminName: "Admin",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    techSpecVersion: "V3.0",
+    status: TestRunStatus.FAIL,
+    passingPercentage: 50,
+    data: null,
+    results: [
+      {
+        name: "Test Case 1: Obtain auth token",
+        testKey: "TESTCASE#1",
+        status: TestCaseResultStatus.SUCCESS,
+        mandatory: true,
+      },
+      {
+        name: "Test Case 4: Get all PCFs",
+        testKey: "TESTCASE#4",
+        status: TestCaseResultStatus.FAILURE,
+        mandatory: true,
+        errorMessage: "Expected status [200], but got 500",
+        curlRequest: "curl -X GET 'https://api.example.com/3/footprints?limit=1&offset=0'",
+      },
+      {
+        name: "Test Case 13: Receive callback",
+        testKey: "TESTCASE#13",
+        status: TestCaseResultStatus.PENDING,
+        mandatory: true,
+      },
+      {
+        name: "Test Case 20: Optional filter",
+        testKey: "TESTCASE#20",
+        status: TestCaseResultStatus.SUCCESS,
+        mandatory: false,
+      },
+    ],
+  };
+
+  it("reports mandatory and optional test cases as separate test suites", () => {
+    const xml = toJUnitXml(testRun);
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(xml).toContain('<testsuites name="PACT Conformance V3.0 - Acme &amp; Co" tests="4" failures="1" errors="0" skipped="1">');
+    expect(xml).toContain('<testsuite name="Mandatory Tests" tests="3" failures="1" errors="0" skipped="1" timestamp="2024-01-01T00:00:00.000Z">');
+    expect(xml).toContain('<testsuite name="Optional Tests" tests="1" failures="0" errors="0" skipped="0"');
+    expect(xml).toContain('<property name="testRunId" value="test-run-123"/>');
+  });
+
+  it("reports failures with the error message and the curl request", () => {
+    const xml = toJUnitXml(testRun);
+
+    expect(xml).toContain('<failure message="Expected status [200], but got 500" type="TESTCASE#4">');
+    expect(xml).toContain("Request:\ncurl -X GET &apos;https://api.example.com/3/footprints?limit=1&amp;offset=0&apos;");
+  });
+
+  it("reports pending test cases as skipped", () => {
+    const xml = toJUnitXml(testRun);
+
+    expect(xml).toContain(
+      '<testcase name="Test Case 13: Receive callback" classname="TESTCASE#13" time="0">\n' +
+      '      <skipped message="Waiting for the callback of the tested API"/>'
+    );
+    expect(xml).toContain('<testcase name="Test Case 1: Obtain auth token" classname="TESTCASE#1" time="0"/>');
+  });
+
+  it("reports test cases which do not apply as skipped with the reason", () => {
+    const xml = toJUnitXml({
+      ...testRun,
+      results: [{
+        name: "Test Case 45: Tampered pagination link",
+        testKey: "TESTCASE#45",
+        status: TestCaseResultStatus.SKIPPED,
+        mandatory: true,
+        errorMessage: "Not applicable: no next link was returned for limit=1",
+      }],
+    });
+
+    expect(xml).toContain('tests="1" failures="0" errors="0" skipped="1">');
+    expect(xml).toContain('<skipped message="Not applicable: no next link was returned for limit=1"/>');
+  });
+
+  it("uses the request duration as test case time", () => {
+    const xml = toJUnitXml({
+      ...testRun,
+      results: [{
+        ...testRun.results[0],
+        exchange: { request: { method: "GET", url: "https://api.example.com", headers: {} }, timings: { total: 1234.5 } },
+      }],
+    });
+
+    expect(xml).toContain('classname="TESTCASE#1" time="1.234"');
+  });
+});
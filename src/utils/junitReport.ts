@@ -0,0 +1,95 @@
+import { TestCaseResultStatus, TestResult, TestRunWithResults } from "../services/types";
+
+// Characters which are not allowed in XML 1.0 documents, even when escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const escapeXml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const count = (results: TestResult[], ...statuses: TestCaseResultStatus[]) =>
+  results.filter((result) => statuses.includes(result.status)).length;
+
+// Duration of the request in seconds, if it was recorded
+const getTime = (result: TestResult) =>
+  result.exchange ? (result.exchange.timings.total / 1000).toFixed(3) : "0";
+
+const renderTestCase = (result: TestResult): string => {
+  const attributes = `name="${escapeXml(result.name)}" classname="${escapeXml(result.testKey)}" time="${getTime(result)}"`;
+
+  if (result.status === TestCaseResultStatus.SUCCESS) {
+    return `    <testcase ${attributes}/>`;
+  }
+  if (result.status === TestCaseResultStatus.PENDING) {
+    return [
+      `    <testcase ${attributes}>`,
+      `      <skipped message="Waiting for the callback of the tested API"/>`,
+      `    </testcase>`,
+    ].join("\n");
+  }
+  if (result.status === TestCaseResultStatus.SKIPPED) {
+    return [
+      `    <testcase ${attributes}>`,
+      `      <skipped message="${escapeXml(result.errorMessage ?? "Not applicable to the tested API")}"/>`,
+      `    </testcase>`,
+    ].join("\n");
+  }
+
+  const details = [
+    result.errorMessage,
+    result.curlRequest && `Request:\n${result.curlRequest}`,
+    result.documentationUrl && `Documentation: ${result.documentationUrl}`,
+  ].filter(Boolean).join("\n\n");
+
+  return [
+    `    <testcase ${attributes}>`,
+    `      <failure message="${escapeXml(result.errorMessage ?? "Test case failed")}" type="${escapeXml(result.testKey)}">${escapeXml(details)}</failure>`,
+    `    </testcase>`,
+  ].join("\n");
+};
+
+const renderTestSuite = (name: string, testRun: TestRunWithResults, results: TestResult[]): string => {
+  const properties = [
+    ["testRunId", testRun.testRunId],
+    ["organizationName", testRun.organizationName],
+    ["techSpecVersion", testRun.techSpecVersion],
+    ["status", testRun.status],
+  ];
+  return [
+    `  <testsuite name="${escapeXml(name)}" tests="${results.length}" failures="${count(results, TestCaseResultStatus.FAILURE)}" ` +
+      `errors="0" skipped="${count(results, TestCaseResultStatus.PENDING, TestCaseResultStatus.SKIPPED)}" timestamp="${escapeXml(testRun.timestamp)}">`,
+    `    <properties>`,
+    ...properties.map(([key, value]) => `      <property name="${key}" value="${escapeXml(value)}"/>`),
+    `    </properties>`,
+    ...results.map(renderTestCase),
+    `  </testsuite>`,
+  ].join("\n");
+};
+
+/**
+ * Renders the results of a test run as a JUnit XML report, which CI systems can show in
+ * their test dashboards. Mandatory and optional test cases are reported as separate test
+ * suites, test cases still waiting for a callback or not applicable are reported as skipped.
+ */
+export const toJUnitXml = (testRun: TestRunWithResults): string => {
+  const timestamp = testRun.timestamp ? new Date(testRun.timestamp).toISOString() : "";
+  const run = { ...testRun, timestamp };
+  const mandatory = testRun.results.filter((result) => result.mandatory);
+  const optional = testRun.results.filter((result) => !result.mandatory);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="PACT Conformance ${escapeXml(testRun.techSpecVersion)} - ${escapeXml(testRun.organizationName)}" ` +
+      `tests="${testRun.results.length}" failures="${count(testRun.results, TestCaseResultStatus.FAILURE)}" ` +
+      `errors="0" skipped="${count(testRun.results, TestCaseResultStatus.PENDING, TestCaseResultStatus.SKIPPED)}">`,
+    renderTestSuite("Mandatory Tests", run, mandatory),
+    renderTestSuite("Optional Tests", run, optional),
+    `</testsuites>`,
+    "",
+  ].join("\n");
+};
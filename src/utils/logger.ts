@@ -1,8 +1,14 @@
 import pino from "pino";
 import pinoHttp from "pino-http";
 import config from "../config";
+import { REDACTED, redactValue } from "./redact";
 
 const pinoInstance = pino({
+  // Request logs of pino-http include the headers of incoming requests
+  redact: {
+    paths: ["req.headers.authorization", "req.headers.cookie"],
+    censor: REDACTED,
+  },
   ...(config.NODE_ENV !== "production"
     ? {
         level: "debug",
@@ -17,22 +23,41 @@ const pinoInstance = pino({
     : { level: "info" }),
 });
 
+// Credentials are masked in everything that is logged, see redact.ts
 const wrap = (method: "info" | "error" | "warn" | "debug") =>
   (message: any, meta?: any) => {
     if (meta) {
-      pinoInstance[method](meta, message);
+      pinoInstance[method](redactValue(meta), redactValue(message));
     } else {
-      pinoInstance[method](message);
+      pinoInstance[method](redactValue(message));
     }
   };
 
-const logger = config.LOG_OUTPUT === "console" ? console : {
+const wrapConsole = (method: "info" | "error" | "warn" | "debug") =>
+  (...args: any[]) => console[method](...args.map((arg) => redactValue(arg)));
+
+const logger = config.LOG_OUTPUT === "console" ? {
+  info: wrapConsole("info"),
+  error: wrapConsole("error"),
+  warn: wrapConsole("warn"),
+  debug: wrapConsole("debug"),
+} : {
   info: wrap("info"),
   error: wrap("error"),
   warn: wrap("warn"),
   debug: wrap("debug"),
 };
 
+/**
+ * Writes all further log output to stderr, so stdout only contains the machine-readable
+ * output of the CLI.
+ */
+export const redirectLogsToStderr = () => {
+  for (const method of ["info", "error", "warn", "debug"] as const) {
+    logger[method] = (...args: any[]) => console.error(...args.map((arg) => redactValue(arg)));
+  }
+};
+
 const loggerMiddleware = config.LOG_OUTPUT === "console" ? 
   (req: any, res: any, next: any) => {
     console.log(`${req.method} ${req.url}`);
@@ -0,0 +1,179 @@
+import { runPreflight } from "./preflight";
+import { fetchOpenIdTokenEndpoint, getAccessToken } from "./authUtils";
+import { fetchFootprints, getLinksHeaderFromFootprints } from "./fetchFootprints";
+import { HttpResponseError } from "../errors";
+import { PreflightStepStatus, TestRunStartParams } from "../services/types";
+
+jest.mock("./authUtils");
+jest.mock("./fetchFootprints");
+jest.mock("./logger", () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe("runPreflight", () => {
+  let params: TestRunStartParams;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    params = {
+      baseUrl: "https://api.example.com/",
+      clientId: "client-123",
+      clientSecret: "secret-456",
+      organizationName: "Test Org",
+      adminEmail: "admin@test.com",
+      adminName: "Admin User",
+      version: "V3.0",
+    };
+    (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue("https://auth.example.com/token");
+    (getAccessToken as jest.Mock).mockResolvedValue("token");
+    (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ id: "f1", productIds: ["p1"] }, { id: "f2", productIds: ["p2"] }] });
+    (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({ next: "https://api.example.com/3/footprints?page=2" });
+  });
+
+  it("passes and returns the setup of the test cases when every step passes", async () => {
+    const result = await runPreflight(params);
+
+    expect(result.passed).toBe(true);
+    expect(result.steps.map((step) => step.status)).toEqual(Array(4).fill(PreflightStepStatus.PASS));
+    expect(result.setup).toEqual(expect.objectContaining({
+      authTokenUrl: "https://auth.example.com/token",
+      authRequestData: "grant_type=client_credentials",
+      accessToken: "token",
+      baseUrl: "https://api.example.com",
+    }));
+    expect(fetchFootprints).toHaveBeenCalledWith("https://api.example.com", "token", "V3.0");
+    expect(params.baseUrl).toBe("https://api.example.com/");
+  });
+
+  it("warns without OpenID configuration and pagination Link header", async () => {
+    (fetchOpenIdTokenEndpoint as jest.Mock).mockResolvedValue(undefined);
+    (getLinksHeaderFromFootprints as jest.Mock).mockResolvedValue({});
+
+    const result = await runPreflight(params);
+
+    expect(result.passed).toBe(true);
+    expect(getAccessToken).toHaveBeenCalledWith("https://api.example.com/auth/token", "client-123", "secret-456", expect.any(String));
+    expect(result.steps[0]).toEqual(expect.objectContaining({ key: "openid-discovery", status: PreflightStepStatus.WARNING }));
+    expect(result.steps[3]).toEqual(expect.objectContaining({
+      key: "pagination",
+      status: PreflightStepStatus.WARNING,
+      remediation: expect.stringContaining("Link header"),
+    }));
+  });
+
+  it("fails and skips the remaining steps when no access token is obtained", async () => {
+    (getAccessToken as jest.Mock).mockRejectedValue(
+      new HttpResponseError(404, "Failed to obtain access token from https://auth.example.com/token. Status: 404. Response: Not Found")
+    );
+
+    const result = await runPreflight(params);
+
+    expect(result.passed).toBe(false);
+    expect(result.setup).toBeUndefined();
+    expect(result.steps.map((step) => step.status)).toEqual([
+      PreflightStepStatus.PASS,
+      PreflightStepStatus.FAIL,
+      PreflightStepStatus.SKIPPED,
+      PreflightStepStatus.SKIPPED,
+    ]);
+    expect(result.steps[1].remediation).toContain("token endpoint was not found");
+    expect(fetchFootprints).not.toHaveBeenCalled();
+  });
+
+  it("explains unreachable auth servers", async () => {
+    (getAccessToken as jest.Mock).mockRejectedValue(
+      Object.assign(new TypeError("fetch failed"), { cause: { code: "ENOTFOUND" } })
+    );
+
+    const { steps } = await runPreflight(params);
+
+    expect(steps[1]).toEqual(expect.objectContaining({
+      message: "fetch failed (ENOTFOUND)",
+      remediation: expect.stringContaining("https://auth.example.com/token is reachable"),
+    }));
+    expect(steps[1].remediation).toContain("auth.example.com could not be resolved (DNS)");
+  });
+
+  it("fails with a hint when the auth server does not respond in time", async () => {
+    (getAccessToken as jest.Mock).mockRejectedValue(
+      new DOMException("The operation was aborted due to timeout", "TimeoutError")
+    );
+
+    const { passed, steps } = await runPreflight(params);
+
+    expect(passed).toBe(false);
+    expect(steps[1]).toEqual(expect.objectContaining({
+      status: PreflightStepStatus.FAIL,
+      message: expect.stringMatching(/^No response within \d+ms$/),
+      remediation: expect.stringContaining("auth.example.com did not respond within"),
+    }));
+  });
+
+  it("explains certificates which are not accepted", async () => {
+    (getAccessToken as jest.Mock).mockRejectedValue(
+      Object.assign(new TypeError("fetch failed"), { cause: { code: "CERT_HAS_EXPIRED" } })
+    );
+
+    const { steps } = await runPreflight(params);
+
+    expect(steps[1].remediation).toContain("TLS certificate of auth.example.com was not accepted (CERT_HAS_EXPIRED)");
+    expect(steps[1].httpStatus).toBeUndefined();
+  });
+
+  it("warns about listed footprints without id or productIds", async () => {
+    (fetchFootprints as jest.Mock).mockResolvedValue({ data: [{ id: "f1", productIds: ["p1"] }, { productIds: [] }] });
+
+    const result = await runPreflight(params);
+
+    expect(result.passed).toBe(true);
+    expect(result.steps[2]).toEqual(expect.objectContaining({
+      status: PreflightStepStatus.WARNING,
+      message: "1 of 2 listed footprints have no id or productIds",
+    }));
+  });
+
+  it("warns about issues of the pagination of the listed footprints", async () => {
+    (fetchFootprints as jest.Mock).mockResolvedValue({
+      data: [{ id: "f1", productIds: ["p1"] }, { id: "f2", productIds: ["p2"] }],
+      crawl: { pages: [], complete: true, issues: ["Footprint f1 is listed on page 1 and on page 2"] },
+    });
+
+    const { steps } = await runPreflight(params);
+
+    expect(steps[2]).toEqual(expect.objectContaining({
+      status: PreflightStepStatus.WARNING,
+      message: expect.stringContaining("Footprint f1 is listed on page 1 and on page 2"),
+    }));
+  });
+
+  it("fails when the footprint given with footprintId is not listed", async () => {
+    const result = await runPreflight({ ...params, footprintId: "f3" });
+
+    expect(result.passed).toBe(false);
+    expect(result.steps[2]).toEqual(expect.objectContaining({
+      status: PreflightStepStatus.FAIL,
+      message: "Footprint f3 is not among the 2 listed footprints",
+    }));
+    expect(getLinksHeaderFromFootprints).not.toHaveBeenCalled();
+  });
+
+  it("fails when the access token is not accepted for listing footprints", async () => {
+    (fetchFootprints as jest.Mock).mockRejectedValue(
+      new HttpResponseError(403, "Error fetching footprints from https://api.example.com/3/footprints: 403 Forbidden")
+    );
+
+    const result = await runPreflight(params);
+
+    expect(result.passed).toBe(false);
+    expect(result.steps[2]).toEqual(expect.objectContaining({
+      key: "footprints",
+      status: PreflightStepStatus.FAIL,
+      remediation: expect.stringContaining("access token was not accepted"),
+      httpStatus: 403,
+    }));
+    expect(result.steps[3].status).toBe(PreflightStepStatus.SKIPPED);
+  });
+});
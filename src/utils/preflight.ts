@@ -0,0 +1,289 @@
+import config from "../config";
+import { HttpResponseError } from "../errors";
+import { FootprintSelection, PreflightStep, PreflightStepStatus, TestRunStartParams } from "../services/types";
+import { fetchOpenIdTokenEndpoint, getAccessToken } from "./authUtils";
+import { fetchFootprints, getLinksHeaderFromFootprints } from "./fetchFootprints";
+import { redactText } from "./redact";
+import { selectFootprint } from "./selectFootprint";
+import { FootprintCrawl } from "./crawlFootprints";
+import logger from "./logger";
+
+// What the test cases of a test run are generated from, obtained by a passing preflight
+export interface TestRunSetup {
+  // baseUrl of the params without trailing slashes, to be used by the test cases
+  baseUrl: string;
+  authTokenUrl: string;
+  authRequestData: string;
+  accessToken: string;
+  // The listed footprints, with the selected footprint first
+  footprints: any;
+  footprint: FootprintSelection;
+  paginationLinks: Record<string, string>;
+}
+
+export interface PreflightResult {
+  passed: boolean;
+  steps: PreflightStep[];
+  // Only set if the preflight passed
+  setup?: TestRunSetup;
+}
+
+const REACHABILITY_HINT = "is reachable from the conformance service and serves HTTPS with a valid certificate.";
+
+const DNS_ERRORS = ["ENOTFOUND", "EAI_AGAIN"];
+
+const CONNECTION_ERRORS = ["ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EHOSTUNREACH", "UND_ERR_CONNECT_TIMEOUT"];
+
+// Certificate errors of Node.js, e.g. CERT_HAS_EXPIRED or ERR_TLS_CERT_ALTNAME_INVALID
+const TLS_ERROR = /^(CERT_|ERR_TLS_|ERR_SSL_|UNABLE_TO_|DEPTH_ZERO_SELF_SIGNED_CERT|SELF_SIGNED_CERT_IN_CHAIN)/;
+
+const describeError = (error: any): string => {
+  if (error?.name === "TimeoutError") {
+    return `No response within ${config.TESTCASE_TIMEOUT}ms`;
+  }
+  const cause = error?.cause?.code ?? error?.cause?.message;
+  return redactText(`${error?.message ?? error}${cause ? ` (${cause})` : ""}`);
+};
+
+// HTTP status the tested API responded with, undefined if the request failed without a response
+const statusOf = (error: any): number | undefined =>
+  error instanceof HttpResponseError ? error.status : undefined;
+
+// Removes trailing slashes, and lowercases the protocol for the http/https test cases to work correctly
+const normalizeUrl = (url: string): string => url.replace(/\/+$/, "").replace(/^https:/i, "https:");
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// Tells timeouts, DNS, connection and TLS errors apart for requests which failed without a response
+const connectionRemediation = (error: any, url: string): string => {
+  if (error?.name === "TimeoutError") {
+    return `${hostOf(url)} did not respond within ${config.TESTCASE_TIMEOUT}ms. Check that the server is ` +
+      `running and not overloaded. Make sure ${url} ${REACHABILITY_HINT}`;
+  }
+  const code = String(error?.cause?.code ?? "");
+  if (DNS_ERRORS.includes(code)) {
+    return `The host name ${hostOf(url)} could not be resolved (DNS), check the URL. Make sure ${url} ${REACHABILITY_HINT}`;
+  }
+  if (TLS_ERROR.test(code)) {
+    return `The TLS certificate of ${hostOf(url)} was not accepted (${code}). Serve a certificate of a publicly ` +
+      "trusted CA which is valid for the host name, including the intermediate certificates.";
+  }
+  if (CONNECTION_ERRORS.includes(code)) {
+    return `The connection to ${hostOf(url)} failed (${code}), check that no firewall blocks it. Make sure ${url} ${REACHABILITY_HINT}`;
+  }
+  return `Make sure ${url} ${REACHABILITY_HINT}`;
+};
+
+const failedStep = (step: Pick<PreflightStep, "key" | "name">, error: any, remediation: string): PreflightStep => ({
+  ...step,
+  status: PreflightStepStatus.FAIL,
+  message: describeError(error),
+  remediation,
+  ...(statusOf(error) && { httpStatus: statusOf(error) }),
+});
+
+const tokenRemediation = (error: any, authTokenUrl: string): string => {
+  const status = statusOf(error);
+  if (String(error?.message).includes("Access token not present")) {
+    return "The token response must contain the access_token, see the AuthResponseBody of the Technical Specifications.";
+  }
+  if (status === undefined) {
+    return connectionRemediation(error, authTokenUrl);
+  }
+  if (status === 400 || status === 401) {
+    return "Check clientId and clientSecret, and that the client may use the client_credentials grant. " +
+      "Set scope, audience or resource if the auth server requires them.";
+  }
+  if (status === 404 || status === 405) {
+    return "The token endpoint was not found. Publish an OpenID configuration with the token_endpoint, " +
+      "or set customAuthBaseUrl to the base URL of the auth server.";
+  }
+  return `The auth server responded with status ${status}, check its logs.`;
+};
+
+const footprintsRemediation = (error: any, baseUrl: string, params: TestRunStartParams): string => {
+  const status = statusOf(error);
+  if (String(error?.message).includes("No footprint data")) {
+    return "Make at least two footprints available to the client, the test cases request them by their IDs.";
+  }
+  if (status === undefined) {
+    return connectionRemediation(error, baseUrl);
+  }
+  if (status === 401 || status === 403) {
+    return "The access token was not accepted. Check that the client may list footprints, and the scope, " +
+      "audience or resource the token is requested with.";
+  }
+  if (status === 404) {
+    return `ListFootprints was not found, check baseUrl and that the API implements version ${params.version}.`;
+  }
+  return `The API responded with status ${status}, check its logs.`;
+};
+
+// The test cases request footprints by their ID and filter them by their product IDs
+const hasFootprintShape = (footprint: any): boolean =>
+  typeof footprint?.id === "string" && Array.isArray(footprint?.productIds) && footprint.productIds.length > 0;
+
+const footprintsStep = ({ data: footprints, crawl }: { data: any[]; crawl?: FootprintCrawl }): PreflightStep => {
+  const step = { key: "footprints", name: "Footprint listing" } as const;
+  const malformed = footprints.filter((footprint) => !hasFootprintShape(footprint)).length;
+  if (malformed > 0) {
+    return {
+      ...step,
+      status: PreflightStepStatus.WARNING,
+      message: `${malformed} of ${footprints.length} listed footprints have no id or productIds`,
+      remediation: "Return footprints with the id and productIds of the Technical Specifications, the test " +
+        "cases request footprints by them.",
+    };
+  }
+  if (crawl?.issues.length) {
+    return {
+      ...step,
+      status: PreflightStepStatus.WARNING,
+      message: `${footprints.length} footprints listed on ${crawl.pages.length} pages: ${crawl.issues.join("; ")}`,
+      remediation: "Return a next link only while more footprints are available, list every footprint on a " +
+        "single page, and return pages of the same size except for the last one.",
+    };
+  }
+  if (footprints.length < 2) {
+    return {
+      ...step,
+      status: PreflightStepStatus.WARNING,
+      message: `Only ${footprints.length} footprint listed`,
+      remediation: "Make at least two footprints available to the client, the pagination test cases need them.",
+    };
+  }
+  const pages = crawl && crawl.pages.length > 1 ? ` on ${crawl.pages.length} pages` : "";
+  return { ...step, status: PreflightStepStatus.PASS, message: `${footprints.length} footprints listed${pages}` };
+};
+
+/**
+ * Checks the setup of the tested API before the test cases are executed: OpenID discovery,
+ * obtaining an access token, listing footprints and the pagination Link header. Every step
+ * is reported with a hint how to fix it, so a broken configuration is diagnosed instead of
+ * failing the test run with a raw error. The params are not modified.
+ * @returns The steps, and what the test cases are generated from if no step failed, including
+ * the baseUrl without trailing slashes.
+ */
+export const runPreflight = async (params: TestRunStartParams): Promise<PreflightResult> => {
+
+  const baseUrl = normalizeUrl(params.baseUrl);
+  const customAuthBaseUrl = params.customAuthBaseUrl && normalizeUrl(params.customAuthBaseUrl);
+
+  const steps: PreflightStep[] = [];
+  const authBaseUrl = customAuthBaseUrl || baseUrl;
+  const skip = (step: Pick<PreflightStep, "key" | "name">) =>
+    steps.push({ ...step, status: PreflightStepStatus.SKIPPED, message: "Skipped, an access token is required" });
+
+  // Obtain token endpoint from .well-known if available
+  const discoveredTokenUrl = await fetchOpenIdTokenEndpoint(authBaseUrl);
+  const authTokenUrl = discoveredTokenUrl ?? `${authBaseUrl}/auth/token`;
+  steps.push(discoveredTokenUrl
+    ? {
+      key: "openid-discovery",
+      name: "OpenID discovery",
+      status: PreflightStepStatus.PASS,
+      message: `Token endpoint ${authTokenUrl} found in the OpenID configuration`,
+    }
+    : {
+      key: "openid-discovery",
+      name: "OpenID discovery",
+      status: PreflightStepStatus.WARNING,
+      message: `No OpenID configuration found at ${authBaseUrl}/.well-known/openid-configuration, using ${authTokenUrl}`,
+      remediation: "Publish an OpenID configuration with the token_endpoint, unless the token endpoint is " +
+        "available at /auth/token.",
+    });
+
+  // Add scope, audience and resource to the auth request body
+  // Make sure to url encode things, otherwise it will not work
+  // Only include scope, audience and resource if they are provided
+  const authRequestData = new URLSearchParams({
+    grant_type: "client_credentials",
+    ...(params.scope && { scope: params.scope }),
+    ...(params.audience && { audience: params.audience }),
+    ...(params.resource && { resource: params.resource }),
+  }).toString();
+
+  let accessToken: string;
+  try {
+    accessToken = await getAccessToken(authTokenUrl, params.clientId, params.clientSecret, authRequestData);
+    steps.push({
+      key: "token",
+      name: "Access token",
+      status: PreflightStepStatus.PASS,
+      message: `Access token obtained from ${authTokenUrl}`,
+    });
+  } catch (error) {
+    steps.push(failedStep({ key: "token", name: "Access token" }, error, tokenRemediation(error, authTokenUrl)));
+    skip({ key: "footprints", name: "Footprint listing" });
+    skip({ key: "pagination", name: "Pagination Link header" });
+    return finishPreflight(steps);
+  }
+
+  let footprints: any;
+  let footprint: FootprintSelection;
+  try {
+    footprints = await fetchFootprints(baseUrl, accessToken, params.version);
+    const selected = selectFootprint(footprints.data, params.footprintId);
+    if (!selected) {
+      steps.push({
+        key: "footprints",
+        name: "Footprint listing",
+        status: PreflightStepStatus.FAIL,
+        message: `Footprint ${params.footprintId} is not among the ${footprints.data.length} listed footprints`,
+        remediation: "Check footprintId, or omit it to select a footprint automatically. The footprint must " +
+          "be listed for the client.",
+      });
+      skip({ key: "pagination", name: "Pagination Link header" });
+      return finishPreflight(steps);
+    }
+    // The test cases request the first footprint and filter by its attributes
+    footprints = { ...footprints, data: [selected.footprint, ...footprints.data.filter((fp: any) => fp !== selected.footprint)] };
+    footprint = selected.selection;
+    steps.push(footprintsStep(footprints));
+  } catch (error) {
+    steps.push(failedStep({ key: "footprints", name: "Footprint listing" }, error, footprintsRemediation(error, baseUrl, params)));
+    skip({ key: "pagination", name: "Pagination Link header" });
+    return finishPreflight(steps);
+  }
+
+  let paginationLinks: Record<string, string> = {};
+  try {
+    paginationLinks = await getLinksHeaderFromFootprints(baseUrl, accessToken, params.version);
+  } catch (error) {
+    logger.warn(`Failed to request the first page of footprints: ${describeError(error)}`);
+  }
+  steps.push(paginationLinks.next
+    ? {
+      key: "pagination",
+      name: "Pagination Link header",
+      status: PreflightStepStatus.PASS,
+      message: `Link header with the next page returned for limit=1`,
+    }
+    : {
+      key: "pagination",
+      name: "Pagination Link header",
+      status: PreflightStepStatus.WARNING,
+      message: `No Link header with rel="next" returned for limit=1, the pagination test cases will fail`,
+      remediation: "Return a Link header with the URL of the next page when more footprints are available " +
+        "than the limit, see the pagination section of the Technical Specifications.",
+    });
+
+  return {
+    ...finishPreflight(steps),
+    setup: { baseUrl, authTokenUrl, authRequestData, accessToken, footprints, footprint, paginationLinks },
+  };
+};
+
+const finishPreflight = (steps: PreflightStep[]): PreflightResult => {
+  const passed = !steps.some((step) => step.status === PreflightStepStatus.FAIL);
+  for (const step of steps.filter((s) => s.status !== PreflightStepStatus.PASS)) {
+    logger.warn(`Preflight ${step.name}: ${step.status} - ${step.message}`);
+  }
+  return { passed, steps };
+};
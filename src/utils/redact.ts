@@ -0,0 +1,150 @@
+/**
+ * Central masking of credentials, used for everything the service logs, stores or shows:
+ * access tokens, client secrets and Authorization headers.
+ *
+ * Redaction is always on in the service. The CLI can opt in to reveal secrets, for
+ * instance to copy a curl command including the access token to reproduce a failure.
+ */
+
+export const REDACTED = "[REDACTED]";
+
+// Object keys (and form or JSON fields) whose values are credentials, compared lowercase
+const SECRET_KEYS = [
+  "clientsecret",
+  "client_secret",
+  "accesstoken",
+  "access_token",
+  "refreshtoken",
+  "refresh_token",
+  "id_token",
+  "password",
+  "cookie",
+  "set-cookie",
+];
+
+// Headers whose values start with an authentication scheme, which is kept when masking
+const AUTHORIZATION_HEADERS = ["authorization", "proxy-authorization"];
+
+// Authorization headers in text, e.g. in a curl command or a logged request: everything after
+// the scheme is the credential, up to the end of the quoted header or the line
+const HEADER_PATTERN = new RegExp(
+  `(\\b(?:${AUTHORIZATION_HEADERS.join("|")})"?\\s*:\\s*"?(?:(?:bearer|basic)\\s+)?)[^"'\\r\\n]+`,
+  "gi"
+);
+
+// Credentials following an authentication scheme elsewhere, e.g. "Bearer eyJhbGciOi...". Credentials
+// contain a digit, symbol or uppercase letter, or are longer than a word, which keeps prose like
+// "Basic authentication".
+const TOKEN = "[A-Za-z0-9\\-._~+/]";
+const SCHEME_PATTERN = new RegExp(
+  `\\b([Bb]earer|[Bb]asic)\\s+(?=${TOKEN}*(?:[0-9=]|[\\-._~+/]${TOKEN})|${TOKEN}+[A-Z]|${TOKEN}{16})${TOKEN}+=*`,
+  "g"
+);
+
+// Secret fields in JSON ("client_secret": "...") and form encoded (client_secret=...) text. Quoted
+// values end at the closing quote, other values at the next "&" or quote, or at the end of the line.
+const FIELD_PATTERN = new RegExp(
+  `((?:"|\\b)(?:${SECRET_KEYS.filter((key) => !key.includes("cookie")).join("|")})"?\\s*[:=]\\s*)` +
+  `(?:"(?:[^"\\\\\\r\\n]|\\\\.)*"|[^&"\\r\\n]+?(?=[&"]|'?[ \\t]*$))`,
+  "gim"
+);
+
+let revealSecrets = false;
+
+/**
+ * Disables redaction for the current process. Only to be used by the CLI.
+ */
+export const setRevealSecrets = (reveal: boolean) => {
+  revealSecrets = reveal;
+};
+
+/**
+ * Masks credentials in free text such as log messages, curl commands or response bodies.
+ */
+export const redactText = (text: string): string => {
+  if (revealSecrets) {
+    return text;
+  }
+  return text
+    .replace(HEADER_PATTERN, `$1${REDACTED}`)
+    .replace(SCHEME_PATTERN, (_match, scheme) => `${scheme} ${REDACTED}`)
+    .replace(FIELD_PATTERN, (match, field: string) =>
+      match.charAt(field.length) === '"' ? `${field}"${REDACTED}"` : `${field}${REDACTED}`
+    );
+};
+
+/**
+ * Masks the values of headers carrying credentials. For Authorization headers the
+ * scheme is kept, e.g. "Basic [REDACTED]", as it is relevant when debugging.
+ */
+export const redactHeaders = (headers: Record<string, string>): Record<string, string> => {
+  if (revealSecrets) {
+    return headers;
+  }
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (AUTHORIZATION_HEADERS.includes(key)) {
+      const scheme = value.split(" ")[0];
+      redacted[name] = value.includes(" ") ? `${scheme} ${REDACTED}` : REDACTED;
+    } else if (SECRET_KEYS.includes(key)) {
+      redacted[name] = REDACTED;
+    } else {
+      redacted[name] = value;
+    }
+  }
+  return redacted;
+};
+
+/**
+ * Returns a copy of the value with all credentials masked, both in secret fields
+ * (e.g. clientSecret) and in strings (e.g. a curl command with a bearer token).
+ */
+export const redactValue = <T>(value: T): T => {
+  if (revealSecrets) {
+    return value;
+  }
+  if (typeof value === "string") {
+    return redactText(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item)) as T;
+  }
+  if (value instanceof Error) {
+    return redactError(value) as T;
+  }
+  // Other class instances are passed through, they are serialized by the logger
+  if (value === null || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+  const redacted: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const name = key.toLowerCase();
+    if (SECRET_KEYS.includes(name) && item !== undefined && item !== null) {
+      redacted[key] = REDACTED;
+    } else if (AUTHORIZATION_HEADERS.includes(name) && typeof item === "string") {
+      redacted[key] = redactHeaders({ [key]: item })[key];
+    } else {
+      redacted[key] = redactValue(item);
+    }
+  }
+  return redacted as T;
+};
+
+/**
+ * Returns a copy of the error with credentials masked in its message, stack and cause, e.g. a
+ * failed token request whose message contains the response with an access token.
+ */
+const redactError = (error: Error): Error => {
+  const redacted: Error = Object.assign(Object.create(Object.getPrototypeOf(error)), error);
+  redacted.message = redactText(error.message);
+  if (error.stack) {
+    redacted.stack = redactText(error.stack);
+  }
+  // Node's fetch wraps network errors, the details are found on the cause
+  const cause = (error as any).cause;
+  if (cause !== undefined) {
+    (redacted as any).cause = redactValue(cause);
+  }
+  return redacted;
+};
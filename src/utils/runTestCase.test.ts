@@ -11,6 +11,8 @@ const VERSION = "v1";
 const makeHeaders = (obj: Record<string, string> = {}) => ({
   get: (k: string) => (k in obj ? obj[k] : null),
   has: (k: string) => k in obj,
+  forEach: (cb: (value: string, key: string) => void) =>
+    Object.entries(obj).forEach(([k, v]) => cb(v, k.toLowerCase())),
 });
 
 const mockFetchOk = (
@@ -85,17 +87,49 @@ describe("runTestCase", () => {
     expect((options as RequestInit).body).toBeUndefined();
 
     expect(res.status).toBe(TestCaseResultStatus.SUCCESS);
-    // Curl contains method, URL, auth header, content-type; no -d
+    // Curl contains method, URL, redacted auth header, content-type; no -d
     expect(res.curlRequest).toContain(
       "curl -X GET 'https://api.example.com/health'"
     );
     expect(res.curlRequest).toContain(
-      " -H 'Authorization: Bearer test-access-token'"
+      " -H 'Authorization: Bearer [REDACTED]'"
     );
     expect(res.curlRequest).toContain(" -H 'Content-Type: application/json'");
     expect(res.curlRequest).not.toContain(" -d '");
   });
 
+  it("attaches the HTTP exchange with the access token redacted", async () => {
+    mockFetchOk(200, JSON.stringify({ ok: true }));
+
+    const res = await runTestCase(
+      BASE_URL,
+      {
+        name: "exchange",
+        method: "GET",
+        endpoint: "/health",
+        expectedStatusCodes: [200],
+        testKey: "T-EX",
+      } as any,
+      ACCESS_TOKEN,
+      VERSION as any
+    );
+
+    expect(res.exchange?.request).toEqual({
+      method: "GET",
+      url: `${BASE_URL}/health`,
+      headers: { "Content-Type": "application/json", Authorization: "Bearer [REDACTED]" },
+      body: undefined,
+    });
+    expect(res.exchange?.response).toEqual(
+      expect.objectContaining({
+        status: 200,
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ ok: true }),
+      })
+    );
+    expect(res.exchange?.timings.total).toEqual(expect.any(Number));
+  });
+
   it("uses customUrl over baseUrl+endpoint and merges/overrides headers; string body appears in curl", async () => {
     mockFetchOk(200, "");
 
@@ -130,7 +164,7 @@ describe("runTestCase", () => {
       "curl -X POST 'https://alt.example.net/echo'"
     );
     expect(res.curlRequest).toContain(
-      " -H 'Authorization: Bearer test-access-token'"
+      " -H 'Authorization: Bearer [REDACTED]'"
     );
     expect(res.curlRequest).toContain(" -H 'Content-Type: text/plain'");
     expect(res.curlRequest).toContain(" -H 'X-Test: 1'");
@@ -203,7 +237,7 @@ describe("runTestCase", () => {
 
     expect(res.status).toBe(TestCaseResultStatus.FAILURE);
     expect(res.errorMessage).toContain("Schema validation failed:");
-    expect(res.apiResponse).toBe(JSON.stringify({ id: "oops" }));
+    expect(res.exchange?.response?.body).toBe(JSON.stringify({ id: "oops" }));
   });
 
   it("schema validation passes and condition passes -> success", async () => {
@@ -253,7 +287,7 @@ describe("runTestCase", () => {
 
     expect(res.status).toBe(TestCaseResultStatus.FAILURE);
     expect(res.errorMessage).toBe("Condition failed!");
-    expect(res.apiResponse).toBe(JSON.stringify({ id: 1 }));
+    expect(res.exchange?.response?.body).toBe(JSON.stringify({ id: 1 }));
   });
 
   it("timeout error returns SUCCESS when expectHttpError is true", async () => {
@@ -615,6 +649,211 @@ describe("runTestCase", () => {
 
     expect(res.status).toBe(TestCaseResultStatus.FAILURE);
     expect(res.errorMessage).toContain("Schema validation failed:");
-    expect(res.apiResponse).toBe(JSON.stringify(complexInvalidData));
+    expect(res.exchange?.response?.body).toBe(JSON.stringify(complexInvalidData));
+  });
+
+  describe("retry policy", () => {
+    const RETRY_POLICY = {
+      attempts: 3,
+      backoff: 0,
+      retryStatusCodes: [502, 503, 504],
+      retryErrorCodes: ["ECONNRESET", "ENOTFOUND"],
+    };
+
+    const response = (status: number, body = "{}") => ({
+      ok: status < 400,
+      status,
+      text: jest.fn().mockResolvedValue(body as never),
+      headers: makeHeaders({ "Content-Type": "application/json" }),
+    });
+
+    const networkError = (code: string) =>
+      Object.assign(new TypeError("fetch failed"), { cause: { code } });
+
+    it("retries a transient status code and records every attempt", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(response(502) as never)
+        .mockResolvedValueOnce(response(200) as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "retry-502", method: "GET", endpoint: "/x", expectedStatusCodes: [200], testKey: "T-29" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(res.status).toBe(TestCaseResultStatus.SUCCESS);
+      expect(res.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, httpStatus: 502, retryReason: "HTTP status 502" }),
+        expect.objectContaining({ attempt: 2, httpStatus: 200 }),
+      ]);
+      expect(res.attempts![1].retryReason).toBeUndefined();
+    });
+
+    it("retries a transient network error", async () => {
+      (global.fetch as jest.Mock)
+        .mockRejectedValueOnce(networkError("ENOTFOUND") as never)
+        .mockResolvedValueOnce(response(200) as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "retry-dns", method: "GET", endpoint: "/x", expectedStatusCodes: [200], testKey: "T-30" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(res.status).toBe(TestCaseResultStatus.SUCCESS);
+      expect(res.attempts![0]).toEqual(
+        expect.objectContaining({ error: "fetch failed", retryReason: "Network error ENOTFOUND" })
+      );
+    });
+
+    it("retries a request which timed out", async () => {
+      (global.fetch as jest.Mock)
+        .mockRejectedValueOnce({ name: "TimeoutError", message: "The operation was aborted due to timeout" } as never)
+        .mockResolvedValueOnce(response(200) as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "retry-timeout", method: "GET", endpoint: "/x", expectedStatusCodes: [200], testKey: "T-30" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(res.status).toBe(TestCaseResultStatus.SUCCESS);
+      expect(res.attempts![0].retryReason).toBe("Request timeout after 5000ms");
+    });
+
+    it("fails after the maximum number of attempts", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(response(503) as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "retry-exhausted", method: "GET", endpoint: "/x", expectedStatusCodes: [200], testKey: "T-31" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(res.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(res.errorMessage).toBe("Expected status [200], but got 503");
+      expect(res.attempts).toHaveLength(3);
+      expect(res.attempts![2].retryReason).toBeUndefined();
+    });
+
+    it("does not retry errors which are not transient", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(response(500) as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "no-retry-500", method: "GET", endpoint: "/x", expectedStatusCodes: [200], testKey: "T-32" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(res.attempts).toBeUndefined();
+    });
+
+    it("does not retry negative test cases expecting a 4xx status", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(response(503) as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "negative", method: "GET", endpoint: "/x", expectedStatusCodes: [400, 401], testKey: "T-33" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(res.status).toBe(TestCaseResultStatus.FAILURE);
+    });
+
+    it("does not retry requests which are not idempotent", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(response(503) as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "event", method: "POST", endpoint: "/3/events", expectedStatusCodes: [200], testKey: "T-35" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(res.status).toBe(TestCaseResultStatus.FAILURE);
+    });
+
+    it("does not retry test cases expecting an HTTP error", async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(networkError("ECONNRESET") as never);
+
+      const res = await runTestCase(
+        BASE_URL,
+        { name: "expect-http-error", method: "GET", endpoint: "/x", expectHttpError: true, testKey: "T-34" } as any,
+        ACCESS_TOKEN,
+        VERSION as any,
+        RETRY_POLICY
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(res.status).toBe(TestCaseResultStatus.SUCCESS);
+    });
+  });
+
+  describe("test cases following the next links", () => {
+    const PAGINATED = {
+      name: "pagination",
+      method: "GET",
+      customUrl: `${BASE_URL}/3/footprints?limit=1`,
+      followNextLinks: true,
+      testKey: "T-36",
+    };
+
+    it("records the exchange of every page", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: jest.fn().mockResolvedValue(JSON.stringify({ data: [{ id: "a" }] }) as never),
+          headers: makeHeaders({ Link: '</3/footprints?limit=1&cursor=2>; rel="next"' }),
+        } as never)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: jest.fn().mockResolvedValue(JSON.stringify({ data: [] }) as never),
+          headers: makeHeaders(),
+        } as never);
+
+      const res = await runTestCase(BASE_URL, PAGINATED as any, ACCESS_TOKEN, VERSION as any);
+
+      expect(res.status).toBe(TestCaseResultStatus.SUCCESS);
+      expect(res.pages!.map((page) => page.request.url)).toEqual([
+        `${BASE_URL}/3/footprints?limit=1`,
+        `${BASE_URL}/3/footprints?limit=1&cursor=2`,
+      ]);
+      expect(res.pages![0].response).toEqual(expect.objectContaining({ status: 200, headers: expect.any(Object) }));
+      expect(res.pages!.every((page) => page.response!.body === undefined)).toBe(true);
+      expect(res.exchange!.request.url).toBe(`${BASE_URL}/3/footprints?limit=1&cursor=2`);
+      expect(res.exchange!.response!.body).toBe(JSON.stringify({ data: [] }));
+    });
+
+    it("reports a timeout like other test cases", async () => {
+      mockFetchReject({ name: "TimeoutError", message: "The operation was aborted due to timeout" });
+
+      const res = await runTestCase(BASE_URL, PAGINATED as any, ACCESS_TOKEN, VERSION as any);
+
+      expect(res.status).toBe(TestCaseResultStatus.FAILURE);
+      expect(res.errorMessage).toBe("Request timeout after 5000ms");
+      expect(res.pages).toHaveLength(1);
+    });
   });
 });
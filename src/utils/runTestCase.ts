@@ -3,12 +3,17 @@ import addFormats from "ajv-formats";
 import betterErrors from "ajv-errors";
 import {
   ApiVersion,
+  HttpExchange,
+  TestAttempt,
   TestCase,
   TestResult,
   TestCaseResultStatus,
 } from "../services/types";
 import config from "../config";
 import logger from "./logger";
+import { fetchWithExchange } from "./httpExchange";
+import { redactHeaders, redactText } from "./redact";
+import { crawlFootprints } from "./crawlFootprints";
 
 const isMandatoryVersion = (testCase: TestCase, version: ApiVersion) => {
   if (testCase.mandatoryVersion) {
@@ -17,6 +22,78 @@ const isMandatoryVersion = (testCase: TestCase, version: ApiVersion) => {
   return false;
 };
 
+/**
+ * Policy for retrying requests which failed because of a transient network failure.
+ */
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  attempts: number;
+  // Delay in milliseconds before the first retry, doubled for every next retry
+  backoff: number;
+  // HTTP status codes which are considered transient
+  retryStatusCodes: number[];
+  // Network error codes (e.g. ECONNRESET) which are considered transient, timeouts of the
+  // request are always considered transient
+  retryErrorCodes: string[];
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  attempts: config.TESTCASE_RETRY_ATTEMPTS,
+  backoff: config.TESTCASE_RETRY_BACKOFF,
+  retryStatusCodes: config.TESTCASE_RETRY_STATUS_CODES,
+  retryErrorCodes: config.TESTCASE_RETRY_ERROR_CODES,
+};
+
+// Requests which can be sent again without side effects on the tested API
+const IDEMPOTENT_METHODS = ["GET", "HEAD"];
+
+/**
+ * Negative test cases expect the request to fail, either with a 4xx status code or
+ * an HTTP error. Retrying those would only hide the behaviour being tested. Other requests
+ * than GET and HEAD, e.g. events and action requests, are never retried so the tested API
+ * does not receive them twice.
+ */
+const isRetryable = (testCase: TestCase) => {
+  if (testCase.expectHttpError || !IDEMPOTENT_METHODS.includes(testCase.method)) {
+    return false;
+  }
+  return !testCase.expectedStatusCodes?.some((code) => code >= 400 && code < 500);
+};
+
+/**
+ * Determines whether the outcome of a request is a transient failure, and if so, why.
+ */
+const getRetryReason = (
+  policy: RetryPolicy,
+  testCase: TestCase,
+  status: number,
+  error: any
+): string | undefined => {
+  if (error) {
+    // The request was aborted by the AbortSignal.timeout of the test case
+    if (error.name === "TimeoutError") {
+      return `Request timeout after ${config.TESTCASE_TIMEOUT}ms`;
+    }
+    // Node's fetch wraps network errors, the error code is found on the cause.
+    const code = error.cause?.code ?? error.code;
+    if (code && policy.retryErrorCodes.includes(code)) {
+      return `Network error ${code}`;
+    }
+    return undefined;
+  }
+  // Only retry when a status is returned that was not expected by the test case
+  if (
+    testCase.expectedStatusCodes &&
+    !testCase.expectedStatusCodes.includes(status) &&
+    policy.retryStatusCodes.includes(status)
+  ) {
+    return `HTTP status ${status}`;
+  }
+  return undefined;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 /**
  * Generates a curl command representation of the HTTP request
  */
@@ -41,21 +118,82 @@ const generateCurlCommand = (
   return curlCmd;
 };
 
+// Requests fail with a TimeoutError when AbortSignal.timeout fires, or an AbortError when aborted
+const getErrorMessage = (error: any): string =>
+  error?.name === "TimeoutError" || error?.name === "AbortError"
+    ? `Request timeout after ${config.TESTCASE_TIMEOUT}ms`
+    : error?.message ?? String(error);
+
+// The footprints of every page are already part of the crawl, only the status and headers
+// of the responses are kept for the pages
+const withoutResponseBody = ({ response, ...exchange }: HttpExchange): HttpExchange => {
+  if (!response) {
+    return exchange;
+  }
+  const { body, ...rest } = response;
+  return { ...exchange, response: rest };
+};
+
+/**
+ * Runs a test case which follows the next links across all pages of footprints. Pages which
+ * can not be fetched are reported by the crawl, so the request is not retried. The exchange
+ * of the last page is recorded with its body, the other pages without.
+ */
+const runPaginatedTestCase = async (url: string, testCase: TestCase, accessToken: string, result: TestResult) => {
+  const pages: HttpExchange[] = [];
+  try {
+    const crawl = await crawlFootprints(url, accessToken, config.PAGINATION_MAX_PAGES, pages);
+    result.apiResponse = JSON.stringify({ pages: crawl.pages, footprints: crawl.footprints.length }, null, 2);
+
+    const messages: string[] = [];
+    if (typeof testCase.condition === "function" && !testCase.condition(crawl, messages)) {
+      result.status = TestCaseResultStatus.FAILURE;
+      if (testCase.conditionErrorMessage) {
+        messages.push(testCase.conditionErrorMessage);
+      }
+    }
+    result.errorMessage = messages.join(", ");
+  } catch (error: any) {
+    result.status = TestCaseResultStatus.FAILURE;
+    result.errorMessage = getErrorMessage(error);
+  }
+  if (pages.length > 0) {
+    result.exchange = pages[pages.length - 1];
+    result.pages = pages.map(withoutResponseBody);
+  }
+  return result;
+};
+
 /**
  * Runs an individual test case against the API.
  * Validates both the HTTP status and the JSON response against a provided schema.
+ * Requests failing with a transient network error are retried according to the retry policy,
+ * every attempt is recorded on the result.
  */
 export const runTestCase = async (
   baseUrl: string,
   testCase: TestCase,
   accessToken: string,
-  version: ApiVersion
+  version: ApiVersion,
+  retryPolicy: RetryPolicy = defaultRetryPolicy
 ): Promise<TestResult> => {
 
-  // If expectHttpError then just run the test and invert the result
+  if (testCase.skipReason) {
+    return {
+      name: testCase.name,
+      mandatory: isMandatoryVersion(testCase, version),
+      testKey: testCase.testKey,
+      status: TestCaseResultStatus.SKIPPED,
+      errorMessage: testCase.skipReason,
+      documentationUrl: testCase.documentationUrl,
+    };
+  }
+
+  // If expectHttpError then just run the test and invert the result.
+  // Such test cases expect the request to fail, so they are never retried.
   if (testCase.expectHttpError) {
     testCase.expectHttpError = false;
-    const result = await runTestCase(baseUrl, testCase, accessToken, version);
+    const result = await runTestCase(baseUrl, testCase, accessToken, version, { ...retryPolicy, attempts: 1 });
     testCase.expectHttpError = true;
     if (result.status == TestCaseResultStatus.SUCCESS) {
       result.errorMessage = "Expected failure, but request was successful.";
@@ -88,7 +226,8 @@ export const runTestCase = async (
     mandatory: isMandatoryVersion(testCase, version),
     testKey: testCase.testKey,
     status: TestCaseResultStatus.SUCCESS, // Assume success, will change if any checks fail
-    curlRequest: generateCurlCommand(url, testCase.method, headers, body),
+    // Credentials are redacted, the curl command is shown to anyone viewing the test run
+    curlRequest: generateCurlCommand(url, testCase.method, redactHeaders(headers), body && redactText(body)),
     documentationUrl: testCase.documentationUrl,
   };
 
@@ -102,36 +241,74 @@ export const runTestCase = async (
     result.curlRequest = generateCurlCommand(url, testCase.method, headers, body);
     return result;
   }
+
+  if (testCase.followNextLinks) {
+    return await runPaginatedTestCase(url, testCase, accessToken, result);
+  }
   
   let status = 0;
-  let text = null;
-  let data = null;
+  let text: string | null = null;
+  let data: unknown = null;
+  let fetchError: Error | null = null;
 
-  try {
-    const response = await fetch(url, {
+  const attempts: TestAttempt[] = [];
+  const maxAttempts = isRetryable(testCase) ? Math.max(1, retryPolicy.attempts) : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const record: TestAttempt = { attempt, timestamp: new Date().toISOString() };
+    attempts.push(record);
+    status = 0;
+    text = null;
+    data = null;
+    fetchError = null;
+
+    const { response, body: responseBody, error, exchange } = await fetchWithExchange(url, {
       method: testCase.method,
       body: body,
       headers: headers,
       signal: AbortSignal.timeout(config.TESTCASE_TIMEOUT),
     });
-    status = response.status;
-    text = await response.text();
-    if (text && response.headers.get("Content-Type")?.includes("application/json")) {
-      data = JSON.parse(text);
+    result.exchange = exchange;
+
+    if (response) {
+      status = response.status;
+      record.httpStatus = status;
     }
-  }
-  catch (error: any) {
-    if (error.name === "AbortError"){
-      result.errorMessage = `Request timeout after ${config.TESTCASE_TIMEOUT}ms`;
-    } else {
-      result.errorMessage = error.message;
+    try {
+      if (error) {
+        throw error;
+      }
+      text = responseBody;
+      if (text && response?.headers.get("Content-Type")?.includes("application/json")) {
+        data = JSON.parse(text);
+      }
+    }
+    catch (error: any) {
+      fetchError = error;
+      record.error = error.message;
     }
+
+    const retryReason = attempt < maxAttempts
+      ? getRetryReason(retryPolicy, testCase, status, fetchError)
+      : undefined;
+    if (!retryReason) {
+      break;
+    }
+    record.retryReason = retryReason;
+    logger.warn(`Test case "${testCase.name}" attempt ${attempt} failed (${retryReason}), retrying...`);
+    await sleep(retryPolicy.backoff * 2 ** (attempt - 1));
+  }
+
+  if (attempts.length > 1) {
+    result.attempts = attempts;
+  }
+
+  if (fetchError) {
+    result.errorMessage = getErrorMessage(fetchError);
     result.status = TestCaseResultStatus.FAILURE;
     return result;
   }
 
-  result.apiResponse = text;
-  
   if (testCase.expectedStatusCodes && !testCase.expectedStatusCodes.includes(status)) {
     result.status = TestCaseResultStatus.FAILURE;
     result.errorMessage = `Expected status [${testCase.expectedStatusCodes.join(", ")}], but got ${status}`;
@@ -0,0 +1,115 @@
+import { scheduleTestCases } from "./scheduleTestCases";
+import { TestCase, TestCaseResultStatus, TestResult } from "../services/types";
+
+const makeTestCase = (testKey: string, dependsOn?: string[]): TestCase => ({
+  name: testKey,
+  method: "GET",
+  testKey,
+  dependsOn,
+});
+
+const makeResult = (testCase: TestCase): TestResult => ({
+  name: testCase.name,
+  testKey: testCase.testKey,
+  status: TestCaseResultStatus.SUCCESS,
+  mandatory: true,
+});
+
+// Resolves after the given number of milliseconds
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("scheduleTestCases", () => {
+  it("returns results in test case order even if they finish out of order", async () => {
+    const testCases = [makeTestCase("A"), makeTestCase("B"), makeTestCase("C")];
+    const durations: Record<string, number> = { A: 30, B: 10, C: 20 };
+    const finishOrder: string[] = [];
+
+    const results = await scheduleTestCases(testCases, 3, async (tc) => {
+      await delay(durations[tc.testKey]);
+      finishOrder.push(tc.testKey);
+      return makeResult(tc);
+    });
+
+    expect(finishOrder).toEqual(["B", "C", "A"]);
+    expect(results.map((r) => r.testKey)).toEqual(["A", "B", "C"]);
+  });
+
+  it("never runs more test cases at the same time than the concurrency limit", async () => {
+    const testCases = ["A", "B", "C", "D", "E"].map((key) => makeTestCase(key));
+    let running = 0;
+    let maxRunning = 0;
+
+    await scheduleTestCases(testCases, 2, async (tc) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      running--;
+      return makeResult(tc);
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it("runs test cases sequentially with a concurrency of 1", async () => {
+    const testCases = [makeTestCase("A"), makeTestCase("B")];
+    const events: string[] = [];
+
+    await scheduleTestCases(testCases, 1, async (tc) => {
+      events.push(`start ${tc.testKey}`);
+      await delay(5);
+      events.push(`end ${tc.testKey}`);
+      return makeResult(tc);
+    });
+
+    expect(events).toEqual(["start A", "end A", "start B", "end B"]);
+  });
+
+  it("starts a test case only after its dependencies have finished", async () => {
+    const testCases = [
+      makeTestCase("TESTCASE#12"),
+      makeTestCase("TESTCASE#13", ["TESTCASE#12"]),
+      makeTestCase("TESTCASE#14.A"),
+      makeTestCase("TESTCASE#14.B", ["TESTCASE#14.A"]),
+    ];
+    const events: string[] = [];
+
+    await scheduleTestCases(testCases, 4, async (tc) => {
+      events.push(`start ${tc.testKey}`);
+      await delay(tc.testKey.startsWith("TESTCASE#12") ? 20 : 5);
+      events.push(`end ${tc.testKey}`);
+      return makeResult(tc);
+    });
+
+    expect(events.indexOf("start TESTCASE#13")).toBeGreaterThan(events.indexOf("end TESTCASE#12"));
+    expect(events.indexOf("start TESTCASE#14.B")).toBeGreaterThan(events.indexOf("end TESTCASE#14.A"));
+    // Independent test cases do not wait for each other
+    expect(events.indexOf("start TESTCASE#14.A")).toBeLessThan(events.indexOf("end TESTCASE#12"));
+  });
+
+  it("ignores dependencies on test cases which are not scheduled", async () => {
+    const testCases = [makeTestCase("TESTCASE#13", ["TESTCASE#12"])];
+
+    const results = await scheduleTestCases(testCases, 2, async (tc) => makeResult(tc));
+
+    expect(results).toHaveLength(1);
+  });
+
+  it("rejects on circular dependencies", async () => {
+    const testCases = [makeTestCase("A", ["B"]), makeTestCase("B", ["A"])];
+
+    await expect(
+      scheduleTestCases(testCases, 2, async (tc) => makeResult(tc))
+    ).rejects.toThrow("Circular dependency between test cases: A, B");
+  });
+
+  it("rejects when running a test case throws", async () => {
+    const testCases = [makeTestCase("A"), makeTestCase("B")];
+
+    await expect(
+      scheduleTestCases(testCases, 2, async (tc) => {
+        if (tc.testKey === "B") throw new Error("boom");
+        return makeResult(tc);
+      })
+    ).rejects.toThrow("boom");
+  });
+});
@@ -0,0 +1,69 @@
+import { TestCase, TestResult } from "../services/types";
+
+/**
+ * Runs test cases concurrently, with at most `concurrency` test cases in flight.
+ *
+ * A test case is only started when all test cases listed in its `dependsOn` have
+ * finished, e.g. the callback of Test Case 13 is only awaited after the request of
+ * Test Case 12 has been sent. Dependencies on test cases which are not part of the
+ * list (for instance because they were filtered out) are ignored. Ready test cases
+ * are started in the order they appear in the list.
+ *
+ * @returns The results in the same order as the test cases, regardless of the order
+ * in which they finished.
+ */
+export const scheduleTestCases = async (
+  testCases: TestCase[],
+  concurrency: number,
+  run: (testCase: TestCase) => Promise<TestResult>
+): Promise<TestResult[]> => {
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  const keys = new Set(testCases.map((tc) => tc.testKey));
+  const results: TestResult[] = new Array(testCases.length);
+  const finished = new Set<string>();
+
+  const waiting = testCases.map((testCase, index) => ({
+    testCase,
+    index,
+    dependsOn: (testCase.dependsOn ?? []).filter((key) => keys.has(key)),
+  }));
+
+  return new Promise((resolve, reject) => {
+    let running = 0;
+    let failed = false;
+
+    const next = () => {
+      if (failed) return;
+      if (waiting.length === 0 && running === 0) {
+        resolve(results);
+        return;
+      }
+      while (running < limit) {
+        const i = waiting.findIndex((w) => w.dependsOn.every((key) => finished.has(key)));
+        if (i === -1) break;
+        const [item] = waiting.splice(i, 1);
+        running++;
+        run(item.testCase).then(
+          (result) => {
+            results[item.index] = result;
+            finished.add(item.testCase.testKey);
+            running--;
+            next();
+          },
+          (error) => {
+            failed = true;
+            reject(error);
+          }
+        );
+      }
+      if (running === 0 && waiting.length > 0) {
+        failed = true;
+        reject(new Error(
+          `Circular dependency between test cases: ${waiting.map((w) => w.testCase.testKey).join(", ")}`
+        ));
+      }
+    };
+
+    next();
+  });
+};
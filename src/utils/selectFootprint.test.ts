@@ -0,0 +1,44 @@
+import { selectFootprint } from "./selectFootprint";
+
+describe("selectFootprint", () => {
+  const sparse = { id: "fp-1", productIds: ["urn:product:1"], status: "Active" };
+  const rich = {
+    id: "fp-2",
+    productIds: ["urn:product:2"],
+    companyIds: ["urn:company:1"],
+    productClassifications: ["urn:classification:1"],
+    pcf: { geographyCountry: "DE" },
+    validityPeriodStart: "2024-01-01T00:00:00Z",
+    validityPeriodEnd: "2026-01-01T00:00:00Z",
+    status: "Active",
+    created: "2024-01-01T00:00:00Z",
+  };
+
+  it("selects the footprint with the most filterable attributes", () => {
+    const result = selectFootprint([sparse, rich]);
+
+    expect(result?.footprint).toBe(rich);
+    expect(result?.selection).toEqual({
+      id: "fp-2",
+      selectedBy: "automatic",
+      reason: "Has the most filterable attributes of the 2 listed footprints",
+      filterableAttributes: ["productIds", "companyIds", "geography", "classification", "validityPeriod", "status", "created"],
+    });
+  });
+
+  it("names the attributes the selected footprint lacks and keeps the first footprint on a tie", () => {
+    const result = selectFootprint([sparse, { ...sparse, id: "fp-3" }]);
+
+    expect(result?.selection.id).toBe("fp-1");
+    expect(result?.selection.reason).toContain("lacks companyIds, geography, classification, validityPeriod, created");
+  });
+
+  it("selects the footprint given with its ID, even if others have more attributes", () => {
+    expect(selectFootprint([sparse, rich], "fp-1")?.selection).toEqual(expect.objectContaining({
+      id: "fp-1",
+      selectedBy: "footprintId",
+      filterableAttributes: ["productIds", "status"],
+    }));
+    expect(selectFootprint([sparse, rich], "fp-9")).toBeUndefined();
+  });
+});
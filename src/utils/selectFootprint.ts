@@ -0,0 +1,66 @@
+import { FootprintSelection } from "../services/types";
+
+const isValidDate = (value: unknown) => typeof value === "string" && !isNaN(new Date(value).getTime());
+
+const isNonEmptyArray = (value: unknown) => Array.isArray(value) && value.length > 0;
+
+// Attributes the filter test cases of V2 ($filter by created) and V3 (Test Cases 20 to 29) use
+const FILTERABLE_ATTRIBUTES: Record<string, (footprint: any) => boolean> = {
+  productIds: (footprint) => isNonEmptyArray(footprint.productIds),
+  companyIds: (footprint) => isNonEmptyArray(footprint.companyIds),
+  geography: (footprint) => Boolean(
+    footprint.pcf?.geographyCountry ||
+    footprint.pcf?.geographyRegionOrSubregion ||
+    footprint.pcf?.geographyCountrySubdivision
+  ),
+  classification: (footprint) => isNonEmptyArray(footprint.productClassifications),
+  validityPeriod: (footprint) => isValidDate(footprint.validityPeriodStart) && isValidDate(footprint.validityPeriodEnd),
+  status: (footprint) => Boolean(footprint.status),
+  created: (footprint) => isValidDate(footprint.created),
+};
+
+const filterableAttributesOf = (footprint: any): string[] =>
+  Object.keys(FILTERABLE_ATTRIBUTES).filter((attribute) => FILTERABLE_ATTRIBUTES[attribute](footprint ?? {}));
+
+/**
+ * Selects the footprint the test cases of a test run request by its ID and filter by. The
+ * footprint with the given ID is selected, otherwise the listed footprint with the most
+ * filterable attributes, so the filter test cases do not pass trivially for missing attributes.
+ * The first listed footprint wins a tie.
+ * @returns The selected footprint and why it was selected, or undefined if no listed footprint
+ * has the given ID.
+ */
+export const selectFootprint = (
+  footprints: any[],
+  footprintId?: string
+): { footprint: any; selection: FootprintSelection } | undefined => {
+  const candidates = footprints.map((footprint) => ({ footprint, attributes: filterableAttributesOf(footprint) }));
+
+  if (footprintId) {
+    const requested = candidates.find(({ footprint }) => footprint?.id === footprintId);
+    return requested && {
+      footprint: requested.footprint,
+      selection: {
+        id: footprintId,
+        selectedBy: "footprintId",
+        reason: "Given with footprintId",
+        filterableAttributes: requested.attributes,
+      },
+    };
+  }
+
+  const richest = candidates.reduce((best, candidate) =>
+    candidate.attributes.length > best.attributes.length ? candidate : best
+  );
+  const missing = Object.keys(FILTERABLE_ATTRIBUTES).filter((attribute) => !richest.attributes.includes(attribute));
+  return {
+    footprint: richest.footprint,
+    selection: {
+      id: richest.footprint?.id,
+      selectedBy: "automatic",
+      reason: `Has the most filterable attributes of the ${footprints.length} listed footprints` +
+        (missing.length > 0 ? `, lacks ${missing.join(", ")}` : ""),
+      filterableAttributes: richest.attributes,
+    },
+  };
+};
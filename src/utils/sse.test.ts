@@ -0,0 +1,82 @@
+import { EventEmitter } from "events";
+import { Response } from "express";
+import { openEventStream } from "./sse";
+
+describe("openEventStream", () => {
+  const createResponse = () => {
+    const res = Object.assign(new EventEmitter(), {
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      write: jest.fn(),
+      end: jest.fn(),
+    });
+    return res as typeof res & Response;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("sends the SSE headers immediately", () => {
+    const res = createResponse();
+
+    openEventStream(res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.setHeader).toHaveBeenCalledWith("Content-Type", "text/event-stream");
+    expect(res.setHeader).toHaveBeenCalledWith("Cache-Control", "no-cache");
+    expect(res.flushHeaders).toHaveBeenCalled();
+  });
+
+  it("writes events with their name and JSON data", () => {
+    const res = createResponse();
+    const stream = openEventStream(res);
+
+    stream.send("testcase.started", { testKey: "TESTCASE#1" });
+
+    expect(res.write).toHaveBeenCalledWith('event: testcase.started\ndata: {"testKey":"TESTCASE#1"}\n\n');
+  });
+
+  it("writes a heartbeat comment while the stream is open", () => {
+    const res = createResponse();
+    const stream = openEventStream(res);
+
+    jest.advanceTimersByTime(15000);
+    expect(res.write).toHaveBeenCalledWith(": heartbeat\n\n");
+
+    stream.close();
+    res.write.mockClear();
+    jest.advanceTimersByTime(30000);
+    expect(res.write).not.toHaveBeenCalled();
+  });
+
+  it("ends the response and calls onClose once when closed", () => {
+    const res = createResponse();
+    const onClose = jest.fn();
+    const stream = openEventStream(res, onClose);
+
+    stream.close();
+    res.emit("close");
+
+    expect(res.end).toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops sending events when the client disconnects", () => {
+    const res = createResponse();
+    const onClose = jest.fn();
+    const stream = openEventStream(res, onClose);
+
+    res.emit("close");
+    stream.send("testcase.started", { testKey: "TESTCASE#1" });
+    jest.advanceTimersByTime(15000);
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(res.write).not.toHaveBeenCalled();
+  });
+});
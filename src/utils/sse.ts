@@ -0,0 +1,48 @@
+import { Response } from "express";
+
+// Interval for comment lines which keep idle connections open through proxies
+const HEARTBEAT_INTERVAL = 15000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Turns the response into a Server-Sent Events stream.
+ * Sends the SSE headers immediately, and a heartbeat comment at a regular interval
+ * until the stream is closed, either by calling close() or by the client disconnecting.
+ *
+ * @param onClose - Called once when the stream is closed.
+ */
+export const openEventStream = (res: Response, onClose?: () => void): EventStream => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  // Disable response buffering in nginx based proxies
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  let closed = false;
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    onClose?.();
+  };
+  res.on("close", cleanup);
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      cleanup();
+      res.end();
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import { TestCaseResultStatus, TestResult, TestRunStatus } from "../services/types";
+
+/**
+ * Determines the status of a test run from the results of its mandatory test cases:
+ * - If all mandatory tests pass, the test run is a PASS
+ * - If any mandatory test fails, the test run is a FAIL
+ * - If there are pending mandatory tests and no failures, the test run is PENDING
+ * Skipped test cases do not apply to the tested API and are not counted.
+ * @returns undefined if there are no mandatory tests, the status is not changed then.
+ */
+export const getTestRunStatus = (
+  results: TestResult[]
+): { status: TestRunStatus; passingPercentage: number } | undefined => {
+  const mandatoryTests = results.filter((test) => test.mandatory && test.status !== TestCaseResultStatus.SKIPPED);
+  const failed = mandatoryTests.filter((test) => test.status === TestCaseResultStatus.FAILURE).length;
+  const pending = mandatoryTests.filter((test) => test.status === TestCaseResultStatus.PENDING).length;
+
+  if (mandatoryTests.length === 0) {
+    return undefined;
+  }
+  if (failed === 0 && pending === 0) {
+    return { status: TestRunStatus.PASS, passingPercentage: 100 };
+  }
+  if (failed > 0) {
+    return {
+      status: TestRunStatus.FAIL,
+      passingPercentage: Math.round(((mandatoryTests.length - failed - pending) / mandatoryTests.length) * 100),
+    };
+  }
+  return {
+    status: TestRunStatus.PENDING,
+    passingPercentage: Math.round(((mandatoryTests.length - pending) / mandatoryTests.length) * 100),
+  };
+};